@@ -8,12 +8,13 @@ import { useAuth } from "@/hooks/useAuth";
 import Landing from "@/pages/Landing";
 import DreamMachine from "@/pages/DreamMachine";
 import AuroraMonitor from "@/pages/AuroraMonitor";
+import TwoFactorSetup from "@/pages/TwoFactorSetup";
 import NotFound from "@/pages/not-found";
 import { Loader2 } from "lucide-react";
 import { useEffect, useRef } from "react";
 
 function Router() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
   const [, setLocation] = useLocation();
   const didRedirect = useRef(false);
 
@@ -50,6 +51,10 @@ function Router() {
     );
   }
 
+  if (user?.totpRequired && !user.totpEnabled) {
+    return <TwoFactorSetup />;
+  }
+
   return (
     <Switch>
       <Route path="/" component={DreamMachine} />
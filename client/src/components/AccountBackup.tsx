@@ -0,0 +1,115 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Archive, Download, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { fetchWithAuth, queryClient } from "@/lib/queryClient";
+import { downloadResponse, readErrorMessage } from "@/lib/files";
+import type { RestoreSummary } from "@shared/schema";
+
+export function AccountBackup() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+
+  const downloadBackup = async () => {
+    try {
+      const res = await fetchWithAuth("/api/backup");
+      if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to create backup"));
+      await downloadResponse(res, "wolfgang-backup.json");
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const res = await fetchWithAuth("/api/restore", {
+        method: "POST",
+        // Plain text so large archives aren't held to the JSON body limit
+        headers: { "Content-Type": "text/plain" },
+        body: await file.text(),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to restore backup"));
+      return res.json() as Promise<RestoreSummary>;
+    },
+    onSuccess: (summary) => {
+      // Boards, dreams, settings and the ledger all changed underneath us
+      queryClient.invalidateQueries();
+      setPendingFile(null);
+      setOpen(false);
+      toast({
+        title: "Backup Restored",
+        description: `${summary.boards} boards, ${summary.dreamItems} dreams and ${summary.balanceEntries} ledger entries`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setPendingFile(event.target.files?.[0] ?? null);
+    event.target.value = "";
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => { setPendingFile(null); setOpen(true); }}
+        className="text-muted-foreground hover:text-foreground hover:bg-muted/50"
+        data-testid="button-account-backup"
+      >
+        <Archive className="w-5 h-5" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Backup & Restore</DialogTitle>
+            <DialogDescription>
+              A backup holds your settings, boards, dreams (including the Trash), balance history and plan baselines.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 pt-2">
+            <Button className="w-full" onClick={downloadBackup} data-testid="button-download-backup">
+              <Download className="w-4 h-4 mr-2" />
+              Download Backup
+            </Button>
+            <div className="space-y-2 border-t border-border pt-4">
+              <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} data-testid="input-restore-backup" />
+              {!pendingFile ? (
+                <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()} data-testid="button-choose-backup">
+                  <Upload className="w-4 h-4 mr-2" />
+                  Restore from Backup
+                </Button>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Restoring <span className="font-medium text-foreground">{pendingFile.name}</span> replaces all of your current
+                    boards, dreams, balance history and settings. This can't be undone.
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="outline" className="flex-1" onClick={() => setPendingFile(null)}>Cancel</Button>
+                    <Button
+                      className="flex-1 bg-red-600 hover:bg-red-700 text-white"
+                      onClick={() => restoreMutation.mutate(pendingFile)}
+                      disabled={restoreMutation.isPending}
+                      data-testid="button-confirm-restore"
+                    >
+                      Replace My Data
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { LogOut, MonitorSmartphone, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ActiveSession } from "@shared/schema";
+
+interface ActiveSessionsProps {
+  onLoggedOutEverywhere: () => void;
+}
+
+// Good enough to tell devices apart without a user-agent parsing library
+const describeUserAgent = (userAgent: string | null): string => {
+  if (!userAgent) return "Unknown device";
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : null;
+  const os = /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  if (!browser && !os) return userAgent.slice(0, 40);
+  return [browser, os].filter(Boolean).join(" on ");
+};
+
+export function ActiveSessions({ onLoggedOutEverywhere }: ActiveSessionsProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+    enabled: open,
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await apiRequest("DELETE", `/api/auth/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session Revoked" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revoke session", variant: "destructive" });
+    },
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout-all");
+    },
+    onSuccess: () => {
+      setOpen(false);
+      onLoggedOutEverywhere();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to log out everywhere", variant: "destructive" });
+    },
+  });
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setOpen(true)}
+        className="text-muted-foreground hover:text-foreground hover:bg-muted/50"
+        data-testid="button-sessions"
+      >
+        <MonitorSmartphone className="w-5 h-5" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Active Sessions</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-4">
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {sessions.map(session => (
+                <div key={session.id} className="flex items-center gap-3 rounded-md border border-border px-3 py-2" data-testid={`session-${session.id.slice(0, 8)}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">{describeUserAgent(session.userAgent)}</span>
+                      {session.current && <Badge>This device</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {session.ip ?? "Unknown IP"} · active {formatDistanceToNow(session.lastSeenAt, { addSuffix: true })} · signed in {formatDistanceToNow(session.createdAt, { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-red-400"
+                      onClick={() => revokeSessionMutation.mutate(session.id)}
+                      disabled={revokeSessionMutation.isPending}
+                      data-testid={`button-revoke-session-${session.id.slice(0, 8)}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {!isLoading && sessions.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-2">No active sessions</p>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              className="w-full text-red-400 border-red-500/30"
+              onClick={() => logoutAllMutation.mutate()}
+              disabled={logoutAllMutation.isPending}
+              data-testid="button-logout-all"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Log Out Everywhere
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
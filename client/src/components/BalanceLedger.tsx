@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ArrowDownRight, ArrowUpRight, History, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/format";
+import type { BalanceEntry, BalanceEntryType } from "@shared/schema";
+
+const ENTRY_TYPE_LABELS: Record<BalanceEntryType, string> = {
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  pnl_close: "Daily Close",
+  adjustment: "Adjustment",
+};
+
+const RECENT_ENTRIES_SHOWN = 8;
+
+interface BalanceLedgerProps {
+  originBalance: number;
+}
+
+export function BalanceLedger({ originBalance }: BalanceLedgerProps) {
+  const { toast } = useToast();
+  const [entryType, setEntryType] = useState<BalanceEntryType>("pnl_close");
+  const [entryValue, setEntryValue] = useState("");
+  const [entryNote, setEntryNote] = useState("");
+
+  const { data: entries = [] } = useQuery<BalanceEntry[]>({
+    queryKey: ["/api/balance-entries"],
+  });
+
+  const createEntryMutation = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const res = await apiRequest("POST", "/api/balance-entries", body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/balance-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/plan-baseline/tracking"] });
+      setEntryValue("");
+      setEntryNote("");
+      toast({ title: "Balance Recorded", description: ENTRY_TYPE_LABELS[entryType] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to record balance entry", variant: "destructive" });
+    },
+  });
+
+  const handleRecord = () => {
+    const value = parseFloat(entryValue.replace(/,/g, ""));
+    if (isNaN(value)) return;
+    createEntryMutation.mutate({
+      type: entryType,
+      // A daily close is entered as the account's closing balance
+      ...(entryType === "pnl_close" ? { closingBalance: value } : { amount: value }),
+      note: entryNote || undefined,
+    });
+  };
+
+  const latest = entries[0];
+  const lastClose = entries.find(e => e.type === "pnl_close");
+  const netDeposits = entries
+    .filter(e => e.type === "deposit" || e.type === "withdrawal")
+    .reduce((sum, e) => sum + e.amount, 0);
+  const tradingPnl = entries
+    .filter(e => e.type === "pnl_close")
+    .reduce((sum, e) => sum + e.amount, 0);
+  const growthSinceOrigin = latest ? latest.balanceAfter - originBalance - netDeposits : 0;
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border/30" data-testid="section-balance-ledger">
+      <div className="flex items-center gap-2">
+        <History className="w-3 h-3 text-muted-foreground" />
+        <span className="text-xs text-muted-foreground font-bold uppercase">Balance History</span>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="p-2 rounded bg-card/50">
+            <div className="text-xs text-muted-foreground">Trading P&L</div>
+            <div className={`text-sm font-bold tabular-nums ${tradingPnl >= 0 ? "text-win" : "text-loss"}`} data-testid="text-ledger-pnl">
+              {formatCurrency(tradingPnl)}
+            </div>
+          </div>
+          <div className="p-2 rounded bg-card/50">
+            <div className="text-xs text-muted-foreground">Last Close</div>
+            <div className={`text-sm font-bold tabular-nums ${(lastClose?.amount ?? 0) >= 0 ? "text-win" : "text-loss"}`} data-testid="text-ledger-last-close">
+              {lastClose ? formatCurrency(lastClose.amount) : "—"}
+            </div>
+          </div>
+          <div className="p-2 rounded bg-card/50">
+            <div className="text-xs text-muted-foreground">Growth vs Origin</div>
+            <div className={`text-sm font-bold tabular-nums ${growthSinceOrigin >= 0 ? "text-win" : "text-loss"}`} data-testid="text-ledger-growth">
+              {formatCurrency(growthSinceOrigin)}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Select value={entryType} onValueChange={(val) => setEntryType(val as BalanceEntryType)}>
+          <SelectTrigger className="h-8 w-32 text-xs" data-testid="select-ledger-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ENTRY_TYPE_LABELS) as BalanceEntryType[]).map(type => (
+              <SelectItem key={type} value={type}>{ENTRY_TYPE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={entryValue}
+          onChange={(e) => setEntryValue(e.target.value.replace(/[^0-9.,-]/g, ""))}
+          placeholder={entryType === "pnl_close" ? "Closing balance" : entryType === "adjustment" ? "+/- amount" : "Amount"}
+          className="h-8 text-xs tabular-nums"
+          data-testid="input-ledger-amount"
+        />
+        <Input
+          value={entryNote}
+          onChange={(e) => setEntryNote(e.target.value)}
+          placeholder="Note"
+          className="h-8 text-xs"
+          data-testid="input-ledger-note"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 gap-1"
+          onClick={handleRecord}
+          disabled={!entryValue || createEntryMutation.isPending}
+          data-testid="button-record-balance"
+        >
+          <Plus className="w-3 h-3" />
+          Record
+        </Button>
+      </div>
+
+      {entries.length > 0 && (
+        <div className="space-y-1">
+          {entries.slice(0, RECENT_ENTRIES_SHOWN).map(entry => (
+            <div key={entry.id} className="flex items-center justify-between text-xs p-1.5 rounded bg-muted/20" data-testid={`ledger-entry-${entry.id}`}>
+              <div className="flex items-center gap-2 min-w-0">
+                {entry.amount >= 0
+                  ? <ArrowUpRight className="w-3 h-3 text-win flex-shrink-0" />
+                  : <ArrowDownRight className="w-3 h-3 text-loss flex-shrink-0" />}
+                <span className="text-muted-foreground tabular-nums">
+                  {new Date(entry.timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                </span>
+                <Badge variant="outline" className="text-[10px] px-1 py-0">{ENTRY_TYPE_LABELS[entry.type]}</Badge>
+                {entry.note && <span className="truncate text-muted-foreground">{entry.note}</span>}
+              </div>
+              <div className="flex items-center gap-3 tabular-nums flex-shrink-0">
+                <span className={entry.amount >= 0 ? "text-win" : "text-loss"}>
+                  {entry.amount >= 0 ? "+" : ""}{formatCurrency(entry.amount)}
+                </span>
+                <span className="font-medium">{formatCurrency(entry.balanceAfter)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { LayoutGrid, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Board } from "@shared/schema";
+
+interface BoardSwitcherProps {
+  boards: Board[];
+  activeBoard: Board | undefined;
+  onSelect: (boardId: number) => void;
+}
+
+const parseOptionalAmount = (value: string): number | null => {
+  const parsed = parseFloat(value.replace(/,/g, ""));
+  return isNaN(parsed) ? null : parsed;
+};
+
+export function BoardSwitcher({ boards, activeBoard, onSelect }: BoardSwitcherProps) {
+  const { toast } = useToast();
+  const [dialogMode, setDialogMode] = useState<"create" | "edit" | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [goalOverride, setGoalOverride] = useState("");
+  const [originOverride, setOriginOverride] = useState("");
+
+  const openDialog = (mode: "create" | "edit") => {
+    const board = mode === "edit" ? activeBoard : undefined;
+    setName(board?.name ?? "");
+    setDescription(board?.description ?? "");
+    setGoalOverride(board?.ultimateGoal != null ? String(board.ultimateGoal) : "");
+    setOriginOverride(board?.originBalance != null ? String(board.originBalance) : "");
+    setDialogMode(mode);
+  };
+
+  const saveBoardMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name,
+        description: description || null,
+        ultimateGoal: parseOptionalAmount(goalOverride),
+        originBalance: parseOptionalAmount(originOverride),
+      };
+      const res = dialogMode === "edit" && activeBoard
+        ? await apiRequest("PATCH", `/api/boards/${activeBoard.id}`, body)
+        : await apiRequest("POST", "/api/boards", body);
+      return res.json();
+    },
+    onSuccess: (board: Board) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/boards"] });
+      if (dialogMode === "create") onSelect(board.id);
+      toast({ title: dialogMode === "create" ? "Board Created" : "Board Updated", description: board.name });
+      setDialogMode(null);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save board", variant: "destructive" });
+    },
+  });
+
+  const deleteBoardMutation = useMutation({
+    mutationFn: async (boardId: number) => {
+      await apiRequest("DELETE", `/api/boards/${boardId}`);
+      return boardId;
+    },
+    onSuccess: (boardId: number) => {
+      queryClient.removeQueries({ queryKey: ["/api/boards", boardId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/boards"] });
+      // The server moves the board's dreams to the Trash of the first other board
+      const fallback = boards.find(b => b.id !== boardId);
+      if (fallback) onSelect(fallback.id);
+      toast({ title: "Board Deleted", description: fallback ? `Its dreams are in the Trash on ${fallback.name}` : undefined });
+      setDialogMode(null);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete board", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-1" data-testid="board-switcher">
+      <Select value={activeBoard ? String(activeBoard.id) : undefined} onValueChange={(val) => onSelect(Number(val))}>
+        <SelectTrigger className="h-9 w-44 text-sm" data-testid="select-board">
+          <LayoutGrid className="w-4 h-4 text-primary mr-1 flex-shrink-0" />
+          <SelectValue placeholder="Select board" />
+        </SelectTrigger>
+        <SelectContent>
+          {boards.map(board => (
+            <SelectItem key={board.id} value={String(board.id)} data-testid={`select-board-${board.id}`}>
+              {board.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="icon" onClick={() => openDialog("edit")} disabled={!activeBoard} data-testid="button-edit-board">
+        <Pencil className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={() => openDialog("create")} data-testid="button-new-board">
+        <Plus className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => { if (!open) setDialogMode(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialogMode === "create" ? "New Board" : "Edit Board"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Board Name</label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., 2027 Goals, Retirement" data-testid="input-board-name" />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Description</label>
+              <Textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} data-testid="input-board-description" />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Goal Override ($)</label>
+                <Input
+                  value={goalOverride}
+                  onChange={(e) => setGoalOverride(e.target.value.replace(/[^0-9.,]/g, ""))}
+                  placeholder="Use settings"
+                  data-testid="input-board-goal"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium mb-2 block">Origin Override ($)</label>
+                <Input
+                  value={originOverride}
+                  onChange={(e) => setOriginOverride(e.target.value.replace(/[^0-9.,]/g, ""))}
+                  placeholder="Use settings"
+                  data-testid="input-board-origin"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Leave an override blank to use the goal and origin from your settings.</p>
+          </div>
+          <DialogFooter className="gap-2">
+            {dialogMode === "edit" && activeBoard && boards.length > 1 && (
+              <Button
+                variant="outline"
+                className="text-red-400 border-red-500/30 mr-auto"
+                onClick={() => deleteBoardMutation.mutate(activeBoard.id)}
+                disabled={deleteBoardMutation.isPending}
+                data-testid="button-delete-board"
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                Delete Board
+              </Button>
+            )}
+            <Button onClick={() => saveBoardMutation.mutate()} disabled={!name || saveBoardMutation.isPending} data-testid="button-save-board">
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
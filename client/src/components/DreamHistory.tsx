@@ -0,0 +1,131 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AuditEvent } from "@shared/schema";
+
+interface DreamHistoryProps {
+  item: { id: number; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  cost: "Cost",
+  purchased: "Purchased",
+  iconType: "Icon",
+  url: "Link",
+  category: "Category",
+  hidden: "Hidden",
+  boardId: "Board",
+};
+
+const ACTION_LABELS: Record<AuditEvent["action"], string> = {
+  create: "Created",
+  update: "Edited",
+  delete: "Deleted",
+  restore: "Restored",
+  revert: "Reverted",
+};
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "cost" && typeof value === "number") {
+    return `$${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+  }
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+const getChangedFields = (event: AuditEvent): string[] =>
+  Object.keys(FIELD_LABELS).filter(field =>
+    JSON.stringify(event.before?.[field]) !== JSON.stringify(event.after?.[field])
+  );
+
+export function DreamHistory({ item, onOpenChange }: DreamHistoryProps) {
+  const { toast } = useToast();
+  const historyKey = [`/api/audit?entity=dream_item&entityId=${item?.id}`];
+
+  const { data: events = [], isLoading } = useQuery<AuditEvent[]>({
+    queryKey: historyKey,
+    enabled: !!item,
+    staleTime: 0,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (eventId: number) => {
+      const res = await apiRequest("POST", `/api/dream-items/${item!.id}/revert`, { eventId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/boards"] });
+      queryClient.invalidateQueries({ queryKey: historyKey });
+      toast({ title: "Dream Reverted" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revert dream", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Sheet open={!!item} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>{item?.name}</SheetDescription>
+        </SheetHeader>
+        <div className="space-y-3 pt-4" data-testid="list-dream-history">
+          {isLoading && <Loader2 className="w-5 h-5 animate-spin mx-auto text-muted-foreground" />}
+          {!isLoading && events.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No recorded changes yet</p>
+          )}
+          {events.map((event, index) => {
+            const changed = event.action === "create" ? [] : getChangedFields(event);
+            // Reverting restores the struck-through values
+            const canRevert = event.action === "update" || event.action === "revert";
+            return (
+              <div key={event.id} className="rounded-md border border-border p-3 space-y-2" data-testid={`history-event-${event.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={index === 0 ? "default" : "secondary"}>{ACTION_LABELS[event.action]}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {canRevert && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => revertMutation.mutate(event.id)}
+                      disabled={revertMutation.isPending}
+                      data-testid={`button-revert-${event.id}`}
+                    >
+                      <Undo2 className="w-3 h-3 mr-1" />
+                      Revert
+                    </Button>
+                  )}
+                </div>
+                {changed.length > 0 && (
+                  <ul className="text-xs space-y-1">
+                    {changed.map(field => (
+                      <li key={field}>
+                        <span className="text-muted-foreground">{FIELD_LABELS[field]}:</span>{" "}
+                        <span className="line-through text-muted-foreground">{formatValue(field, event.before?.[field])}</span>{" "}
+                        → <span className="font-medium">{formatValue(field, event.after?.[field])}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,64 @@
+import { useRef } from "react";
+import { ImagePlus } from "lucide-react";
+import type { UppyFile } from "@uppy/core";
+import { Button } from "@/components/ui/button";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { apiRequest } from "@/lib/queryClient";
+import { uploadedImageUrl } from "@/lib/files";
+import { MAX_UPLOAD_BYTES, type UploadTarget } from "@shared/schema";
+
+interface DreamImageFieldProps {
+  imageKey: string | null;
+  // A picture that isn't uploaded yet, shown until one is
+  imageUrl?: string | null;
+  onChange: (imageKey: string | null) => void;
+}
+
+export function DreamImageField({ imageKey, imageUrl, onChange }: DreamImageFieldProps) {
+  const previewSrc = imageKey ? uploadedImageUrl(imageKey, "thumbnail") : imageUrl;
+  // Uppy holds on to the callbacks from the first render, so go through refs
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const keysByFileId = useRef(new Map<string, string>());
+
+  const getUploadParameters = async (file: UppyFile<Record<string, unknown>, Record<string, unknown>>) => {
+    const res = await apiRequest("POST", "/api/uploads", { contentType: file.type, size: file.size });
+    const target: UploadTarget = await res.json();
+    keysByFileId.current.set(file.id, target.key);
+    return { method: target.method, url: target.url, headers: { "Content-Type": file.type } };
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      {previewSrc ? (
+        <img
+          src={previewSrc}
+          alt=""
+          className="w-16 h-16 rounded-lg object-cover border border-border"
+          data-testid="img-dream-image-preview"
+        />
+      ) : (
+        <div className="w-16 h-16 rounded-lg border border-dashed border-border flex items-center justify-center text-muted-foreground">
+          <ImagePlus className="w-5 h-5" />
+        </div>
+      )}
+      <ObjectUploader
+        maxFileSize={MAX_UPLOAD_BYTES}
+        onGetUploadParameters={getUploadParameters}
+        onComplete={(result) => {
+          const file = result.successful?.[0];
+          const key = file && keysByFileId.current.get(file.id);
+          keysByFileId.current.clear();
+          if (key) onChangeRef.current(key);
+        }}
+      >
+        {previewSrc ? "Replace Image" : "Upload Image"}
+      </ObjectUploader>
+      {previewSrc && (
+        <Button variant="ghost" size="sm" onClick={() => onChange(null)} data-testid="button-remove-dream-image">
+          Remove
+        </Button>
+      )}
+    </div>
+  );
+}
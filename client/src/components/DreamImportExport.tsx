@@ -0,0 +1,160 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Download, FileUp, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { fetchWithAuth, queryClient } from "@/lib/queryClient";
+import { downloadResponse, readErrorMessage } from "@/lib/files";
+import type { DreamImportResult, DreamTransferFormat } from "@shared/schema";
+
+interface DreamImportExportProps {
+  boardId: number;
+}
+
+interface ImportFile {
+  name: string;
+  format: DreamTransferFormat;
+  content: string;
+}
+
+const sendImport = async (boardId: number, file: ImportFile, dryRun: boolean): Promise<DreamImportResult> => {
+  const res = await fetchWithAuth(`/api/dream-items/import?format=${file.format}&boardId=${boardId}&dryRun=${dryRun}`, {
+    method: "POST",
+    // Plain text so large files aren't held to the JSON body limit
+    headers: { "Content-Type": file.format === "csv" ? "text/csv" : "text/plain" },
+    body: file.content,
+  });
+  if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to import dreams"));
+  return res.json();
+};
+
+export function DreamImportExport({ boardId }: DreamImportExportProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [preview, setPreview] = useState<DreamImportResult | null>(null);
+
+  const exportDreams = async (format: DreamTransferFormat) => {
+    try {
+      const res = await fetchWithAuth(`/api/dream-items/export?format=${format}&boardId=${boardId}`);
+      if (!res.ok) throw new Error(await readErrorMessage(res, "Failed to export dreams"));
+      await downloadResponse(res, `dreams.${format}`);
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (selected: ImportFile) => sendImport(boardId, selected, true),
+    onSuccess: (result) => setPreview(result),
+    onError: (error: Error) => {
+      setFile(null);
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => sendImport(boardId, file!, false),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/boards", boardId, "dream-items"] });
+      toast({
+        title: "Dreams Imported",
+        description: `${result.created} added, ${result.updated} updated${result.failed ? `, ${result.failed} skipped` : ""}`,
+      });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const closeDialog = () => {
+    setFile(null);
+    setPreview(null);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+    const importFile: ImportFile = {
+      name: selected.name,
+      format: selected.name.toLowerCase().endsWith(".json") ? "json" : "csv",
+      content: await selected.text(),
+    };
+    setFile(importFile);
+    previewMutation.mutate(importFile);
+  };
+
+  const errorRows = preview?.rows.filter(row => row.action === "error") ?? [];
+  const importable = preview ? preview.created + preview.updated : 0;
+
+  return (
+    <>
+      <input ref={fileInputRef} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFileChange} data-testid="input-import-dreams" />
+      <Button variant="outline" size="sm" className="text-xs gap-1" onClick={() => fileInputRef.current?.click()} data-testid="button-import-dreams">
+        <Upload className="w-3 h-3" />
+        Import
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="text-xs gap-1" data-testid="button-export-dreams">
+            <Download className="w-3 h-3" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => exportDreams("csv")} data-testid="menu-export-csv">CSV (spreadsheet)</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => exportDreams("json")} data-testid="menu-export-json">JSON</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!preview} onOpenChange={(open) => { if (!open) closeDialog(); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileUp className="w-4 h-4" />
+              Import {file?.name}
+            </DialogTitle>
+          </DialogHeader>
+          {preview && (
+            <div className="space-y-4 pt-2">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{preview.created} new</Badge>
+                <Badge variant="secondary">{preview.updated} updated</Badge>
+                {preview.failed > 0 && <Badge variant="destructive">{preview.failed} with errors</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Dreams with the same name and category as one already on this board are updated in place.
+                {preview.failed > 0 && " Rows with errors are skipped."}
+              </p>
+              {errorRows.length > 0 && (
+                <div className="max-h-48 overflow-y-auto rounded-md border border-border p-2 space-y-2 text-xs" data-testid="list-import-errors">
+                  {errorRows.map(row => (
+                    <div key={row.row}>
+                      <span className="font-medium">Row {row.row}{row.name ? ` (${row.name})` : ""}:</span>{" "}
+                      <span className="text-muted-foreground">{row.errors.join("; ")}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={importable === 0 || importMutation.isPending}
+              data-testid="button-confirm-import"
+            >
+              Import {importable} Dream{importable === 1 ? "" : "s"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
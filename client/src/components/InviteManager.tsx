@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Copy, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { UserInvite } from "@shared/schema";
+
+const getInviteStatus = (invite: UserInvite): "Used" | "Expired" | "Open" => {
+  if (invite.usedAt) return "Used";
+  if (new Date(invite.expiresAt) <= new Date()) return "Expired";
+  return "Open";
+};
+
+export function InviteManager() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const { data: invites = [] } = useQuery<UserInvite[]>({
+    queryKey: ["/api/invites"],
+    enabled: open,
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/invites");
+      return res.json();
+    },
+    onSuccess: (invite: UserInvite) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invites"] });
+      copyCode(invite.code);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to create invite", variant: "destructive" });
+    },
+  });
+
+  const copyCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast({ title: "Invite Code Copied", description: code });
+    } catch {
+      toast({ title: "Invite Code", description: code });
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setOpen(true)}
+        className="text-muted-foreground hover:text-foreground hover:bg-muted/50"
+        data-testid="button-invites"
+      >
+        <UserPlus className="w-5 h-5" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Users</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-4">
+            <p className="text-sm text-muted-foreground">
+              Each code creates one account and expires after 7 days.
+            </p>
+            <Button
+              onClick={() => createInviteMutation.mutate()}
+              disabled={createInviteMutation.isPending}
+              className="w-full"
+              data-testid="button-create-invite"
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              New Invite Code
+            </Button>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {invites.map(invite => {
+                const status = getInviteStatus(invite);
+                return (
+                  <div key={invite.id} className="flex items-center gap-2 rounded-md border border-border px-3 py-2" data-testid={`invite-${invite.id}`}>
+                    <code className="flex-1 text-sm font-mono truncate">{invite.code}</code>
+                    <Badge variant={status === "Open" ? "default" : "secondary"}>{status}</Badge>
+                    {status === "Open" && (
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => copyCode(invite.code)} data-testid={`button-copy-invite-${invite.id}`}>
+                        <Copy className="w-3.5 h-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+              {invites.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-2">No invites yet</p>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
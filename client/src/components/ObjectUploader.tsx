@@ -5,15 +5,18 @@ import { DashboardModal } from "@uppy/react";
 import "@uppy/core/css/style.css";
 import "@uppy/dashboard/css/style.css";
 import AwsS3 from "@uppy/aws-s3";
-import type { UploadResult } from "@uppy/core";
+import type { UploadResult, UppyFile } from "@uppy/core";
 import { Button } from "@/components/ui/button";
 
 interface ObjectUploaderProps {
   maxNumberOfFiles?: number;
   maxFileSize?: number;
-  onGetUploadParameters: () => Promise<{
+  onGetUploadParameters: (
+    file: UppyFile<Record<string, unknown>, Record<string, unknown>>
+  ) => Promise<{
     method: "PUT";
     url: string;
+    headers?: Record<string, string>;
   }>;
   onComplete?: (
     result: UploadResult<Record<string, unknown>, Record<string, unknown>>
@@ -35,8 +38,8 @@ export function ObjectUploader({
   children,
 }: ObjectUploaderProps) {
   const [showModal, setShowModal] = useState(false);
-  const [uppy] = useState(() =>
-    new Uppy({
+  const [uppy] = useState(() => {
+    const instance = new Uppy({
       restrictions: {
         maxNumberOfFiles,
         maxFileSize,
@@ -47,12 +50,14 @@ export function ObjectUploader({
       .use(AwsS3, {
         shouldUseMultipart: false,
         getUploadParameters: onGetUploadParameters,
-      })
-      .on("complete", (result) => {
-        onComplete?.(result);
-        setShowModal(false);
-      })
-  );
+      });
+    return instance.on("complete", (result) => {
+      onComplete?.(result);
+      // Finished files count against maxNumberOfFiles, so clear them for the next upload
+      instance.cancelAll();
+      setShowModal(false);
+    });
+  });
 
   return (
     <div>
@@ -0,0 +1,115 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Crosshair } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/format";
+import type { PlanBaseline } from "@shared/schema";
+import type { PlanTrackingPoint } from "@shared/projection";
+
+interface PlanTracking {
+  baseline: PlanBaseline;
+  series: PlanTrackingPoint[];
+  variance: { amount: number; percent: number };
+}
+
+const chartConfig = {
+  projected: { label: "Projected", color: "hsl(var(--chart-3))" },
+  actual: { label: "Actual", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const formatAxisCurrency = (value: number): string => {
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(0)}K`;
+  return `$${value.toFixed(0)}`;
+};
+
+interface PlanTrackingChartProps {
+  startBalance: number;
+  dailyWins: number;
+  profitTarget: number;
+  riskPercent: number;
+}
+
+export function PlanTrackingChart({ startBalance, dailyWins, profitTarget, riskPercent }: PlanTrackingChartProps) {
+  const { toast } = useToast();
+
+  const { data: baseline } = useQuery<PlanBaseline | null>({
+    queryKey: ["/api/plan-baseline"],
+  });
+
+  const { data: tracking } = useQuery<PlanTracking>({
+    queryKey: ["/api/plan-baseline/tracking"],
+    enabled: !!baseline,
+    staleTime: 0,
+  });
+
+  const saveBaselineMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/plan-baseline", { startBalance, dailyWins, profitTarget, riskPercent });
+      return res.json();
+    },
+    onSuccess: (data: PlanBaseline) => {
+      queryClient.setQueryData(["/api/plan-baseline"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/plan-baseline/tracking"] });
+      toast({ title: "Plan Baseline Saved", description: `Tracking from ${formatCurrency(startBalance)} today` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save plan baseline", variant: "destructive" });
+    },
+  });
+
+  const variance = tracking?.variance;
+  const isAhead = (variance?.amount ?? 0) >= 0;
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border/30" data-testid="section-plan-tracking">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Crosshair className="w-3 h-3 text-muted-foreground" />
+          <span className="text-xs text-muted-foreground font-bold uppercase">Actual vs Plan</span>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 text-xs"
+          onClick={() => saveBaselineMutation.mutate()}
+          disabled={saveBaselineMutation.isPending}
+          data-testid="button-save-baseline"
+        >
+          {baseline ? "Reset Baseline" : "Start Tracking"}
+        </Button>
+      </div>
+
+      {baseline && tracking && variance && (
+        <>
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">
+              Since {baseline.startDate} · {baseline.dailyWins} wins · {(baseline.profitTarget * 100).toFixed(0)}% ROI · {baseline.riskPercent}% risk
+            </span>
+            <span className={`font-bold tabular-nums ${isAhead ? "text-win" : "text-loss"}`} data-testid="text-plan-variance">
+              {isAhead ? "Ahead" : "Behind"} {formatCurrency(Math.abs(variance.amount))} ({variance.percent >= 0 ? "+" : ""}{variance.percent.toFixed(1)}%)
+            </span>
+          </div>
+          {tracking.series.length > 1 ? (
+            <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+              <LineChart data={tracking.series} margin={{ left: 4, right: 4, top: 4 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} tickFormatter={(value: string) => value.slice(5)} />
+                <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={formatAxisCurrency} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name}: ${formatCurrency(Number(value))}`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="projected" type="monotone" stroke="var(--color-projected)" strokeDasharray="4 4" strokeWidth={2} dot={false} />
+                <Line dataKey="actual" type="stepAfter" stroke="var(--color-actual)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-xs text-muted-foreground">The chart fills in as trading days pass and closes are recorded.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { Line, LineChart, ResponsiveContainer, YAxis } from "recharts";
+import type { DreamPricePoint } from "@shared/schema";
+
+interface PriceSparklineProps {
+  points: DreamPricePoint[];
+  // Sizes the chart; it fills its container
+  className?: string;
+}
+
+// Red when the price has risen since tracking began, green when it has fallen
+export function PriceSparkline({ points, className }: PriceSparklineProps) {
+  const first = points[0]?.price ?? 0;
+  const last = points[points.length - 1]?.price ?? 0;
+  const trendClass = last > first ? "text-loss" : last < first ? "text-win" : "text-muted-foreground";
+
+  return (
+    <div className={`${className ?? ""} ${trendClass}`}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+          <YAxis hide domain={["dataMin", "dataMax"]} />
+          <Line type="monotone" dataKey="price" stroke="currentColor" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
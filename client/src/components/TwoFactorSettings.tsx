@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Copy, KeyRound, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+
+interface TotpSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+// apiRequest errors read "<status>: <json body>"; pull out the server's message
+const getErrorMessage = (error: Error, fallback: string): string => {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, "")).error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} containerClassName="justify-center" data-testid="input-totp-setup-code">
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+function RecoveryCodeList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copyAll = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast({ title: "Recovery Codes Copied" });
+    } catch {
+      toast({ title: "Error", description: "Could not copy to clipboard", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Store these somewhere safe. Each one signs you in once if you lose your authenticator, and they won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border border-border p-3 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <Button variant="outline" className="w-full" onClick={copyAll} data-testid="button-copy-recovery-codes">
+        <Copy className="w-4 h-4 mr-2" />
+        Copy Codes
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Walks through scanning a new secret, confirming a code and saving the
+ * recovery codes. onComplete fires after the user has seen the codes.
+ */
+export function TwoFactorEnrollment({ onComplete }: { onComplete: () => void }) {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const startSetupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/totp/setup");
+      return res.json();
+    },
+    onSuccess: (data: TotpSetup) => setSetup(data),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getErrorMessage(error, "Failed to start setup"), variant: "destructive" });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/totp/enable", { code });
+      return res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => setRecoveryCodes(data.recoveryCodes),
+    onError: (error: Error) => {
+      setCode("");
+      toast({ title: "Error", description: getErrorMessage(error, "Failed to enable two-factor"), variant: "destructive" });
+    },
+  });
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodeList codes={recoveryCodes} />
+        <Button className="w-full" onClick={onComplete} data-testid="button-finish-totp-setup">
+          I've Saved My Codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (!setup) {
+    return (
+      <Button
+        className="w-full"
+        onClick={() => startSetupMutation.mutate()}
+        disabled={startSetupMutation.isPending}
+        data-testid="button-start-totp-setup"
+      >
+        <ShieldCheck className="w-4 h-4 mr-2" />
+        Set Up Authenticator App
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scan this with your authenticator app, then enter the 6-digit code it shows.
+      </p>
+      <img src={setup.qrCode} alt="Two-factor QR code" className="mx-auto w-44 h-44 rounded-md bg-white p-2" data-testid="img-totp-qr" />
+      <div className="text-center">
+        <p className="text-xs text-muted-foreground mb-1">Can't scan? Enter this key instead</p>
+        <code className="text-sm font-mono break-all select-all" data-testid="text-totp-secret">{setup.secret}</code>
+      </div>
+      <CodeInput value={code} onChange={setCode} />
+      <Button
+        className="w-full"
+        onClick={() => enableMutation.mutate()}
+        disabled={code.length !== 6 || enableMutation.isPending}
+        data-testid="button-enable-totp"
+      >
+        Enable Two-Factor
+      </Button>
+    </div>
+  );
+}
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const { user, refreshUser } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+
+  const reset = () => {
+    setCode("");
+    setPassword("");
+    setNewRecoveryCodes(null);
+  };
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/totp/recovery-codes", { code });
+      return res.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setCode("");
+      setNewRecoveryCodes(data.recoveryCodes);
+      refreshUser();
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({ title: "Error", description: getErrorMessage(error, "Failed to regenerate codes"), variant: "destructive" });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/totp/disable", { password, code });
+    },
+    onSuccess: () => {
+      reset();
+      refreshUser();
+      toast({ title: "Two-Factor Disabled" });
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({ title: "Error", description: getErrorMessage(error, "Failed to disable two-factor"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => { reset(); setOpen(true); }}
+        className="text-muted-foreground hover:text-foreground hover:bg-muted/50"
+        data-testid="button-two-factor"
+      >
+        <ShieldCheck className="w-5 h-5" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              Two-Factor Authentication
+              <Badge variant={user?.totpEnabled ? "default" : "secondary"}>{user?.totpEnabled ? "On" : "Off"}</Badge>
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-4">
+            {!user?.totpEnabled ? (
+              <TwoFactorEnrollment onComplete={() => { refreshUser(); setOpen(false); }} />
+            ) : newRecoveryCodes ? (
+              <RecoveryCodeList codes={newRecoveryCodes} />
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {user.recoveryCodesRemaining} recovery code{user.recoveryCodesRemaining === 1 ? "" : "s"} left. Enter a current
+                  authenticator code to generate a new set{user.totpRequired ? "" : " or turn two-factor off"}.
+                </p>
+                <CodeInput value={code} onChange={setCode} />
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => regenerateMutation.mutate()}
+                  disabled={code.length !== 6 || regenerateMutation.isPending}
+                  data-testid="button-regenerate-recovery-codes"
+                >
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  New Recovery Codes
+                </Button>
+                {!user.totpRequired && (
+                  <div className="space-y-2 border-t border-border pt-4">
+                    <Input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Current password"
+                      data-testid="input-disable-totp-password"
+                    />
+                    <Button
+                      variant="outline"
+                      className="w-full text-red-400 border-red-500/30"
+                      onClick={() => disableMutation.mutate()}
+                      disabled={code.length !== 6 || !password || disableMutation.isPending}
+                      data-testid="button-disable-totp"
+                    >
+                      Turn Off Two-Factor
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
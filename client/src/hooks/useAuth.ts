@@ -1,51 +1,38 @@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchWithAuth,
+  getStoredToken,
+  getStoredRefreshToken,
+  storeAuthTokens,
+  clearStoredTokens,
+} from "@/lib/queryClient";
 
 const AUTH_QUERY_KEY = ["/api/auth/user"];
-const TOKEN_STORAGE_KEY = "wolfgang_auth_token";
 
-interface AuthUser {
+export interface AuthUser {
   username: string;
+  isAdmin: boolean;
+  totpEnabled: boolean;
+  totpRequired: boolean;
+  recoveryCodesRemaining: number;
 }
 
-function getStoredToken(): string | null {
-  try {
-    return localStorage.getItem(TOKEN_STORAGE_KEY);
-  } catch {
-    return null;
-  }
-}
-
-function setStoredToken(token: string): void {
-  try {
-    localStorage.setItem(TOKEN_STORAGE_KEY, token);
-  } catch {
-    console.error("Failed to store auth token");
-  }
-}
-
-function clearStoredToken(): void {
-  try {
-    localStorage.removeItem(TOKEN_STORAGE_KEY);
-  } catch {
-    console.error("Failed to clear auth token");
-  }
+interface AuthResult {
+  // Password was accepted but the account needs a two-factor code as well
+  totpRequired: boolean;
 }
 
 async function fetchUser(): Promise<AuthUser | null> {
-  const token = getStoredToken();
-  if (!token) {
+  if (!getStoredToken() && !getStoredRefreshToken()) {
     return null;
   }
   
   try {
-    const res = await fetch("/api/auth/user", {
-      headers: {
-        "Authorization": `Bearer ${token}`,
-      },
-    });
+    // Refreshes an expired access token on the way
+    const res = await fetchWithAuth("/api/auth/user");
     
     if (res.status === 401) {
-      clearStoredToken();
+      clearStoredTokens();
       return null;
     }
     
@@ -71,53 +58,72 @@ export function useAuth() {
     refetchOnWindowFocus: false,
   });
 
-  const login = async (username: string, password: string): Promise<AuthUser> => {
-    const res = await fetch("/api/login", {
+  const authenticate = async (path: string, body: object, fallbackMessage: string): Promise<AuthResult> => {
+    const res = await fetch(path, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ username, password }),
+      body: JSON.stringify(body),
     });
     
     if (!res.ok) {
       const data = await res.json();
-      throw new Error(data.message || "Login failed");
+      throw new Error(data.message || fallbackMessage);
     }
     
     const result = await res.json();
+    if (result.totpRequired && !result.token) {
+      return { totpRequired: true };
+    }
     
-    // Store the token
-    setStoredToken(result.token);
+    // Store the token pair
+    storeAuthTokens(result);
     
-    // Update the cache
-    const userData: AuthUser = { username: result.username };
+    // Fetch the full profile (including the admin flag) and update the cache
+    const userData = await fetchUser();
     queryClient.setQueryData(AUTH_QUERY_KEY, userData);
     
-    return userData;
+    return { totpRequired: false };
   };
 
+  const login = (username: string, password: string, totpCode?: string) =>
+    authenticate("/api/login", { username, password, totpCode }, "Login failed");
+
+  const register = (username: string, password: string, inviteCode?: string) =>
+    authenticate("/api/register", { username, password, inviteCode: inviteCode || undefined }, "Registration failed");
+
   const logout = async () => {
     const token = getStoredToken();
+    const refreshToken = getStoredRefreshToken();
     
     try {
+      // The refresh token still identifies the session if the access token has expired
       await fetch("/api/logout", {
         method: "POST",
-        headers: token ? { "Authorization": `Bearer ${token}` } : {},
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { "Authorization": `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(refreshToken ? { refreshToken } : {}),
       });
     } catch {
       // Ignore logout errors
     }
     
-    // Clear the token and cache
-    clearStoredToken();
+    // Clear the tokens and cache
+    clearStoredTokens();
     queryClient.setQueryData(AUTH_QUERY_KEY, null);
   };
 
+  const refreshUser = () => queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
+
   return {
     user,
     isLoading,
     isAuthenticated: !!user,
     login,
+    register,
     logout,
+    refreshUser,
     getToken: getStoredToken,
   };
 }
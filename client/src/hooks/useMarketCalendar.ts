@@ -0,0 +1,51 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  toMarketDaySets,
+  getRuleBasedMarketDaySets,
+  type CalendarDay,
+  type DateKeyLookup,
+  type MarketDaySets,
+} from "@shared/calendar";
+
+// MAX_PROJECTION_DAYS trading days is just under 40 years
+const CALENDAR_YEARS_AHEAD = 40;
+
+interface MarketCalendarResponse {
+  from: string;
+  to: string;
+  days: CalendarDay[];
+}
+
+/**
+ * Market holidays and half-days from the server calendar, which includes any
+ * closures configured on the server. Dates outside the fetched range, or
+ * any date before the calendar has loaded, fall back to the built-in NYSE rules.
+ */
+export function useMarketCalendar(): MarketDaySets & { isLoading: boolean } {
+  const year = new Date().getFullYear();
+  const from = `${year}-01-01`;
+  const to = `${year + CALENDAR_YEARS_AHEAD}-12-31`;
+
+  const { data, isLoading } = useQuery<MarketCalendarResponse>({
+    queryKey: [`/api/calendar?from=${from}&to=${to}`],
+    staleTime: Infinity,
+  });
+
+  const sets = useMemo((): MarketDaySets => {
+    const rules = getRuleBasedMarketDaySets();
+    if (!data) return rules;
+
+    const fetched = toMarketDaySets(data.days);
+    const inRange = (dateKey: string) => dateKey >= data.from && dateKey <= data.to;
+    const withFallback = (fetchedDates: Set<string>, ruleDates: DateKeyLookup): DateKeyLookup => ({
+      has: (dateKey: string) => inRange(dateKey) ? fetchedDates.has(dateKey) : ruleDates.has(dateKey),
+    });
+    return {
+      holidays: withFallback(fetched.holidays, rules.holidays),
+      halfDays: withFallback(fetched.halfDays, rules.halfDays),
+    };
+  }, [data]);
+
+  return { ...sets, isLoading };
+}
@@ -0,0 +1,24 @@
+// Server errors come back as { error }; fall back when the body isn't JSON
+export async function readErrorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    return (await res.json()).error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Saves a response body as a file, named by its Content-Disposition when it has one
+export async function downloadResponse(res: Response, fallbackFilename: string): Promise<void> {
+  const filename = res.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? fallbackFilename;
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Uploaded pictures are public by key, so plain <img> tags can load them
+export function uploadedImageUrl(key: string, variant: "original" | "thumbnail" = "original"): string {
+  return variant === "thumbnail" ? `/api/uploads/${key}/thumbnail` : `/api/uploads/${key}`;
+}
@@ -1,8 +1,9 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
 const TOKEN_STORAGE_KEY = "wolfgang_auth_token";
+const REFRESH_TOKEN_STORAGE_KEY = "wolfgang_refresh_token";
 
-function getStoredToken(): string | null {
+export function getStoredToken(): string | null {
   try {
     return localStorage.getItem(TOKEN_STORAGE_KEY);
   } catch {
@@ -10,6 +11,32 @@ function getStoredToken(): string | null {
   }
 }
 
+export function getStoredRefreshToken(): string | null {
+  try {
+    return localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function storeAuthTokens(tokens: { token: string; refreshToken: string }): void {
+  try {
+    localStorage.setItem(TOKEN_STORAGE_KEY, tokens.token);
+    localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, tokens.refreshToken);
+  } catch {
+    console.error("Failed to store auth tokens");
+  }
+}
+
+export function clearStoredTokens(): void {
+  try {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+  } catch {
+    console.error("Failed to clear auth tokens");
+  }
+}
+
 function getAuthHeaders(): HeadersInit {
   const token = getStoredToken();
   const headers: Record<string, string> = {};
@@ -19,6 +46,59 @@ function getAuthHeaders(): HeadersInit {
   return headers;
 }
 
+let refreshInFlight: Promise<boolean> | null = null;
+
+async function requestTokenRefresh(): Promise<boolean> {
+  const refreshToken = getStoredRefreshToken();
+  if (!refreshToken) return false;
+
+  try {
+    const res = await fetch("/api/auth/refresh", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    });
+    if (res.ok) {
+      storeAuthTokens(await res.json());
+      return true;
+    }
+    // Another tab may have rotated the pair while this request was in flight
+    if (getStoredRefreshToken() !== refreshToken) return true;
+    if (res.status === 401) {
+      clearStoredTokens();
+      queryClient.setQueryData(["/api/auth/user"], null);
+    }
+    return false;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Trades the refresh token for a new access/refresh pair. Requests that hit a
+ * 401 at the same time share one refresh, since each refresh token works once.
+ */
+export function refreshAuthTokens(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = requestTokenRefresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+// fetch with the bearer token, refreshing and retrying once if it has expired
+export async function fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => fetch(url, {
+    ...init,
+    headers: { ...init.headers as Record<string, string>, ...getAuthHeaders() as Record<string, string> },
+  });
+
+  const res = await send();
+  if (res.status !== 401 || !getStoredRefreshToken()) return res;
+  return (await refreshAuthTokens()) ? send() : res;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -31,15 +111,13 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const headers: Record<string, string> = {
-    ...getAuthHeaders() as Record<string, string>,
-  };
+  const headers: Record<string, string> = {};
   
   if (data) {
     headers["Content-Type"] = "application/json";
   }
   
-  const res = await fetch(url, {
+  const res = await fetchWithAuth(url, {
     method,
     headers,
     body: data ? JSON.stringify(data) : undefined,
@@ -55,9 +133,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
-      headers: getAuthHeaders(),
-    });
+    const res = await fetchWithAuth(queryKey.join("/") as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -4,11 +4,12 @@ import {
   ChevronDown, ChevronRight, ChevronLeft, Trophy, Flag, DollarSign, Sparkles, TrendingUp,
   Plus, Save, AlertCircle, CheckCircle, Eye, EyeOff, ShoppingBag, Trash2, 
   Target, Anchor, X, Edit, ExternalLink, Ban, AlertTriangle, Calendar, Gift,
-  Moon, Sun, LogOut
+  Moon, Sun, LogOut, History, Undo2, Wand2, Loader2
 } from 'lucide-react';
 import { useLocation } from 'wouter';
 import { useTheme } from '@/hooks/use-theme';
 import { useAuth } from '@/hooks/useAuth';
+import { useMarketCalendar } from '@/hooks/useMarketCalendar';
 import { motion, AnimatePresence } from 'framer-motion';
 import wolfLogoUrl from "@assets/image_1765606206883.png";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
@@ -21,20 +22,44 @@ import { Slider } from '@/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Switch } from '@/components/ui/switch';
 import { Collapsible, CollapsibleTrigger, CollapsibleContent } from '@/components/ui/collapsible';
+import { ToastAction } from '@/components/ui/toast';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { BalanceLedger } from '@/components/BalanceLedger';
+import { PlanTrackingChart } from '@/components/PlanTrackingChart';
+import { BoardSwitcher } from '@/components/BoardSwitcher';
+import { InviteManager } from '@/components/InviteManager';
+import { ActiveSessions } from '@/components/ActiveSessions';
+import { TwoFactorSettings } from '@/components/TwoFactorSettings';
+import { AccountBackup } from '@/components/AccountBackup';
+import { DreamHistory } from '@/components/DreamHistory';
+import { DreamImportExport } from '@/components/DreamImportExport';
+import { DreamImageField } from '@/components/DreamImageField';
+import { PriceSparkline } from '@/components/PriceSparkline';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest, queryClient } from '@/lib/queryClient';
-import type { DreamItem, UserSettings } from '@shared/schema';
-
-const TAX_RATE = 0.60;
-const NET_RATE = 1 - TAX_RATE;
-const GROWTH_RATE = 1.20;
-const RISK_PCT = 0.20;
-const MAX_RISK = 1000000;
-const HOUSES_MULTIPLIER = 2;
-const DEFAULT_MULTIPLIER = 3;
-const MAX_BUFFER = 500_000;
+import { apiRequest, fetchWithAuth, queryClient } from '@/lib/queryClient';
+import { readErrorMessage, uploadedImageUrl } from '@/lib/files';
+import { TRASH_RETENTION_DAYS, type Board, type DreamItem, type DreamPricePoint, type DreamUrlPreview, type UserSettings } from '@shared/schema';
+import {
+  RISK_PCT, DEFAULT_PROJECTION_CONSTANTS, resolveProjectionConstants,
+  getRequiredNetForItem, getRequiredGrossForItem, getDailyMultiplier, getBalanceAfterDays,
+  getDaysToGoal, getDaysToGoalWithPurchases, getDaysToAffordItem, getDreamAffordabilityDays,
+  createTradingSchedule, shiftTradingSchedule,
+  type DreamFeedbackMode, type ProjectionConstants,
+} from '@shared/projection';
+import { isNYSETradingDay, addTradingDays, formatDateKey } from '@shared/calendar';
+
+const ACTIVE_BOARD_STORAGE_KEY = 'wolfgang_active_board';
+
+const getStoredBoardId = (): number | null => {
+  try {
+    const stored = localStorage.getItem(ACTIVE_BOARD_STORAGE_KEY);
+    return stored ? Number(stored) : null;
+  } catch {
+    return null;
+  }
+};
 
 interface LocalDreamItem {
   id: number;
@@ -44,20 +69,11 @@ interface LocalDreamItem {
   iconType: string;
   url?: string;
   category?: string;
+  hidden: boolean;
+  imageKey?: string;
+  autoUpdateCost: boolean;
 }
 
-const getAffordabilityMultiplier = (category: string): number => {
-  if (category === 'HOUSES') return HOUSES_MULTIPLIER;
-  return DEFAULT_MULTIPLIER;
-};
-
-const getRequiredNetForItem = (cost: number, category?: string): number => {
-  const multiplier = getAffordabilityMultiplier(category || '');
-  const multiplierBased = cost * multiplier;
-  const capBased = cost + MAX_BUFFER;
-  return Math.min(multiplierBased, capBased);
-};
-
 const formatNumber = (num: number): string => {
   return num.toLocaleString('en-US', { maximumFractionDigits: 0 });
 };
@@ -73,243 +89,29 @@ const parseNumber = (str: string): number => {
   return parseFloat(str.replace(/,/g, '')) || 0;
 };
 
-const getLiquidityEfficiency = (balance: number): { efficiency: number; tier: { label: string } } => {
-  if (balance < 10000) return { efficiency: 1.0, tier: { label: 'Under $10K' } };
-  if (balance < 100000) return { efficiency: 0.85, tier: { label: '$10K-$100K' } };
-  if (balance < 1000000) return { efficiency: 0.70, tier: { label: '$100K-$1M' } };
-  if (balance < 10000000) return { efficiency: 0.50, tier: { label: '$1M-$10M' } };
-  if (balance < 100000000) return { efficiency: 0.30, tier: { label: '$10M-$100M' } };
-  return { efficiency: 0.15, tier: { label: '$100M+' } };
-};
-
-const getDailyMultiplier = (dailyWins: number, balance: number = 0, profitTarget: number = 1.0, riskPct: number = RISK_PCT): number => {
-  const effectiveRiskPct = balance > 0 ? Math.min(riskPct, MAX_RISK / balance) : riskPct;
-  return 1 + (effectiveRiskPct * profitTarget * dailyWins);
-};
-
-const getBalanceAfterDays = (
-  startBalance: number, 
-  days: number, 
-  dailyWins: number,
-  applyFriction: boolean = true,
-  profitTarget: number = 1.0,
-  riskPct: number = RISK_PCT
-): number => {
-  if (days <= 0) return startBalance;
-  let balance = startBalance;
-  for (let d = 0; d < days; d++) {
-    const { efficiency } = applyFriction ? getLiquidityEfficiency(balance) : { efficiency: 1 };
-    const dailyMultiplier = getDailyMultiplier(dailyWins, balance, profitTarget, riskPct);
-    const dailyGain = (dailyMultiplier - 1) * efficiency;
-    balance = balance * (1 + dailyGain);
-  }
-  return balance;
-};
-
-const getDaysToGoal = (
-  currentBalance: number, 
-  goalBalance: number, 
-  dailyWins: number,
-  profitTarget: number = 1.0,
-  riskPct: number = RISK_PCT
-): number => {
-  if (currentBalance >= goalBalance || dailyWins <= 0) return 0;
-  let balance = currentBalance;
-  let days = 0;
-  const maxDays = 9999;
-  while (balance < goalBalance && days < maxDays) {
-    const { efficiency } = getLiquidityEfficiency(balance);
-    const dailyMultiplier = getDailyMultiplier(dailyWins, balance, profitTarget, riskPct);
-    const dailyGain = (dailyMultiplier - 1) * efficiency;
-    balance = balance * (1 + dailyGain);
-    days++;
-  }
-  return days;
-};
-
-interface SimpleDreamItem {
-  id: number;
-  cost: number;
-  category?: string;
-}
-
-const getDaysToGoalWithPurchases = (
-  currentBalance: number,
-  originBalance: number,
-  goalBalance: number,
-  dailyWins: number,
-  unpurchasedItems: SimpleDreamItem[],
-  alreadyPurchasedCost: number,
-  profitTarget: number = 1.0,
-  riskPct: number = RISK_PCT
-): number => {
-  if (currentBalance >= goalBalance || dailyWins <= 0) return 0;
-  
-  let balance = currentBalance;
-  let days = 0;
-  const maxDays = 9999;
-  let runningPurchaseCost = 0;
-  const purchasedIds = new Set<number>();
-  
-  const sortedItems = [...unpurchasedItems].sort((a, b) => {
-    const reqA = getRequiredNetForItem(a.cost, a.category);
-    const reqB = getRequiredNetForItem(b.cost, b.category);
-    return reqA - reqB;
-  });
-  
-  while (balance < goalBalance && days < maxDays) {
-    const { efficiency } = getLiquidityEfficiency(balance);
-    const dailyMultiplier = getDailyMultiplier(dailyWins, balance, profitTarget, riskPct);
-    const dailyGain = (dailyMultiplier - 1) * efficiency;
-    balance = balance * (1 + dailyGain);
-    days++;
-    
-    const gain = Math.max(0, balance - originBalance);
-    const tax = gain * TAX_RATE;
-    const netLiquid = balance - tax - alreadyPurchasedCost - runningPurchaseCost;
-    
-    for (const item of sortedItems) {
-      if (purchasedIds.has(item.id)) continue;
-      const requiredNet = getRequiredNetForItem(item.cost, item.category);
-      if (requiredNet <= netLiquid) {
-        purchasedIds.add(item.id);
-        runningPurchaseCost += item.cost;
-        balance -= item.cost;
-        if (balance < 0) balance = 0;
-      }
-    }
-  }
-  
-  return days;
-};
-
-// ============================================
-// NYSE TRADING CALENDAR - Dynamic Holiday Calculator
-// ============================================
-
-const getNthWeekdayOfMonth = (year: number, month: number, weekday: number, n: number): Date => {
-  const firstOfMonth = new Date(year, month, 1);
-  const firstWeekday = firstOfMonth.getDay();
-  let dayOffset = weekday - firstWeekday;
-  if (dayOffset < 0) dayOffset += 7;
-  const firstOccurrence = 1 + dayOffset;
-  const targetDay = firstOccurrence + (n - 1) * 7;
-  return new Date(year, month, targetDay);
-};
-
-const getLastWeekdayOfMonth = (year: number, month: number, weekday: number): Date => {
-  const lastOfMonth = new Date(year, month + 1, 0);
-  const lastDay = lastOfMonth.getDate();
-  const lastDayOfWeek = lastOfMonth.getDay();
-  let dayOffset = lastDayOfWeek - weekday;
-  if (dayOffset < 0) dayOffset += 7;
-  return new Date(year, month, lastDay - dayOffset);
-};
-
-const getEasterSunday = (year: number): Date => {
-  const a = year % 19;
-  const b = Math.floor(year / 100);
-  const c = year % 100;
-  const d = Math.floor(b / 4);
-  const e = b % 4;
-  const f = Math.floor((b + 8) / 25);
-  const g = Math.floor((b - f + 1) / 3);
-  const h = (19 * a + b - d - g + 15) % 30;
-  const i = Math.floor(c / 4);
-  const k = c % 4;
-  const l = (32 + 2 * e + 2 * i - h - k) % 7;
-  const m = Math.floor((a + 11 * h + 22 * l) / 451);
-  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1;
-  const day = ((h + l - 7 * m + 114) % 31) + 1;
-  return new Date(year, month, day);
-};
-
-const getGoodFriday = (year: number): Date => {
-  const easter = getEasterSunday(year);
-  const goodFriday = new Date(easter);
-  goodFriday.setDate(easter.getDate() - 2);
-  return goodFriday;
-};
-
-const getObservedDate = (date: Date): Date => {
-  const dayOfWeek = date.getDay();
-  if (dayOfWeek === 0) {
-    const observed = new Date(date);
-    observed.setDate(date.getDate() + 1);
-    return observed;
-  } else if (dayOfWeek === 6) {
-    const observed = new Date(date);
-    observed.setDate(date.getDate() - 1);
-    return observed;
-  }
-  return date;
-};
-
-const formatDateKey = (date: Date): string => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-};
-
-const getNYSEHolidaysForYear = (year: number): string[] => {
-  const holidays: string[] = [];
-  const newYears = getObservedDate(new Date(year, 0, 1));
-  holidays.push(formatDateKey(newYears));
-  const mlkDay = getNthWeekdayOfMonth(year, 0, 1, 3);
-  holidays.push(formatDateKey(mlkDay));
-  const presidentsDay = getNthWeekdayOfMonth(year, 1, 1, 3);
-  holidays.push(formatDateKey(presidentsDay));
-  const goodFriday = getGoodFriday(year);
-  holidays.push(formatDateKey(goodFriday));
-  const memorialDay = getLastWeekdayOfMonth(year, 4, 1);
-  holidays.push(formatDateKey(memorialDay));
-  const juneteenth = getObservedDate(new Date(year, 5, 19));
-  holidays.push(formatDateKey(juneteenth));
-  const july4th = getObservedDate(new Date(year, 6, 4));
-  holidays.push(formatDateKey(july4th));
-  const laborDay = getNthWeekdayOfMonth(year, 8, 1, 1);
-  holidays.push(formatDateKey(laborDay));
-  const thanksgiving = getNthWeekdayOfMonth(year, 10, 4, 4);
-  holidays.push(formatDateKey(thanksgiving));
-  const christmas = getObservedDate(new Date(year, 11, 25));
-  holidays.push(formatDateKey(christmas));
-  return holidays;
-};
-
-const buildNYSEHolidaySet = (): Set<string> => {
-  const currentYear = new Date().getFullYear();
-  const holidays = new Set<string>();
-  for (let year = currentYear - 2; year <= currentYear + 15; year++) {
-    getNYSEHolidaysForYear(year).forEach(h => holidays.add(h));
-  }
-  return holidays;
-};
-
-const NYSE_HOLIDAYS_SET = buildNYSEHolidaySet();
-
-const isNYSETradingDay = (date: Date): boolean => {
-  const dayOfWeek = date.getDay();
-  if (dayOfWeek === 0 || dayOfWeek === 6) return false;
-  const dateKey = formatDateKey(date);
-  if (NYSE_HOLIDAYS_SET.has(dateKey)) return false;
-  return true;
-};
-
-const addTradingDays = (startDate: Date, tradingDays: number): Date => {
-  const result = new Date(startDate);
-  let daysAdded = 0;
-  while (daysAdded < tradingDays) {
-    result.setDate(result.getDate() + 1);
-    if (isNYSETradingDay(result)) daysAdded++;
-  }
-  return result;
-};
-
 const formatGoalDate = (date: Date): string => {
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 };
 
+// Goals card inputs for the per-user projection assumptions. Values are shown
+// in the units people think in (percent, x-multiplier, dollars).
+const ASSUMPTION_FIELDS: {
+  key: keyof ProjectionConstants;
+  label: string;
+  hint: string;
+  unit: string;
+  toDisplay: (value: number) => number;
+  fromDisplay: (value: number) => number;
+}[] = [
+  { key: 'taxRate', label: 'Tax Rate', hint: 'Share of gains above origin reserved for taxes.', unit: '%', toDisplay: v => Math.round(v * 1000) / 10, fromDisplay: v => v / 100 },
+  { key: 'growthRate', label: 'Step Growth', hint: 'Balance growth per step on the step counter.', unit: '%', toDisplay: v => Math.round((v - 1) * 1000) / 10, fromDisplay: v => 1 + v / 100 },
+  { key: 'maxRisk', label: 'Max Risk', hint: 'Dollar cap on the amount risked per trade.', unit: '$', toDisplay: v => v, fromDisplay: v => v },
+  { key: 'housesMultiplier', label: 'Houses Multiple', hint: 'Net liquid required as a multiple of a house\'s cost.', unit: 'x', toDisplay: v => v, fromDisplay: v => v },
+  { key: 'defaultMultiplier', label: 'Default Multiple', hint: 'Net liquid required as a multiple of any other dream\'s cost.', unit: 'x', toDisplay: v => v, fromDisplay: v => v },
+  { key: 'maxBuffer', label: 'Max Buffer', hint: 'Most the safety buffer on top of a dream\'s cost can be.', unit: '$', toDisplay: v => v, fromDisplay: v => v },
+  { key: 'halfDayWeight', label: 'Half-Day Weight', hint: 'Share of a normal day\'s wins counted on early-close days (day after Thanksgiving, Christmas Eve, July 3).', unit: '%', toDisplay: v => Math.round(v * 1000) / 10, fromDisplay: v => v / 100 },
+];
+
 const getIcon = (iconType: string) => {
   const icons: Record<string, JSX.Element> = {
     car: <Target className="w-4 h-4" />,
@@ -323,25 +125,27 @@ const getIcon = (iconType: string) => {
 export default function DreamMachine() {
   const { toast } = useToast();
   const { theme, toggleTheme } = useTheme();
-  const { logout } = useAuth();
+  const { user, logout } = useAuth();
   const [, setLocation] = useLocation();
 
   const [displayBalance, setDisplayBalance] = useState(500);
   const [dayStartBalance, setDayStartBalance] = useState(500);
   const [originBalance, setOriginBalance] = useState(500);
   const [ultimateGoal, setUltimateGoal] = useState('50000000');
-  const [riskPercent, setRiskPercent] = useState(20);
+  const [riskPercent, setRiskPercent] = useState(RISK_PCT * 100);
+  const [projectionConstants, setProjectionConstants] = useState<ProjectionConstants>(DEFAULT_PROJECTION_CONSTANTS);
   const [serverOriginBalance, setServerOriginBalance] = useState(500);
   const [serverUltimateGoal, setServerUltimateGoal] = useState(50000000);
+  const [serverRiskPercent, setServerRiskPercent] = useState(RISK_PCT * 100);
+  const [serverProjectionConstants, setServerProjectionConstants] = useState<ProjectionConstants>(DEFAULT_PROJECTION_CONSTANTS);
   
   const [imagineDay, setImagineDay] = useState<number | null>(null);
   const [dailyWins, setDailyWins] = useState(1);
   const [profitTarget, setProfitTarget] = useState(1.0);
   
   const [dreamItems, setDreamItems] = useState<LocalDreamItem[]>([]);
-  const [hiddenDreamIds, setHiddenDreamIds] = useState<Set<number>>(new Set());
   const [dreamSortMode, setDreamSortMode] = useState('price-asc');
-  const [dreamFeedbackMode, setDreamFeedbackMode] = useState<'buyAsYouGo' | 'waitTillEnd'>('waitTillEnd');
+  const [dreamFeedbackMode, setDreamFeedbackMode] = useState<DreamFeedbackMode>('waitTillEnd');
   
   const [goalsCollapsed, setGoalsCollapsed] = useState(true);
   const [treasuryCollapsed, setTreasuryCollapsed] = useState(false);
@@ -354,12 +158,19 @@ export default function DreamMachine() {
   const [newItemCategory, setNewItemCategory] = useState('CARS');
   const [newItemCost, setNewItemCost] = useState('');
   const [newItemUrl, setNewItemUrl] = useState('');
+  const [newItemImageKey, setNewItemImageKey] = useState<string | null>(null);
+  // The product page's picture; the server copies it into uploads when the dream is added
+  const [newItemImageUrl, setNewItemImageUrl] = useState<string | null>(null);
+  const [isFetchingPreview, setIsFetchingPreview] = useState(false);
   
   const [editingItemId, setEditingItemId] = useState<number | null>(null);
+  const [historyItem, setHistoryItem] = useState<LocalDreamItem | null>(null);
   const [editingItemName, setEditingItemName] = useState('');
   const [editingItemCost, setEditingItemCost] = useState('');
   const [editingItemCategory, setEditingItemCategory] = useState('');
   const [editingItemUrl, setEditingItemUrl] = useState('');
+  const [editingItemImageKey, setEditingItemImageKey] = useState<string | null>(null);
+  const [editingItemAutoUpdateCost, setEditingItemAutoUpdateCost] = useState(false);
   
   const [selectedDreamDay, setSelectedDreamDay] = useState<{ ordinal: number; tradingDay: number; calendarDate: Date; dreams: LocalDreamItem[] } | null>(null);
   const [showGoalCelebration, setShowGoalCelebration] = useState(false);
@@ -373,21 +184,61 @@ export default function DreamMachine() {
     staleTime: 0,
   });
 
+  const [activeBoardId, setActiveBoardId] = useState<number | null>(getStoredBoardId);
+
+  const { data: boards = [] } = useQuery<Board[]>({
+    queryKey: ['/api/boards'],
+  });
+
+  const activeBoard = boards.find(b => b.id === activeBoardId) ?? boards[0];
+
   const { data: fetchedDreams } = useQuery<DreamItem[]>({
-    queryKey: ['/api/dream-items'],
+    queryKey: ['/api/boards', activeBoard?.id, 'dream-items'],
+    enabled: !!activeBoard,
   });
 
+  const { data: trashedDreams = [] } = useQuery<DreamItem[]>({
+    queryKey: ['/api/boards', activeBoard?.id, 'dream-items', 'trash'],
+    enabled: !!activeBoard,
+  });
+
+  const { data: priceHistory = [] } = useQuery<DreamPricePoint[]>({
+    queryKey: ['/api/boards', activeBoard?.id, 'dream-items', 'price-history'],
+    enabled: !!activeBoard,
+  });
+
+  const priceHistoryByItem = useMemo(() => {
+    const byItem = new Map<number, DreamPricePoint[]>();
+    for (const point of priceHistory) {
+      byItem.set(point.dreamItemId, [...(byItem.get(point.dreamItemId) ?? []), point]);
+    }
+    return byItem;
+  }, [priceHistory]);
+
+  const { holidays: marketHolidays, halfDays: marketHalfDays } = useMarketCalendar();
+
   // Apply settings to local state only when not dirty (user hasn't started editing)
   useEffect(() => {
     if (settings && !goalsDirty) {
-      setDisplayBalance(settings.currentBalance || 500);
-      setDayStartBalance(settings.currentBalance || 500);
-      setOriginBalance(settings.originBalance || 500);
-      setServerOriginBalance(settings.originBalance || 500);
-      setUltimateGoal(String(settings.ultimateGoal || 50000000));
-      setServerUltimateGoal(settings.ultimateGoal || 50000000);
+      // A blown account really is at 0; only a missing balance gets the default
+      setDisplayBalance(settings.currentBalance ?? 500);
+      setDayStartBalance(settings.currentBalance ?? 500);
+      // A board's own goal and origin take precedence over the settings
+      const effectiveOrigin = activeBoard?.originBalance ?? (settings.originBalance || 500);
+      const effectiveGoal = activeBoard?.ultimateGoal ?? (settings.ultimateGoal || 50000000);
+      setOriginBalance(effectiveOrigin);
+      setServerOriginBalance(effectiveOrigin);
+      setUltimateGoal(String(effectiveGoal));
+      setServerUltimateGoal(effectiveGoal);
+      setRiskPercent(settings.riskPercent || RISK_PCT * 100);
+      setServerRiskPercent(settings.riskPercent || RISK_PCT * 100);
+      setProjectionConstants(resolveProjectionConstants(settings));
+      setServerProjectionConstants(resolveProjectionConstants(settings));
+      setDailyWins(settings.dailyWins ?? 1);
+      setProfitTarget(settings.profitTarget ?? 1.0);
+      setDreamFeedbackMode(settings.dreamFeedbackMode ?? 'waitTillEnd');
     }
-  }, [settings, goalsDirty]);
+  }, [settings, goalsDirty, activeBoard]);
 
   useEffect(() => {
     if (fetchedDreams) {
@@ -399,10 +250,24 @@ export default function DreamMachine() {
         iconType: d.iconType || 'target',
         url: d.url || undefined,
         category: d.category || 'Uncategorized',
+        hidden: d.hidden,
+        imageKey: d.imageKey || undefined,
+        autoUpdateCost: d.autoUpdateCost,
       })));
     }
   }, [fetchedDreams]);
 
+  const selectBoard = (boardId: number) => {
+    setActiveBoardId(boardId);
+    setDreamItems([]);
+    setGoalsDirty(false);
+    try {
+      localStorage.setItem(ACTIVE_BOARD_STORAGE_KEY, String(boardId));
+    } catch {
+      console.error("Failed to store active board");
+    }
+  };
+
   const updateSettingsMutation = useMutation({
     mutationFn: async (updates: Partial<UserSettings>) => {
       const res = await apiRequest('PATCH', '/api/settings', updates);
@@ -413,19 +278,33 @@ export default function DreamMachine() {
     },
   });
 
+  // IMAGINE controls save as soon as they settle so a reload shows the same projection
+  const saveProjectionPreference = (updates: Partial<UserSettings>) => {
+    updateSettingsMutation.mutate(updates, {
+      onError: () => {
+        toast({ title: "Error", description: "Failed to save projection settings", variant: "destructive" });
+      },
+    });
+  };
+
   const handleInputChange = (setter: (val: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = e.target.value.replace(/[^0-9.]/g, '');
     setter(val);
   };
 
   const activeDreamItems = useMemo(() => 
-    dreamItems.filter(d => !hiddenDreamIds.has(d.id)),
-    [dreamItems, hiddenDreamIds]
+    dreamItems.filter(d => !d.hidden),
+    [dreamItems]
   );
 
   const hiddenDreamItems = useMemo(() => 
-    dreamItems.filter(d => hiddenDreamIds.has(d.id)),
-    [dreamItems, hiddenDreamIds]
+    dreamItems.filter(d => d.hidden),
+    [dreamItems]
+  );
+
+  const hiddenDreamIds = useMemo(() => 
+    new Set(hiddenDreamItems.map(d => d.id)),
+    [hiddenDreamItems]
   );
 
   const unpurchasedDreams = useMemo(() => 
@@ -443,43 +322,52 @@ export default function DreamMachine() {
     [activeDreamItems]
   );
 
+  const { taxRate, growthRate, maxRisk } = projectionConstants;
+  const netRate = 1 - taxRate;
   const goalAmount = parseNumber(ultimateGoal);
-  const currentStep = Math.log(displayBalance / originBalance) / Math.log(GROWTH_RATE);
-  const totalSteps = Math.log(goalAmount / originBalance) / Math.log(GROWTH_RATE);
+  const currentStep = Math.log(displayBalance / originBalance) / Math.log(growthRate);
+  const totalSteps = Math.log(goalAmount / originBalance) / Math.log(growthRate);
 
   let minNetRequired = 0;
   let runningCostSum = 0;
   for (const item of unpurchasedDreams) {
-    const requiredForItem = getRequiredNetForItem(item.cost, item.category);
+    const requiredForItem = getRequiredNetForItem(item.cost, item.category, projectionConstants);
     const constraintForItem = runningCostSum + requiredForItem;
     minNetRequired = Math.max(minNetRequired, constraintForItem);
     runningCostSum += item.cost;
   }
-  const minGoalNeeded = Math.max(originBalance, (minNetRequired + purchasedCosts - TAX_RATE * originBalance) / NET_RATE);
+  const minGoalNeeded = Math.max(originBalance, (minNetRequired + purchasedCosts - taxRate * originBalance) / netRate);
 
-  const taxLiability = Math.max(0, (goalAmount - originBalance) * TAX_RATE);
+  const taxLiability = Math.max(0, (goalAmount - originBalance) * taxRate);
   const netAfterTaxes = goalAmount - taxLiability - purchasedCosts;
 
   let canAffordAll = true;
   let checkingNet = netAfterTaxes;
   for (const item of unpurchasedDreams) {
-    const requiredForItem = getRequiredNetForItem(item.cost, item.category);
+    const requiredForItem = getRequiredNetForItem(item.cost, item.category, projectionConstants);
     if (checkingNet < requiredForItem) { canAffordAll = false; break; }
     checkingNet -= item.cost;
   }
   const goalCoversAll = unpurchasedDreams.length === 0 || canAffordAll;
-  const hasUnsavedGoalChanges = goalAmount !== serverUltimateGoal || originBalance !== serverOriginBalance;
+  const hasUnsavedConstantChanges = riskPercent !== serverRiskPercent ||
+    (Object.keys(projectionConstants) as (keyof ProjectionConstants)[])
+      .some(key => projectionConstants[key] !== serverProjectionConstants[key]);
+  const hasUnsavedGoalChanges = goalAmount !== serverUltimateGoal || originBalance !== serverOriginBalance || hasUnsavedConstantChanges;
 
   const userRiskPct = riskPercent / 100;
+  const tradingSchedule = useMemo(
+    () => createTradingSchedule(new Date(), { holidays: marketHolidays, halfDays: marketHalfDays }, projectionConstants.halfDayWeight),
+    [marketHolidays, marketHalfDays, projectionConstants.halfDayWeight]
+  );
   const currentRealBalance = displayBalance;
   const isImaginingFuture = imagineDay !== null && imagineDay > 0;
   const currentImagineDay = imagineDay ?? 0;
 
   const imagineBalance = isImaginingFuture 
-    ? getBalanceAfterDays(currentRealBalance, currentImagineDay, dailyWins, true, profitTarget, userRiskPct)
+    ? getBalanceAfterDays(currentRealBalance, currentImagineDay, dailyWins, true, profitTarget, userRiskPct, projectionConstants, tradingSchedule)
     : displayBalance;
 
-  const maxDaysToGoalWaitTillEnd = getDaysToGoal(currentRealBalance, goalAmount, dailyWins, profitTarget, userRiskPct);
+  const maxDaysToGoalWaitTillEnd = getDaysToGoal(currentRealBalance, goalAmount, dailyWins, profitTarget, userRiskPct, projectionConstants, tradingSchedule);
   
   const maxDaysToGoalBuyAsYouGo = getDaysToGoalWithPurchases(
     currentRealBalance,
@@ -489,7 +377,7 @@ export default function DreamMachine() {
     unpurchasedDreams.map(d => ({ id: d.id, cost: d.cost, category: d.category, purchased: d.purchased })),
     purchasedCosts,
     profitTarget,
-    userRiskPct
+    userRiskPct, projectionConstants, tradingSchedule
   );
   
   const maxDaysToGoal = dreamFeedbackMode === 'buyAsYouGo' 
@@ -498,29 +386,29 @@ export default function DreamMachine() {
     
   const maxSliderDays = Math.min(maxDaysToGoal, 365);
   const daysRemainingFromImagine = isImaginingFuture 
-    ? getDaysToGoal(imagineBalance, goalAmount, dailyWins, profitTarget, userRiskPct)
+    ? getDaysToGoal(imagineBalance, goalAmount, dailyWins, profitTarget, userRiskPct, projectionConstants, shiftTradingSchedule(tradingSchedule, currentImagineDay))
     : maxDaysToGoal;
   const hasValidVelocity = dailyWins > 0;
-  const projectedDate = addTradingDays(new Date(), Math.min(maxDaysToGoal, 9999));
+  const projectedDate = addTradingDays(new Date(), Math.min(maxDaysToGoal, 9999), marketHolidays);
   
-  const imagineStep = Math.log(imagineBalance / originBalance) / Math.log(GROWTH_RATE);
-  const imagineRiskAmount = Math.min(imagineBalance * userRiskPct, MAX_RISK);
+  const imagineStep = Math.log(imagineBalance / originBalance) / Math.log(growthRate);
+  const imagineRiskAmount = Math.min(imagineBalance * userRiskPct, maxRisk);
   const imagineStopLoss = imagineRiskAmount * 0.5;
-  const dailyGainPct = (getDailyMultiplier(dailyWins, imagineBalance, profitTarget, userRiskPct) - 1) * 100;
+  const dailyGainPct = (getDailyMultiplier(dailyWins, imagineBalance, profitTarget, userRiskPct, projectionConstants) - 1) * 100;
 
   const imagineGain = Math.max(0, imagineBalance - originBalance);
-  const imagineTax = imagineGain * TAX_RATE;
+  const imagineTax = imagineGain * taxRate;
   const imagineNetLiquid = imagineBalance - imagineTax - purchasedCosts;
 
   const currentGain = Math.max(0, displayBalance - originBalance);
-  const currentTax = currentGain * TAX_RATE;
+  const currentTax = currentGain * taxRate;
   const currentNetLiquid = displayBalance - currentTax - purchasedCosts;
 
   const affordableNowSet = useMemo(() => {
     const set = new Set<number>();
     let remainingNet = currentNetLiquid;
     for (const item of unpurchasedDreams) {
-      const requiredNet = getRequiredNetForItem(item.cost, item.category);
+      const requiredNet = getRequiredNetForItem(item.cost, item.category, projectionConstants);
       if (requiredNet <= remainingNet) {
         set.add(item.id);
         remainingNet -= item.cost;
@@ -533,7 +421,7 @@ export default function DreamMachine() {
     const set = new Set<number>();
     let remainingNet = imagineNetLiquid;
     for (const item of unpurchasedDreams) {
-      const requiredNet = getRequiredNetForItem(item.cost, item.category);
+      const requiredNet = getRequiredNetForItem(item.cost, item.category, projectionConstants);
       if (requiredNet <= remainingNet) {
         set.add(item.id);
         remainingNet -= item.cost;
@@ -545,12 +433,15 @@ export default function DreamMachine() {
   const handleAddItem = async () => {
     if (!newItemName || !newItemCost) return;
     try {
-      const res = await apiRequest('POST', '/api/dream-items', {
+      if (!activeBoard) return;
+      const res = await apiRequest('POST', `/api/boards/${activeBoard.id}/dream-items`, {
         name: newItemName,
         cost: parseFloat(newItemCost.replace(/,/g, '')),
         category: newItemCategory,
         url: newItemUrl || undefined,
         iconType: 'target',
+        imageKey: newItemImageKey || undefined,
+        imageUrl: newItemImageKey ? undefined : newItemImageUrl || undefined,
       });
       const newItem = await res.json();
       setDreamItems(prev => [...prev, {
@@ -561,10 +452,15 @@ export default function DreamMachine() {
         iconType: newItem.iconType || 'target',
         url: newItem.url,
         category: newItem.category,
+        hidden: newItem.hidden,
+        imageKey: newItem.imageKey || undefined,
+        autoUpdateCost: newItem.autoUpdateCost,
       }]);
       setNewItemName('');
       setNewItemCost('');
       setNewItemUrl('');
+      setNewItemImageKey(null);
+      setNewItemImageUrl(null);
       setIsAddingItem(false);
       toast({ title: "Dream Added", description: `${newItemName} added to your dream board` });
     } catch (error) {
@@ -572,16 +468,62 @@ export default function DreamMachine() {
     }
   };
 
+  // Fills the empty fields of the add-dream form from the product page
+  const handleFetchPreview = async () => {
+    if (!newItemUrl) return;
+    setIsFetchingPreview(true);
+    try {
+      const res = await fetchWithAuth('/api/dream-items/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: newItemUrl }),
+      });
+      if (!res.ok) throw new Error(await readErrorMessage(res, 'Failed to fetch details'));
+      const preview: DreamUrlPreview = await res.json();
+      if (preview.title && !newItemName) setNewItemName(preview.title);
+      if (preview.price !== null && !newItemCost) setNewItemCost(String(preview.price));
+      if (preview.imageUrl && !newItemImageKey) setNewItemImageUrl(preview.imageUrl);
+      toast({
+        title: preview.title || preview.price !== null || preview.imageUrl ? "Details Fetched" : "Nothing Found",
+        description: preview.currency && preview.currency !== 'USD' ? `The price is in ${preview.currency}` : undefined,
+      });
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsFetchingPreview(false);
+    }
+  };
+
   const handleDeleteItem = async (id: number) => {
     try {
       await apiRequest('DELETE', `/api/dream-items/${id}`);
       setDreamItems(prev => prev.filter(d => d.id !== id));
-      toast({ title: "Dream Removed" });
+      queryClient.invalidateQueries({ queryKey: ['/api/boards', activeBoard?.id, 'dream-items', 'trash'] });
+      toast({
+        title: "Dream Moved to Trash",
+        action: <ToastAction altText="Undo delete" onClick={() => handleRestoreItem(id)}>Undo</ToastAction>,
+      });
     } catch (error) {
       toast({ title: "Error", description: "Failed to delete dream", variant: "destructive" });
     }
   };
 
+  const handleRestoreItem = async (id: number) => {
+    try {
+      await apiRequest('POST', `/api/dream-items/${id}/restore`);
+      // Refetches both the dreams and the trash
+      queryClient.invalidateQueries({ queryKey: ['/api/boards', activeBoard?.id, 'dream-items'] });
+      toast({ title: "Dream Restored" });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to restore dream", variant: "destructive" });
+    }
+  };
+
+  const getTrashDaysLeft = (item: DreamItem) => {
+    const purgeAt = new Date(item.deletedAt!).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  };
+
   const handlePurchaseItem = async (id: number) => {
     const item = dreamItems.find(d => d.id === id);
     if (!item) return;
@@ -600,6 +542,8 @@ export default function DreamMachine() {
     setEditingItemCost(String(item.cost));
     setEditingItemCategory(item.category || 'Uncategorized');
     setEditingItemUrl(item.url || '');
+    setEditingItemImageKey(item.imageKey || null);
+    setEditingItemAutoUpdateCost(item.autoUpdateCost);
   };
 
   const handleSaveEditDreamItem = async () => {
@@ -609,7 +553,9 @@ export default function DreamMachine() {
         name: editingItemName,
         cost: parseFloat(editingItemCost.replace(/,/g, '')),
         category: editingItemCategory,
-        url: editingItemUrl || undefined,
+        url: editingItemUrl || null,
+        imageKey: editingItemImageKey,
+        autoUpdateCost: editingItemAutoUpdateCost,
       });
       setDreamItems(prev => prev.map(d => d.id === editingItemId ? {
         ...d,
@@ -617,6 +563,8 @@ export default function DreamMachine() {
         cost: parseFloat(editingItemCost.replace(/,/g, '')),
         category: editingItemCategory,
         url: editingItemUrl || undefined,
+        imageKey: editingItemImageKey || undefined,
+        autoUpdateCost: editingItemAutoUpdateCost,
       } : d));
       setEditingItemId(null);
       toast({ title: "Dream Updated" });
@@ -625,25 +573,52 @@ export default function DreamMachine() {
     }
   };
 
-  const toggleDreamVisibility = (id: number) => {
-    setHiddenDreamIds(prev => {
-      const next = new Set(prev);
-      if (next.has(id)) next.delete(id);
-      else next.add(id);
-      return next;
-    });
+  const toggleDreamVisibility = async (id: number) => {
+    const item = dreamItems.find(d => d.id === id);
+    if (!item) return;
+    try {
+      await apiRequest('PATCH', `/api/dream-items/${id}`, { hidden: !item.hidden });
+      setDreamItems(prev => prev.map(d => d.id === id ? { ...d, hidden: !item.hidden } : d));
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to update dream", variant: "destructive" });
+    }
   };
 
-  const showAllDreams = () => setHiddenDreamIds(new Set());
+  const setDreamsHidden = async (hidden: boolean, scope: { category?: string } = {}) => {
+    try {
+      const res = await apiRequest('POST', '/api/dream-items/visibility', { hidden, boardId: activeBoard?.id, ...scope });
+      const updated: DreamItem[] = await res.json();
+      const updatedIds = new Set(updated.map(d => d.id));
+      setDreamItems(prev => prev.map(d => updatedIds.has(d.id) ? { ...d, hidden } : d));
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to update dreams", variant: "destructive" });
+    }
+  };
+
+  const showAllDreams = () => setDreamsHidden(false);
+
+  const hideCategory = (category: string) => setDreamsHidden(true, { category });
 
   const saveGoalSettings = async () => {
     try {
+      // Goal and origin save to the board when it overrides them, otherwise to settings
+      const boardUpdates: Partial<Board> = {};
+      if (activeBoard?.ultimateGoal != null) boardUpdates.ultimateGoal = goalAmount;
+      if (activeBoard?.originBalance != null) boardUpdates.originBalance = originBalance;
+      if (activeBoard && Object.keys(boardUpdates).length > 0) {
+        await apiRequest('PATCH', `/api/boards/${activeBoard.id}`, boardUpdates);
+        queryClient.invalidateQueries({ queryKey: ['/api/boards'] });
+      }
       const result = await updateSettingsMutation.mutateAsync({ 
-        ultimateGoal: goalAmount,
-        originBalance: originBalance
+        ...(boardUpdates.ultimateGoal === undefined && { ultimateGoal: goalAmount }),
+        ...(boardUpdates.originBalance === undefined && { originBalance }),
+        riskPercent,
+        ...projectionConstants,
       });
       setServerUltimateGoal(goalAmount);
       setServerOriginBalance(originBalance);
+      setServerRiskPercent(riskPercent);
+      setServerProjectionConstants(projectionConstants);
       setGoalsDirty(false);
       queryClient.setQueryData(['/api/settings'], result);
       toast({ title: "Settings Saved", description: `Goal: ${formatCurrency(goalAmount)}, Origin: ${formatCurrency(originBalance)}` });
@@ -653,11 +628,45 @@ export default function DreamMachine() {
   };
 
   const calcDaysToAfford = (itemCost: number, itemCategory?: string) => {
-    const requiredNet = getRequiredNetForItem(itemCost, itemCategory);
-    const neededGross = (requiredNet + purchasedCosts - TAX_RATE * originBalance) / NET_RATE;
-    return getDaysToGoal(currentRealBalance, neededGross, dailyWins, profitTarget, userRiskPct);
+    return getDaysToAffordItem(
+      currentRealBalance, originBalance, purchasedCosts,
+      { id: 0, cost: itemCost, category: itemCategory },
+      dailyWins, profitTarget, userRiskPct, projectionConstants, tradingSchedule
+    );
   };
 
+  // How a tracked dream's price moved, and what that did to its days to afford
+  const getPriceMovement = (item: LocalDreamItem) => {
+    const points = priceHistoryByItem.get(item.id);
+    if (!points || points.length < 2) return null;
+    const first = points[0];
+    const last = points[points.length - 1];
+    // Days only compare when the prices are dollars like cost
+    const inDollars = points.every(p => !p.currency || p.currency.toUpperCase() === 'USD');
+    return {
+      points,
+      first,
+      last,
+      days: inDollars ? { before: calcDaysToAfford(first.price, item.category), after: calcDaysToAfford(last.price, item.category) } : null,
+    };
+  };
+
+  const formatTrackedPrice = (point: DreamPricePoint) =>
+    !point.currency || point.currency.toUpperCase() === 'USD'
+      ? formatCurrency(point.price)
+      : `${point.price.toLocaleString('en-US', { maximumFractionDigits: 2 })} ${point.currency}`;
+
+  const renderPriceMovement = (movement: NonNullable<ReturnType<typeof getPriceMovement>>) => (
+    <div className="text-xs space-y-0.5">
+      <p>{formatTrackedPrice(movement.first)} → {formatTrackedPrice(movement.last)} since {new Date(movement.first.recordedAt).toLocaleDateString()}</p>
+      {movement.days && (
+        <p className="text-muted-foreground">
+          ~{movement.days.before.toLocaleString()} → ~{movement.days.after.toLocaleString()} days to afford
+        </p>
+      )}
+    </div>
+  );
+
   const getCategoryColor = (cat: string) => {
     const colors: Record<string, string> = {
       'CARS': 'text-blue-400',
@@ -760,11 +769,13 @@ export default function DreamMachine() {
           </div>
           
           <div className="flex items-center gap-3">
+            <BoardSwitcher boards={boards} activeBoard={activeBoard} onSelect={selectBoard} />
+
             <div className={`flex items-center rounded-lg gap-2 px-3 py-2 ${isImaginingFuture ? 'bg-primary/10 border border-primary/30' : 'bg-card/80 border border-border/50'}`} data-testid="badge-risk-compact">
               <DollarSign className={`w-4 h-4 ${isImaginingFuture ? 'text-primary' : 'text-primary'}`} />
               <div className="flex flex-col">
                 <span className={`text-xs font-medium ${isImaginingFuture ? 'text-primary' : 'text-muted-foreground'}`}>Risk</span>
-                <span className={`font-bold tabular-nums text-sm ${isImaginingFuture ? 'text-primary' : ''}`}>{formatCurrency(isImaginingFuture ? imagineRiskAmount : Math.min(displayBalance * (riskPercent / 100), MAX_RISK))}</span>
+                <span className={`font-bold tabular-nums text-sm ${isImaginingFuture ? 'text-primary' : ''}`}>{formatCurrency(isImaginingFuture ? imagineRiskAmount : Math.min(displayBalance * (riskPercent / 100), maxRisk))}</span>
               </div>
             </div>
 
@@ -775,7 +786,7 @@ export default function DreamMachine() {
               </div>
               <div className={`text-sm font-bold tabular-nums ${isImaginingFuture ? 'text-primary' : ''}`}>
                 {isImaginingFuture 
-                  ? formatGoalDate(addTradingDays(new Date(), currentImagineDay))
+                  ? formatGoalDate(addTradingDays(new Date(), currentImagineDay, marketHolidays))
                   : new Date().toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
               </div>
             </div>
@@ -805,6 +816,10 @@ export default function DreamMachine() {
             >
               {theme === 'dark' ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
             </Button>
+            {user?.isAdmin && <InviteManager />}
+            <TwoFactorSettings />
+            <AccountBackup />
+            <ActiveSessions onLoggedOutEverywhere={logout} />
             <Button
               variant="outline"
               size="icon"
@@ -943,6 +958,61 @@ export default function DreamMachine() {
                         </div>
                       </div>
                     </div>
+
+                    <div className="px-6 py-3 space-y-2" data-testid="section-assumptions">
+                      <span className="text-xs font-bold text-muted-foreground uppercase tracking-widest">Assumptions</span>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <label className="text-xs text-muted-foreground cursor-help">Risk (%)</label>
+                            </TooltipTrigger>
+                            <TooltipContent className="max-w-xs">
+                              <p className="text-xs">Share of the balance risked per trade.</p>
+                            </TooltipContent>
+                          </Tooltip>
+                          <Input
+                            type="number"
+                            inputMode="decimal"
+                            value={riskPercent}
+                            onChange={(e) => {
+                              const val = parseFloat(e.target.value);
+                              if (val > 0 && val <= 100) {
+                                setRiskPercent(val);
+                                setGoalsDirty(true);
+                              }
+                            }}
+                            className="h-8 text-sm tabular-nums"
+                            data-testid="input-risk-percent"
+                          />
+                        </div>
+                        {ASSUMPTION_FIELDS.map((field) => (
+                          <div key={field.key}>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <label className="text-xs text-muted-foreground cursor-help">{field.label} ({field.unit})</label>
+                              </TooltipTrigger>
+                              <TooltipContent className="max-w-xs">
+                                <p className="text-xs">{field.hint}</p>
+                              </TooltipContent>
+                            </Tooltip>
+                            <Input
+                              type="number"
+                              inputMode="decimal"
+                              value={field.toDisplay(projectionConstants[field.key])}
+                              onChange={(e) => {
+                                const val = parseFloat(e.target.value);
+                                if (isNaN(val) || val < 0) return;
+                                setProjectionConstants(prev => ({ ...prev, [field.key]: field.fromDisplay(val) }));
+                                setGoalsDirty(true);
+                              }}
+                              className="h-8 text-sm tabular-nums"
+                              data-testid={`input-${field.key}`}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
                   </>
                 )}
               </Card>
@@ -1003,6 +1073,7 @@ export default function DreamMachine() {
                         max={3}
                         step={0.5}
                         onValueChange={(val) => setDailyWins(val[0])}
+                        onValueCommit={(val) => saveProjectionPreference({ dailyWins: val[0] })}
                         className="opacity-80"
                         data-testid="slider-trades-per-day"
                       />
@@ -1027,6 +1098,7 @@ export default function DreamMachine() {
                         max={2.0}
                         step={0.25}
                         onValueChange={(val) => setProfitTarget(val[0])}
+                        onValueCommit={(val) => saveProjectionPreference({ profitTarget: val[0] })}
                         className="opacity-80"
                         data-testid="slider-profit-target"
                       />
@@ -1124,7 +1196,7 @@ export default function DreamMachine() {
                         <div className="text-lg font-bold text-loss tabular-nums" data-testid="text-tax-reserve">
                           {formatCurrency(isImaginingFuture ? imagineTax : currentTax)}
                         </div>
-                        <div className="text-xs text-muted-foreground mt-0.5">60%</div>
+                        <div className="text-xs text-muted-foreground mt-0.5">{(taxRate * 100).toFixed(0)}%</div>
                       </div>
                       <div className="p-2 rounded-lg bg-win/10 border border-win/20">
                         <div className="text-xs text-win font-bold uppercase mb-0.5">Net Liquid</div>
@@ -1134,6 +1206,13 @@ export default function DreamMachine() {
                         <div className="text-xs text-muted-foreground mt-0.5">Spendable</div>
                       </div>
                     </div>
+                    <PlanTrackingChart
+                      startBalance={displayBalance}
+                      dailyWins={dailyWins}
+                      profitTarget={profitTarget}
+                      riskPercent={riskPercent}
+                    />
+                    <BalanceLedger originBalance={originBalance} />
                   </CardContent>
                 )}
               </Card>
@@ -1142,74 +1221,11 @@ export default function DreamMachine() {
                 const rawSliderDay = Math.max(0, imagineDay ?? 0);
                 const isSliderMoved = rawSliderDay > 0;
                 
-                const giftDays = new Set<number>();
-                const giftDayDetails = new Map<number, number[]>();
-                
-                if (dreamFeedbackMode === 'buyAsYouGo') {
-                  let runningPurchaseCost = 0;
-                  const purchasedIds = new Set<number>();
-                  
-                  for (let day = 1; day <= maxDaysToGoal; day++) {
-                    const dayBalance = getBalanceAfterDays(displayBalance, day, dailyWins, true, profitTarget, userRiskPct);
-                    const dayGain = Math.max(0, dayBalance - originBalance);
-                    const dayTax = dayGain * TAX_RATE;
-                    const availableNetLiquid = dayBalance - dayTax - purchasedCosts - runningPurchaseCost;
-                    
-                    for (const item of unpurchasedDreams) {
-                      if (purchasedIds.has(item.id)) continue;
-                      const requiredNet = getRequiredNetForItem(item.cost, item.category);
-                      if (requiredNet <= availableNetLiquid) {
-                        giftDays.add(day);
-                        if (!giftDayDetails.has(day)) giftDayDetails.set(day, []);
-                        giftDayDetails.get(day)!.push(item.id);
-                        purchasedIds.add(item.id);
-                        runningPurchaseCost += item.cost;
-                      }
-                    }
-                  }
-                } else {
-                  for (const item of unpurchasedDreams) {
-                    const daysToAffordItem = calcDaysToAfford(item.cost, item.category);
-                    if (daysToAffordItem > 0 && daysToAffordItem <= maxDaysToGoal) {
-                      giftDays.add(daysToAffordItem);
-                      if (!giftDayDetails.has(daysToAffordItem)) giftDayDetails.set(daysToAffordItem, []);
-                      giftDayDetails.get(daysToAffordItem)!.push(item.id);
-                    }
-                  }
-                }
-                
-                if (dreamFeedbackMode === 'buyAsYouGo') {
-                  let runningPurchaseCost = 0;
-                  const purchasedIds = new Set<number>();
-                  
-                  for (let day = 1; day <= maxDaysToGoal; day++) {
-                    const dayBalance = getBalanceAfterDays(displayBalance, day, dailyWins, true, profitTarget, userRiskPct);
-                    const dayGain = Math.max(0, dayBalance - originBalance);
-                    const dayTax = dayGain * TAX_RATE;
-                    const availableNetLiquid = dayBalance - dayTax - purchasedCosts - runningPurchaseCost;
-                    
-                    for (const item of unpurchasedDreams) {
-                      if (purchasedIds.has(item.id)) continue;
-                      const requiredNet = getRequiredNetForItem(item.cost, item.category);
-                      if (requiredNet <= availableNetLiquid) {
-                        giftDays.add(day);
-                        if (!giftDayDetails.has(day)) giftDayDetails.set(day, []);
-                        giftDayDetails.get(day)!.push(item.id);
-                        purchasedIds.add(item.id);
-                        runningPurchaseCost += item.cost;
-                      }
-                    }
-                  }
-                } else {
-                  for (const item of unpurchasedDreams) {
-                    const daysToAffordItem = calcDaysToAfford(item.cost, item.category);
-                    if (daysToAffordItem > 0 && daysToAffordItem <= maxDaysToGoal) {
-                      giftDays.add(daysToAffordItem);
-                      if (!giftDayDetails.has(daysToAffordItem)) giftDayDetails.set(daysToAffordItem, []);
-                      giftDayDetails.get(daysToAffordItem)!.push(item.id);
-                    }
-                  }
-                }
+                const giftDayDetails = getDreamAffordabilityDays(
+                  displayBalance, originBalance, maxDaysToGoal, dailyWins,
+                  unpurchasedDreams, purchasedCosts, dreamFeedbackMode, profitTarget, userRiskPct, projectionConstants, tradingSchedule
+                );
+                const giftDays = new Set(giftDayDetails.keys());
                 
                 const sortedGiftDays = Array.from(giftDays).sort((a, b) => a - b);
                 
@@ -1217,29 +1233,29 @@ export default function DreamMachine() {
                 const daysNotShown = Math.max(0, maxDaysToGoal - maxTradingDaysDisplayed);
                 const tradingDaysToShow = Math.min(maxDaysToGoal, maxTradingDaysDisplayed);
                 
-                const goalDateForCalendar = addTradingDays(today, tradingDaysToShow);
+                const goalDateForCalendar = addTradingDays(today, tradingDaysToShow, marketHolidays);
                 const calendarEndDate = new Date(goalDateForCalendar);
                 
-                const calendarWeeks: { date: Date; isTrading: boolean; isSimulated: boolean; dayNum: number; isGiftDay: boolean; isGoalDay: boolean }[][] = [];
+                const calendarWeeks: { date: Date; isTrading: boolean; isHalfDay: boolean; isSimulated: boolean; dayNum: number; isGiftDay: boolean; isGoalDay: boolean }[][] = [];
                 
                 let tradingDayCount = 0;
                 let goalDayMarked = false;
                 let passedGoalDay = false;
                 let currentDate = new Date(today);
-                let currentWeek: { date: Date; isTrading: boolean; isSimulated: boolean; dayNum: number; isGiftDay: boolean; isGoalDay: boolean }[] = [];
+                let currentWeek: { date: Date; isTrading: boolean; isHalfDay: boolean; isSimulated: boolean; dayNum: number; isGiftDay: boolean; isGoalDay: boolean }[] = [];
                 
                 const startDayOfWeek = currentDate.getDay();
                 for (let i = 0; i < startDayOfWeek; i++) {
                   const prevDate = new Date(currentDate);
                   prevDate.setDate(prevDate.getDate() - (startDayOfWeek - i));
-                  currentWeek.push({ date: prevDate, isTrading: false, isSimulated: false, dayNum: 0, isGiftDay: false, isGoalDay: false });
+                  currentWeek.push({ date: prevDate, isTrading: false, isHalfDay: false, isSimulated: false, dayNum: 0, isGiftDay: false, isGoalDay: false });
                 }
                 
                 let currentCalendarDate = new Date(currentDate);
                 while (currentCalendarDate <= calendarEndDate) {
                   const thisDate = new Date(currentCalendarDate);
                   const dayOfWeek = thisDate.getDay();
-                  const isTradingDay = isNYSETradingDay(thisDate);
+                  const isTradingDay = isNYSETradingDay(thisDate, marketHolidays);
                   const isBeforeOrAtGoal = tradingDayCount < tradingDaysToShow;
                   
                   if (isTradingDay && isBeforeOrAtGoal) {
@@ -1257,6 +1273,7 @@ export default function DreamMachine() {
                   currentWeek.push({
                     date: thisDate,
                     isTrading: isTradingDay,
+                    isHalfDay: isTradingDay && marketHalfDays.has(formatDateKey(thisDate)),
                     isSimulated: shouldHighlight,
                     dayNum: isTradingDay && tradingDayCount > 0 ? tradingDayCount : 0,
                     isGiftDay,
@@ -1275,7 +1292,7 @@ export default function DreamMachine() {
                     const lastDate = currentWeek[currentWeek.length - 1]?.date || new Date();
                     const nextDate = new Date(lastDate);
                     nextDate.setDate(nextDate.getDate() + 1);
-                    currentWeek.push({ date: nextDate, isTrading: false, isSimulated: false, dayNum: 0, isGiftDay: false, isGoalDay: false });
+                    currentWeek.push({ date: nextDate, isTrading: false, isHalfDay: false, isSimulated: false, dayNum: 0, isGiftDay: false, isGoalDay: false });
                   }
                   calendarWeeks.push(currentWeek);
                 }
@@ -1309,6 +1326,11 @@ export default function DreamMachine() {
                             {giftDays.size} Dream Day{giftDays.size !== 1 ? 's' : ''} (purple)
                           </div>
                         )}
+                        {calendarWeeks.some(week => week.some(d => d.isHalfDay)) && (
+                          <div className="text-[10px] text-muted-foreground text-center">
+                            Dashed outline = early close (1:00 PM ET)
+                          </div>
+                        )}
                         <div className="max-h-[300px] overflow-y-auto scrollbar-thin">
                           {calendarWeeks.map((week, weekIdx) => {
                             const firstOfMonthDay = week.find(d => d.date.getDate() === 1 && d.date.getMonth() !== lastLabeledMonth);
@@ -1360,6 +1382,11 @@ export default function DreamMachine() {
                                       dayClasses += 'text-muted-foreground/40 bg-muted/10';
                                     }
                                     
+                                    if (day.isHalfDay && !isPast) {
+                                      dayClasses += ' border border-dashed border-amber-500/70';
+                                      dayTitle = `${dayTitle} · Early close 1:00 PM ET`;
+                                    }
+                                    
                                     if (isToday && !day.isGoalDay) {
                                       dayClasses += ' ring-1 ring-primary ring-offset-1 font-bold';
                                     }
@@ -1414,74 +1441,11 @@ export default function DreamMachine() {
                 const rawSliderDay = Math.max(0, imagineDay ?? 0);
                 const isSliderMoved = rawSliderDay > 0;
                 
-                const giftDays = new Set<number>();
-                const giftDayDetails = new Map<number, number[]>();
-                
-                if (dreamFeedbackMode === 'buyAsYouGo') {
-                  let runningPurchaseCost = 0;
-                  const purchasedIds = new Set<number>();
-                  
-                  for (let day = 1; day <= maxDaysToGoal; day++) {
-                    const dayBalance = getBalanceAfterDays(displayBalance, day, dailyWins, true, profitTarget, userRiskPct);
-                    const dayGain = Math.max(0, dayBalance - originBalance);
-                    const dayTax = dayGain * TAX_RATE;
-                    const availableNetLiquid = dayBalance - dayTax - purchasedCosts - runningPurchaseCost;
-                    
-                    for (const item of unpurchasedDreams) {
-                      if (purchasedIds.has(item.id)) continue;
-                      const requiredNet = getRequiredNetForItem(item.cost, item.category);
-                      if (requiredNet <= availableNetLiquid) {
-                        giftDays.add(day);
-                        if (!giftDayDetails.has(day)) giftDayDetails.set(day, []);
-                        giftDayDetails.get(day)!.push(item.id);
-                        purchasedIds.add(item.id);
-                        runningPurchaseCost += item.cost;
-                      }
-                    }
-                  }
-                } else {
-                  for (const item of unpurchasedDreams) {
-                    const daysToAffordItem = calcDaysToAfford(item.cost, item.category);
-                    if (daysToAffordItem > 0 && daysToAffordItem <= maxDaysToGoal) {
-                      giftDays.add(daysToAffordItem);
-                      if (!giftDayDetails.has(daysToAffordItem)) giftDayDetails.set(daysToAffordItem, []);
-                      giftDayDetails.get(daysToAffordItem)!.push(item.id);
-                    }
-                  }
-                }
-                
-                if (dreamFeedbackMode === 'buyAsYouGo') {
-                  let runningPurchaseCost = 0;
-                  const purchasedIds = new Set<number>();
-                  
-                  for (let day = 1; day <= maxDaysToGoal; day++) {
-                    const dayBalance = getBalanceAfterDays(displayBalance, day, dailyWins, true, profitTarget, userRiskPct);
-                    const dayGain = Math.max(0, dayBalance - originBalance);
-                    const dayTax = dayGain * TAX_RATE;
-                    const availableNetLiquid = dayBalance - dayTax - purchasedCosts - runningPurchaseCost;
-                    
-                    for (const item of unpurchasedDreams) {
-                      if (purchasedIds.has(item.id)) continue;
-                      const requiredNet = getRequiredNetForItem(item.cost, item.category);
-                      if (requiredNet <= availableNetLiquid) {
-                        giftDays.add(day);
-                        if (!giftDayDetails.has(day)) giftDayDetails.set(day, []);
-                        giftDayDetails.get(day)!.push(item.id);
-                        purchasedIds.add(item.id);
-                        runningPurchaseCost += item.cost;
-                      }
-                    }
-                  }
-                } else {
-                  for (const item of unpurchasedDreams) {
-                    const daysToAffordItem = calcDaysToAfford(item.cost, item.category);
-                    if (daysToAffordItem > 0 && daysToAffordItem <= maxDaysToGoal) {
-                      giftDays.add(daysToAffordItem);
-                      if (!giftDayDetails.has(daysToAffordItem)) giftDayDetails.set(daysToAffordItem, []);
-                      giftDayDetails.get(daysToAffordItem)!.push(item.id);
-                    }
-                  }
-                }
+                const giftDayDetails = getDreamAffordabilityDays(
+                  displayBalance, originBalance, maxDaysToGoal, dailyWins,
+                  unpurchasedDreams, purchasedCosts, dreamFeedbackMode, profitTarget, userRiskPct, projectionConstants, tradingSchedule
+                );
+                const giftDays = new Set(giftDayDetails.keys());
                 
                 const sortedGiftDays = Array.from(giftDays).sort((a, b) => a - b);
                 
@@ -1489,29 +1453,29 @@ export default function DreamMachine() {
                 const daysNotShown = Math.max(0, maxDaysToGoal - maxTradingDaysDisplayed);
                 const tradingDaysToShow = Math.min(maxDaysToGoal, maxTradingDaysDisplayed);
                 
-                const goalDateForCalendar = addTradingDays(today, tradingDaysToShow);
+                const goalDateForCalendar = addTradingDays(today, tradingDaysToShow, marketHolidays);
                 const calendarEndDate = new Date(goalDateForCalendar);
                 
-                const calendarWeeks: { date: Date; isTrading: boolean; isSimulated: boolean; dayNum: number; isGiftDay: boolean; isGoalDay: boolean }[][] = [];
+                const calendarWeeks: { date: Date; isTrading: boolean; isHalfDay: boolean; isSimulated: boolean; dayNum: number; isGiftDay: boolean; isGoalDay: boolean }[][] = [];
                 
                 let tradingDayCount = 0;
                 let goalDayMarked = false;
                 let passedGoalDay = false;
                 let currentDate = new Date(today);
-                let currentWeek: { date: Date; isTrading: boolean; isSimulated: boolean; dayNum: number; isGiftDay: boolean; isGoalDay: boolean }[] = [];
+                let currentWeek: { date: Date; isTrading: boolean; isHalfDay: boolean; isSimulated: boolean; dayNum: number; isGiftDay: boolean; isGoalDay: boolean }[] = [];
                 
                 const startDayOfWeek = currentDate.getDay();
                 for (let i = 0; i < startDayOfWeek; i++) {
                   const prevDate = new Date(currentDate);
                   prevDate.setDate(prevDate.getDate() - (startDayOfWeek - i));
-                  currentWeek.push({ date: prevDate, isTrading: false, isSimulated: false, dayNum: 0, isGiftDay: false, isGoalDay: false });
+                  currentWeek.push({ date: prevDate, isTrading: false, isHalfDay: false, isSimulated: false, dayNum: 0, isGiftDay: false, isGoalDay: false });
                 }
                 
                 let currentCalendarDate = new Date(currentDate);
                 while (currentCalendarDate <= calendarEndDate) {
                   const thisDate = new Date(currentCalendarDate);
                   const dayOfWeek = thisDate.getDay();
-                  const isTradingDay = isNYSETradingDay(thisDate);
+                  const isTradingDay = isNYSETradingDay(thisDate, marketHolidays);
                   const isBeforeOrAtGoal = tradingDayCount < tradingDaysToShow;
                   
                   if (isTradingDay && isBeforeOrAtGoal) {
@@ -1529,6 +1493,7 @@ export default function DreamMachine() {
                   currentWeek.push({
                     date: thisDate,
                     isTrading: isTradingDay,
+                    isHalfDay: isTradingDay && marketHalfDays.has(formatDateKey(thisDate)),
                     isSimulated: shouldHighlight,
                     dayNum: isTradingDay && tradingDayCount > 0 ? tradingDayCount : 0,
                     isGiftDay,
@@ -1547,7 +1512,7 @@ export default function DreamMachine() {
                     const lastDate = currentWeek[currentWeek.length - 1]?.date || new Date();
                     const nextDate = new Date(lastDate);
                     nextDate.setDate(nextDate.getDate() + 1);
-                    currentWeek.push({ date: nextDate, isTrading: false, isSimulated: false, dayNum: 0, isGiftDay: false, isGoalDay: false });
+                    currentWeek.push({ date: nextDate, isTrading: false, isHalfDay: false, isSimulated: false, dayNum: 0, isGiftDay: false, isGoalDay: false });
                   }
                   calendarWeeks.push(currentWeek);
                 }
@@ -1581,6 +1546,11 @@ export default function DreamMachine() {
                             {giftDays.size} Dream Day{giftDays.size !== 1 ? 's' : ''} (purple)
                           </div>
                         )}
+                        {calendarWeeks.some(week => week.some(d => d.isHalfDay)) && (
+                          <div className="text-[10px] text-muted-foreground text-center">
+                            Dashed outline = early close (1:00 PM ET)
+                          </div>
+                        )}
                         <div className="max-h-[300px] overflow-y-auto scrollbar-thin">
                           {calendarWeeks.map((week, weekIdx) => {
                             const firstOfMonthDay = week.find(d => d.date.getDate() === 1 && d.date.getMonth() !== lastLabeledMonth);
@@ -1632,6 +1602,11 @@ export default function DreamMachine() {
                                       dayClasses += 'text-muted-foreground/40 bg-muted/10';
                                     }
                                     
+                                    if (day.isHalfDay && !isPast) {
+                                      dayClasses += ' border border-dashed border-amber-500/70';
+                                      dayTitle = `${dayTitle} · Early close 1:00 PM ET`;
+                                    }
+                                    
                                     if (isToday && !day.isGoalDay) {
                                       dayClasses += ' ring-1 ring-primary ring-offset-1 font-bold';
                                     }
@@ -1693,6 +1668,11 @@ export default function DreamMachine() {
                       <h3 className="text-xs font-bold text-muted-foreground uppercase tracking-widest">Dream Board</h3>
                     </div>
                     <div className="flex items-center gap-1">
+                      {activeBoard && (
+                        <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                          <DreamImportExport boardId={activeBoard.id} />
+                        </div>
+                      )}
                       {hiddenDreamIds.size > 0 && (
                         <Button variant="outline" size="sm" className="text-xs gap-1" onClick={(e) => { e.stopPropagation(); showAllDreams(); }} data-testid="button-show-all-dreams">
                           <Eye className="w-3 h-3" />
@@ -1744,7 +1724,7 @@ export default function DreamMachine() {
                           <Button
                             variant={dreamFeedbackMode === 'buyAsYouGo' ? 'default' : 'ghost'}
                             size="sm"
-                            onClick={(e) => { e.stopPropagation(); setDreamFeedbackMode('buyAsYouGo'); }}
+                            onClick={(e) => { e.stopPropagation(); setDreamFeedbackMode('buyAsYouGo'); saveProjectionPreference({ dreamFeedbackMode: 'buyAsYouGo' }); }}
                             className={`text-xs h-7 px-2 ${dreamFeedbackMode === 'buyAsYouGo' ? 'bg-primary text-primary-foreground' : ''}`}
                             data-testid="button-mode-buy-as-you-go"
                           >
@@ -1753,7 +1733,7 @@ export default function DreamMachine() {
                           <Button
                             variant={dreamFeedbackMode === 'waitTillEnd' ? 'default' : 'ghost'}
                             size="sm"
-                            onClick={(e) => { e.stopPropagation(); setDreamFeedbackMode('waitTillEnd'); }}
+                            onClick={(e) => { e.stopPropagation(); setDreamFeedbackMode('waitTillEnd'); saveProjectionPreference({ dreamFeedbackMode: 'waitTillEnd' }); }}
                             className={`text-xs h-7 px-2 ${dreamFeedbackMode === 'waitTillEnd' ? 'bg-primary text-primary-foreground' : ''}`}
                             data-testid="button-mode-wait-till-end"
                           >
@@ -1808,7 +1788,27 @@ export default function DreamMachine() {
                               </div>
                               <div>
                                 <label className="text-sm font-medium mb-2 block">Link</label>
-                                <Input value={newItemUrl} onChange={(e) => setNewItemUrl(e.target.value)} placeholder="https://..." data-testid="input-dream-url" />
+                                <div className="flex gap-2">
+                                  <Input value={newItemUrl} onChange={(e) => setNewItemUrl(e.target.value)} placeholder="https://..." data-testid="input-dream-url" />
+                                  <Button
+                                    variant="outline"
+                                    size="icon"
+                                    onClick={handleFetchPreview}
+                                    disabled={!newItemUrl || isFetchingPreview}
+                                    title="Fill in from the link"
+                                    data-testid="button-fetch-dream-preview"
+                                  >
+                                    {isFetchingPreview ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+                                  </Button>
+                                </div>
+                              </div>
+                              <div>
+                                <label className="text-sm font-medium mb-2 block">Image</label>
+                                <DreamImageField
+                                  imageKey={newItemImageKey}
+                                  imageUrl={newItemImageUrl}
+                                  onChange={(key) => { setNewItemImageKey(key); setNewItemImageUrl(null); }}
+                                />
                               </div>
                               <Button onClick={handleAddItem} className="w-full" disabled={!newItemName || !newItemCost} data-testid="button-save-dream">
                                 Add Dream
@@ -1850,7 +1850,19 @@ export default function DreamMachine() {
                           return (
                             <div key={category} className="space-y-2">
                               <div className="flex justify-between items-center">
-                                <h4 className={`text-xs font-bold uppercase tracking-wide ${getCategoryColor(category)}`}>{category}</h4>
+                                <div className="flex items-center gap-1">
+                                  <h4 className={`text-xs font-bold uppercase tracking-wide ${getCategoryColor(category)}`}>{category}</h4>
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <Button variant="ghost" size="icon" className="h-5 w-5 p-0" onClick={() => hideCategory(category)} data-testid={`button-hide-category-${category}`}>
+                                        <EyeOff className="h-3 w-3 text-muted-foreground" />
+                                      </Button>
+                                    </TooltipTrigger>
+                                    <TooltipContent>
+                                      <p className="text-xs">Hide every dream in {category} from budget calculations</p>
+                                    </TooltipContent>
+                                  </Tooltip>
+                                </div>
                                 <span className={`text-xs font-bold ${getCategoryColor(category)}`} data-testid={`text-category-total-${category}`}>{formatCurrency(categoryTotal)}</span>
                               </div>
                               <div className="space-y-2">
@@ -1860,7 +1872,7 @@ export default function DreamMachine() {
                                   const newlyAffordable = isImaginingFuture && canAffordImagined && !canAffordNow;
                                   const canAfford = canAffordNow || canAffordImagined;
                                   
-                                  const requiredNetLiquid = getRequiredNetForItem(item.cost, item.category);
+                                  const requiredNetLiquid = getRequiredNetForItem(item.cost, item.category, projectionConstants);
                                   const progress = Math.min(100, (currentNetLiquid / requiredNetLiquid) * 100);
                                   
                                   const canCoverCost = currentNetLiquid >= item.cost;
@@ -1868,8 +1880,8 @@ export default function DreamMachine() {
                                   const purchaseBlocked = !canCoverCost;
                                   const purchaseWarning = canCoverCost && !meetsAffordabilityRule;
                                   
-                                  const requiredGrossForItem = (requiredNetLiquid + purchasedCosts - TAX_RATE * originBalance) / NET_RATE;
-                                  const minStepToAfford = Math.max(0, Math.ceil(Math.log(requiredGrossForItem / originBalance) / Math.log(GROWTH_RATE)));
+                                  const requiredGrossForItem = getRequiredGrossForItem(item.cost, item.category, originBalance, purchasedCosts, projectionConstants);
+                                  const minStepToAfford = Math.max(0, Math.ceil(Math.log(requiredGrossForItem / originBalance) / Math.log(growthRate)));
 
                                   return (
                                     <div
@@ -1887,17 +1899,27 @@ export default function DreamMachine() {
                                     >
                                       <div className="flex items-start justify-between gap-3">
                                         <div className="flex items-center gap-3 flex-1 min-w-0">
-                                          <div className={`p-2 rounded-lg flex-shrink-0 ${
-                                            item.purchased 
-                                              ? 'bg-win/20 text-win' 
-                                              : newlyAffordable
-                                                ? 'bg-win/30 text-win'
-                                                : canAffordNow 
-                                                  ? 'bg-primary/20 text-primary' 
-                                                  : 'bg-muted text-muted-foreground'
-                                          }`}>
-                                            {getIcon(item.iconType)}
-                                          </div>
+                                          {item.imageKey ? (
+                                            <img
+                                              src={uploadedImageUrl(item.imageKey, 'thumbnail')}
+                                              alt={item.name}
+                                              loading="lazy"
+                                              className={`w-12 h-12 rounded-lg object-cover flex-shrink-0 ${item.purchased ? 'opacity-60' : ''}`}
+                                              data-testid={`img-dream-${item.id}`}
+                                            />
+                                          ) : (
+                                            <div className={`p-2 rounded-lg flex-shrink-0 ${
+                                              item.purchased 
+                                                ? 'bg-win/20 text-win' 
+                                                : newlyAffordable
+                                                  ? 'bg-win/30 text-win'
+                                                  : canAffordNow 
+                                                    ? 'bg-primary/20 text-primary' 
+                                                    : 'bg-muted text-muted-foreground'
+                                            }`}>
+                                              {getIcon(item.iconType)}
+                                            </div>
+                                          )}
                                           <div className="flex-1 min-w-0">
                                             {item.url ? (
                                               <a href={item.url} target="_blank" rel="noopener noreferrer" className={`font-bold truncate hover:underline block ${item.purchased ? 'line-through text-muted-foreground' : 'text-primary'}`} data-testid={`link-dream-${item.id}`}>
@@ -1910,6 +1932,19 @@ export default function DreamMachine() {
                                             )}
                                             <div className="flex items-center gap-2">
                                               <span className="text-sm text-muted-foreground tabular-nums">{formatCurrency(item.cost)}</span>
+                                              {(() => {
+                                                const movement = getPriceMovement(item);
+                                                return movement && (
+                                                  <Tooltip>
+                                                    <TooltipTrigger asChild>
+                                                      <span className="cursor-help" data-testid={`sparkline-price-${item.id}`}>
+                                                        <PriceSparkline points={movement.points} className="w-14 h-5" />
+                                                      </span>
+                                                    </TooltipTrigger>
+                                                    <TooltipContent>{renderPriceMovement(movement)}</TooltipContent>
+                                                  </Tooltip>
+                                                );
+                                              })()}
                                               {!item.purchased && !canAfford && dailyWins > 0 && (
                                                 <Tooltip>
                                                   <TooltipTrigger asChild>
@@ -2007,6 +2042,9 @@ export default function DreamMachine() {
                                               )}
                                             </TooltipContent>
                                           </Tooltip>
+                                          <Button variant="ghost" size="icon" onClick={() => setHistoryItem(item)} className="h-8 w-8" data-testid={`button-history-${item.id}`}>
+                                            <History className="w-4 h-4 text-muted-foreground" />
+                                          </Button>
                                           <Button variant="ghost" size="icon" onClick={() => handleDeleteItem(item.id)} className="h-8 w-8 text-muted-foreground hover:text-destructive" data-testid={`button-delete-${item.id}`}>
                                             <Trash2 className="w-4 h-4" />
                                           </Button>
@@ -2076,6 +2114,49 @@ export default function DreamMachine() {
                       </Collapsible>
                     )}
 
+                    {trashedDreams.length > 0 && (
+                      <Collapsible className="mt-6 border border-border/50 rounded-lg bg-muted/20">
+                        <CollapsibleTrigger asChild>
+                          <div className="flex items-center gap-2 cursor-pointer hover:bg-muted/30 transition-colors rounded-lg p-3" data-testid="trigger-trash">
+                            <Trash2 className="w-4 h-4 text-muted-foreground" />
+                            <span className="text-sm font-medium text-muted-foreground">Trash ({trashedDreams.length})</span>
+                            <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                          </div>
+                        </CollapsibleTrigger>
+                        <CollapsibleContent>
+                          <div className="px-3 pb-3 space-y-2">
+                            <p className="text-xs text-muted-foreground mb-3">
+                              Deleted dreams are kept for {TRASH_RETENTION_DAYS} days before they're removed for good.
+                            </p>
+                            {trashedDreams.map((item) => {
+                              const daysLeft = getTrashDaysLeft(item);
+                              return (
+                                <div key={item.id} className="flex items-center justify-between p-2 rounded-lg border border-border/30 bg-background/50" data-testid={`trashed-dream-${item.id}`}>
+                                  <div className="flex items-center gap-2 flex-1 min-w-0">
+                                    <div className="p-1.5 rounded bg-muted/50 text-muted-foreground">
+                                      {getIcon(item.iconType || 'target')}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                      <div className="text-sm font-medium truncate text-muted-foreground">{item.name}</div>
+                                      <div className="text-xs text-muted-foreground/70 tabular-nums">
+                                        {formatCurrency(item.cost)} · {daysLeft} day{daysLeft === 1 ? '' : 's'} left
+                                      </div>
+                                    </div>
+                                  </div>
+                                  <Button variant="outline" size="sm" className="text-xs h-7 gap-1" onClick={() => handleRestoreItem(item.id)} data-testid={`button-untrash-dream-${item.id}`}>
+                                    <Undo2 className="w-3 h-3" />
+                                    Restore
+                                  </Button>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </CollapsibleContent>
+                      </Collapsible>
+                    )}
+
+                    <DreamHistory item={historyItem} onOpenChange={(open) => { if (!open) setHistoryItem(null); }} />
+
                     <Dialog open={editingItemId !== null} onOpenChange={(open) => {
                       if (!open) {
                         setEditingItemId(null);
@@ -2083,6 +2164,8 @@ export default function DreamMachine() {
                         setEditingItemCost('');
                         setEditingItemCategory('');
                         setEditingItemUrl('');
+                        setEditingItemImageKey(null);
+                        setEditingItemAutoUpdateCost(false);
                       }
                     }}>
                       <DialogContent>
@@ -2125,6 +2208,33 @@ export default function DreamMachine() {
                             <label className="text-sm font-medium mb-2 block">Link</label>
                             <Input value={editingItemUrl} onChange={(e) => setEditingItemUrl(e.target.value)} placeholder="https://..." data-testid="input-edit-dream-url" />
                           </div>
+                          <div>
+                            <label className="text-sm font-medium mb-2 block">Image</label>
+                            <DreamImageField imageKey={editingItemImageKey} onChange={setEditingItemImageKey} />
+                          </div>
+                          <div className="flex items-center justify-between gap-4">
+                            <div>
+                              <label className="text-sm font-medium block">Auto-Update Cost</label>
+                              <p className="text-xs text-muted-foreground">Use the price from the link when the daily check finds a new one</p>
+                            </div>
+                            <Switch
+                              checked={editingItemAutoUpdateCost}
+                              onCheckedChange={setEditingItemAutoUpdateCost}
+                              disabled={!editingItemUrl}
+                              data-testid="switch-edit-dream-auto-cost"
+                            />
+                          </div>
+                          {(() => {
+                            const editingItem = dreamItems.find(d => d.id === editingItemId);
+                            const movement = editingItem && getPriceMovement(editingItem);
+                            return movement && (
+                              <div className="rounded-lg border border-border p-3 space-y-2" data-testid="panel-edit-dream-price-history">
+                                <label className="text-sm font-medium block">Price History</label>
+                                <PriceSparkline points={movement.points} className="w-full h-16" />
+                                {renderPriceMovement(movement)}
+                              </div>
+                            );
+                          })()}
                           <Button onClick={handleSaveEditDreamItem} className="w-full" disabled={!editingItemName || !editingItemCost} data-testid="button-save-edit-dream">
                             Save Changes
                           </Button>
@@ -3,6 +3,7 @@ import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Loader2 } from "lucide-react";
 import wolfLogoUrl from "@assets/image_1765606206883.png";
 import backgroundVideoUrl from "@assets/WOLFGANG_PHOENIX_BG_1766001809389.mp4";
@@ -12,15 +13,22 @@ import { useAuth } from "@/hooks/useAuth";
 export default function Landing() {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [isRegistering, setIsRegistering] = useState(false);
+  // Set once the password is accepted for an account with two-factor enabled
+  const [totpDestination, setTotpDestination] = useState<string | null>(null);
+  const [totpCode, setTotpCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
-  const { login } = useAuth();
+  const { login, register } = useAuth();
   const [, setLocation] = useLocation();
 
   const handleLogin = async (destination: string = '/dreams') => {
+    const failureTitle = isRegistering ? "Registration Failed" : "Login Failed";
     if (!username || !password) {
       toast({
-        title: "Login Failed",
+        title: failureTitle,
         description: "Please enter username and password",
         variant: "destructive",
       });
@@ -29,11 +37,16 @@ export default function Landing() {
     
     setIsLoading(true);
     try {
-      await login(username, password);
+      if (isRegistering) {
+        await register(username, password, inviteCode);
+      } else if ((await login(username, password)).totpRequired) {
+        setTotpDestination(destination);
+        return;
+      }
       setLocation(destination);
     } catch (error: any) {
       toast({
-        title: "Login Failed",
+        title: failureTitle,
         description: error.message || "Invalid username or password",
         variant: "destructive",
       });
@@ -42,13 +55,42 @@ export default function Landing() {
     }
   };
 
+  const handleTotpSubmit = async (code: string = totpCode) => {
+    if (!totpDestination || !code) return;
+    
+    setIsLoading(true);
+    try {
+      await login(username, password, code);
+      setLocation(totpDestination);
+    } catch (error: any) {
+      setTotpCode("");
+      toast({
+        title: "Login Failed",
+        description: error.message || "Invalid two-factor code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelTotp = () => {
+    setTotpDestination(null);
+    setTotpCode("");
+    setUseRecoveryCode(false);
+  };
+
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    handleLogin('/dreams');
+    if (totpDestination) {
+      handleTotpSubmit();
+    } else {
+      handleLogin('/dreams');
+    }
   };
 
   const handleWolfClick = () => {
-    handleLogin('/aurora');
+    if (!totpDestination) handleLogin('/aurora');
   };
 
   return (
@@ -81,30 +123,84 @@ export default function Landing() {
 
         <div className="w-full max-w-sm rounded-2xl bg-white/10 backdrop-blur-xl border border-white/20 shadow-[0_20px_60px_rgba(0,0,0,0.4)] p-5">
           <form onSubmit={handleFormSubmit} className="space-y-3">
-            <div className="space-y-1">
-              <Label htmlFor="username" className="text-xs text-white/70 font-medium">Username</Label>
-              <Input
-                id="username"
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                placeholder="Enter username"
-                data-testid="input-username"
-                className="h-10 bg-white/10 border-white/20 text-white placeholder:text-white/40 rounded-lg focus:border-pink-500/50 focus:ring-pink-500/20"
-              />
-            </div>
-            <div className="space-y-1">
-              <Label htmlFor="password" className="text-xs text-white/70 font-medium">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="Enter password"
-                data-testid="input-password"
-                className="h-10 bg-white/10 border-white/20 text-white placeholder:text-white/40 rounded-lg focus:border-pink-500/50 focus:ring-pink-500/20"
-              />
-            </div>
+            {totpDestination ? (
+              <div className="space-y-2">
+                <Label htmlFor="totp-code" className="text-xs text-white/70 font-medium">
+                  {useRecoveryCode ? "Recovery Code" : "Authenticator Code"}
+                </Label>
+                {useRecoveryCode ? (
+                  <Input
+                    id="totp-code"
+                    type="text"
+                    value={totpCode}
+                    onChange={(e) => setTotpCode(e.target.value.trim())}
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    data-testid="input-recovery-code"
+                    className="h-10 bg-white/10 border-white/20 text-white placeholder:text-white/40 rounded-lg focus:border-pink-500/50 focus:ring-pink-500/20"
+                  />
+                ) : (
+                  <InputOTP
+                    id="totp-code"
+                    maxLength={6}
+                    value={totpCode}
+                    onChange={setTotpCode}
+                    onComplete={(code: string) => handleTotpSubmit(code)}
+                    autoFocus
+                    containerClassName="justify-center"
+                    data-testid="input-totp-code"
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} className="h-10 w-10 bg-white/10 border-white/20 text-white" />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                )}
+              </div>
+            ) : (
+              <>
+              <div className="space-y-1">
+                <Label htmlFor="username" className="text-xs text-white/70 font-medium">Username</Label>
+                <Input
+                  id="username"
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  placeholder="Enter username"
+                  data-testid="input-username"
+                  className="h-10 bg-white/10 border-white/20 text-white placeholder:text-white/40 rounded-lg focus:border-pink-500/50 focus:ring-pink-500/20"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="password" className="text-xs text-white/70 font-medium">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Enter password"
+                  data-testid="input-password"
+                  className="h-10 bg-white/10 border-white/20 text-white placeholder:text-white/40 rounded-lg focus:border-pink-500/50 focus:ring-pink-500/20"
+                />
+              </div>
+              {isRegistering && (
+                <div className="space-y-1">
+                  <Label htmlFor="invite-code" className="text-xs text-white/70 font-medium">Invite Code</Label>
+                  <Input
+                    id="invite-code"
+                    type="text"
+                    value={inviteCode}
+                    onChange={(e) => setInviteCode(e.target.value.trim())}
+                    placeholder="From your admin"
+                    data-testid="input-invite-code"
+                    className="h-10 bg-white/10 border-white/20 text-white placeholder:text-white/40 rounded-lg focus:border-pink-500/50 focus:ring-pink-500/20"
+                  />
+                </div>
+              )}
+              </>
+            )}
             <Button
               type="submit"
               className="w-full h-10 bg-pink-600 hover:bg-pink-500 text-white font-semibold rounded-lg transition-all shadow-lg shadow-pink-900/40"
@@ -114,13 +210,42 @@ export default function Landing() {
               {isLoading ? (
                 <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Signing in...
+                  {isRegistering ? "Creating account..." : totpDestination ? "Verifying..." : "Signing in..."}
                 </>
               ) : (
-                "Sign In"
+                isRegistering ? "Create Account" : totpDestination ? "Verify" : "Sign In"
               )}
             </Button>
           </form>
+          {totpDestination ? (
+            <div className="flex justify-between mt-3">
+              <button
+                type="button"
+                onClick={cancelTotp}
+                className="text-xs text-white/60 hover:text-white transition-colors"
+                data-testid="button-totp-back"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={() => { setUseRecoveryCode(!useRecoveryCode); setTotpCode(""); }}
+                className="text-xs text-white/60 hover:text-white transition-colors"
+                data-testid="button-toggle-recovery-code"
+              >
+                {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setIsRegistering(!isRegistering)}
+              className="w-full mt-3 text-xs text-white/60 hover:text-white transition-colors"
+              data-testid="button-toggle-register"
+            >
+              {isRegistering ? "Already have an account? Sign in" : "Have an invite? Create an account"}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,34 @@
+import { LogOut, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { TwoFactorEnrollment } from "@/components/TwoFactorSettings";
+import { useAuth } from "@/hooks/useAuth";
+import { queryClient } from "@/lib/queryClient";
+
+// Shown instead of the app when the server requires two-factor and this account hasn't enrolled
+export default function TwoFactorSetup() {
+  const { user, logout } = useAuth();
+
+  const handleComplete = () => {
+    // Everything else was rejected with 403 until now
+    queryClient.invalidateQueries();
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-6">
+      <div className="w-full max-w-sm rounded-2xl border border-border bg-card p-6 space-y-5">
+        <div className="text-center space-y-2">
+          <ShieldCheck className="w-10 h-10 text-primary mx-auto" />
+          <h1 className="text-xl font-semibold">Set Up Two-Factor Authentication</h1>
+          <p className="text-sm text-muted-foreground">
+            This server requires a second factor for every account. Set one up to continue as {user?.username}.
+          </p>
+        </div>
+        <TwoFactorEnrollment onComplete={handleComplete} />
+        <Button variant="ghost" className="w-full text-muted-foreground" onClick={logout} data-testid="button-totp-setup-logout">
+          <LogOut className="w-4 h-4 mr-2" />
+          Log Out
+        </Button>
+      </div>
+    </div>
+  );
+}
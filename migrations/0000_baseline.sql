@@ -0,0 +1,198 @@
+CREATE TABLE "aurora_auction_structure" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticker" text NOT NULL,
+	"session_date" text NOT NULL,
+	"ib_high" real,
+	"ib_low" real,
+	"ib_width" real,
+	"opening_type" text,
+	"is_clean" boolean DEFAULT true
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_backtest_results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticker" text NOT NULL,
+	"strategy_name" text NOT NULL,
+	"time_range" text NOT NULL,
+	"total_trades" integer,
+	"win_rate" real,
+	"profit_factor" real,
+	"max_drawdown" real,
+	"run_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_calendar_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"date" text NOT NULL,
+	"day_type" text NOT NULL,
+	CONSTRAINT "aurora_calendar_sessions_date_unique" UNIQUE("date")
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_gex_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticker" text NOT NULL,
+	"session_date" text NOT NULL,
+	"zero_gamma_level" real,
+	"call_wall" real,
+	"put_wall" real,
+	"total_gamma" real,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_market_breadth" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"vix_value" real,
+	"tick_value" real,
+	"trin_value" real,
+	"pc_ratio" real
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_market_candles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticker" text NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"open" real NOT NULL,
+	"high" real NOT NULL,
+	"low" real NOT NULL,
+	"close" real NOT NULL,
+	"volume" real NOT NULL,
+	"is_complete" boolean DEFAULT true
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_market_quotes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticker" text NOT NULL,
+	"timestamp" timestamp with time zone DEFAULT now(),
+	"bid" real NOT NULL,
+	"ask" real NOT NULL,
+	"last" real NOT NULL,
+	"size" integer
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_option_chains" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticker" text NOT NULL,
+	"snapshot_time" timestamp with time zone DEFAULT now(),
+	"expiration" text NOT NULL,
+	"strike" real NOT NULL,
+	"option_type" text NOT NULL,
+	"bid" real,
+	"ask" real,
+	"iv" real,
+	"delta" real,
+	"gamma" real,
+	"open_interest" integer,
+	"volume" integer
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_order_flow" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticker" text NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"delta" real,
+	"cumulative_delta" real,
+	"anchored_vwap" real,
+	"cvd_divergence" boolean DEFAULT false
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_parallax_outcomes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"prediction_id" integer,
+	"actual_pnl" real,
+	"result" text,
+	"closed_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_parallax_predictions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticker" text NOT NULL,
+	"category" text NOT NULL,
+	"direction" text NOT NULL,
+	"strike" real NOT NULL,
+	"entry_price" real,
+	"confidence" real NOT NULL,
+	"entry_trigger" real,
+	"stop_loss" real,
+	"take_profit" real,
+	"risk_reward_ratio" real,
+	"session" text,
+	"engine" text,
+	"reasoning" jsonb NOT NULL,
+	"status" text DEFAULT 'ACTIVE',
+	"generated_at" timestamp with time zone DEFAULT now(),
+	"expires_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_praxis_deltas" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"parameter_id" integer,
+	"old_config" jsonb,
+	"new_config" jsonb NOT NULL,
+	"change_reason" text,
+	"changed_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_praxis_parameters" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"config" jsonb NOT NULL,
+	"win_rate" real DEFAULT 0,
+	"is_active" boolean DEFAULT true,
+	"last_updated" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_technical_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticker" text NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"rsi_14" real,
+	"rsi_5" real,
+	"sma_9" real,
+	"sma_20" real,
+	"vwap" real,
+	"bollinger_upper" real,
+	"bollinger_lower" real,
+	"atr" real
+);
+--> statement-breakpoint
+CREATE TABLE "aurora_tpo_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticker" text NOT NULL,
+	"session_date" text NOT NULL,
+	"poc" real NOT NULL,
+	"vah" real NOT NULL,
+	"val" real NOT NULL,
+	"impulse" text,
+	"profile_data" jsonb,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "dream_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"cost" real NOT NULL,
+	"purchased" boolean DEFAULT false NOT NULL,
+	"icon_type" text DEFAULT 'target' NOT NULL,
+	"url" text,
+	"category" text DEFAULT 'Uncategorized' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"sid" varchar PRIMARY KEY NOT NULL,
+	"sess" jsonb NOT NULL,
+	"expire" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"current_balance" real DEFAULT 0,
+	"ultimate_goal" real DEFAULT 348000000,
+	"origin_balance" real DEFAULT 500,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "aurora_parallax_outcomes" ADD CONSTRAINT "aurora_parallax_outcomes_prediction_id_aurora_parallax_predictions_id_fk" FOREIGN KEY ("prediction_id") REFERENCES "public"."aurora_parallax_predictions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "aurora_praxis_deltas" ADD CONSTRAINT "aurora_praxis_deltas_parameter_id_aurora_praxis_parameters_id_fk" FOREIGN KEY ("parameter_id") REFERENCES "public"."aurora_praxis_parameters"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_session_expire" ON "sessions" USING btree ("expire");
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "user_settings" ADD COLUMN "tax_rate" real DEFAULT 0.6;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "growth_rate" real DEFAULT 1.2;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "risk_percent" real DEFAULT 20;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "max_risk" real DEFAULT 1000000;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "houses_multiplier" real DEFAULT 2;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "default_multiplier" real DEFAULT 3;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "max_buffer" real DEFAULT 500000;
\ No newline at end of file
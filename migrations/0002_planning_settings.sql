@@ -0,0 +1,3 @@
+ALTER TABLE "user_settings" ADD COLUMN "daily_wins" real DEFAULT 1;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "profit_target" real DEFAULT 1;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "dream_feedback_mode" text DEFAULT 'waitTillEnd';
\ No newline at end of file
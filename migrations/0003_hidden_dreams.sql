@@ -0,0 +1 @@
+ALTER TABLE "dream_items" ADD COLUMN "hidden" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "balance_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"timestamp" timestamp with time zone DEFAULT now() NOT NULL,
+	"type" text NOT NULL,
+	"amount" real NOT NULL,
+	"balance_after" real NOT NULL,
+	"note" text
+);
+--> statement-breakpoint
+CREATE INDEX "IDX_balance_entries_timestamp" ON "balance_entries" USING btree ("timestamp");
\ No newline at end of file
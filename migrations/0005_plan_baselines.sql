@@ -0,0 +1,9 @@
+CREATE TABLE "plan_baselines" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"start_date" text NOT NULL,
+	"start_balance" real NOT NULL,
+	"daily_wins" real NOT NULL,
+	"profit_target" real NOT NULL,
+	"risk_percent" real NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
@@ -0,0 +1 @@
+ALTER TABLE "user_settings" ADD COLUMN "half_day_weight" real DEFAULT 1;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "aurora_calendar_sessions" ADD COLUMN "note" text;
\ No newline at end of file
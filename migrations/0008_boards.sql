@@ -0,0 +1,11 @@
+CREATE TABLE "boards" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"ultimate_goal" real,
+	"origin_balance" real,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "dream_items" ADD COLUMN "board_id" integer;--> statement-breakpoint
+ALTER TABLE "dream_items" ADD CONSTRAINT "dream_items_board_id_boards_id_fk" FOREIGN KEY ("board_id") REFERENCES "public"."boards"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE "user_invites" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" text NOT NULL,
+	"created_by" integer NOT NULL,
+	"used_by" integer,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "user_invites_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"is_admin" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+DROP INDEX "IDX_balance_entries_timestamp";--> statement-breakpoint
+ALTER TABLE "balance_entries" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "boards" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "dream_items" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "plan_baselines" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "user_invites" ADD CONSTRAINT "user_invites_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_invites" ADD CONSTRAINT "user_invites_used_by_users_id_fk" FOREIGN KEY ("used_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "balance_entries" ADD CONSTRAINT "balance_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "boards" ADD CONSTRAINT "boards_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dream_items" ADD CONSTRAINT "dream_items_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "plan_baselines" ADD CONSTRAINT "plan_baselines_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_balance_entries_user_timestamp" ON "balance_entries" USING btree ("user_id","timestamp");--> statement-breakpoint
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_user_id_unique" UNIQUE("user_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "sessions" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_session_user" ON "sessions" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "audit_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"actor_id" integer,
+	"entity" text NOT NULL,
+	"entity_id" integer NOT NULL,
+	"action" text NOT NULL,
+	"before" jsonb,
+	"after" jsonb,
+	"ip" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_audit_events_actor_created" ON "audit_events" USING btree ("actor_id","created_at");--> statement-breakpoint
+CREATE INDEX "IDX_audit_events_entity" ON "audit_events" USING btree ("entity","entity_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE "schema_version" (
+	"id" integer PRIMARY KEY NOT NULL,
+	"version" integer NOT NULL,
+	"migrated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "dream_items" ADD COLUMN "image_key" text;
\ No newline at end of file
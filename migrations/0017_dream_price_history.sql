@@ -0,0 +1,11 @@
+CREATE TABLE "dream_price_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"dream_item_id" integer NOT NULL,
+	"price" real NOT NULL,
+	"currency" text,
+	"recorded_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "dream_items" ADD COLUMN "auto_update_cost" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "dream_price_history" ADD CONSTRAINT "dream_price_history_dream_item_id_dream_items_id_fk" FOREIGN KEY ("dream_item_id") REFERENCES "public"."dream_items"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_dream_price_history_item" ON "dream_price_history" USING btree ("dream_item_id","recorded_at");
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- Boards used to be created on first read of GET /api/boards; give every
+-- existing user theirs now and move their boardless dreams onto it
+INSERT INTO "boards" ("user_id", "name")
+SELECT "users"."id", 'Dream Board' FROM "users"
+WHERE NOT EXISTS (SELECT 1 FROM "boards" WHERE "boards"."user_id" = "users"."id");
+--> statement-breakpoint
+UPDATE "dream_items" SET "board_id" = (
+	SELECT min("boards"."id") FROM "boards" WHERE "boards"."user_id" = "dream_items"."user_id"
+)
+WHERE "board_id" IS NULL AND "user_id" IS NOT NULL;
@@ -0,0 +1,108 @@
+import {
+  MARKET_DAY_TYPES,
+  formatDateKey,
+  parseDateKey,
+  getRuleBasedDayType,
+  type CalendarDay,
+  type DateKeyLookup,
+  type MarketDaySets,
+  type MarketDayType,
+} from "@shared/calendar";
+import type { AuroraCalendarSession } from "@shared/schema";
+import { storage } from "../storage";
+import { getSessionWindow, type SessionWindow } from "./time";
+
+// Rows in aurora_calendar_sessions override the rule-based NYSE calendar for
+// their date: special closures (national days of mourning, weather), unusual
+// early closes, or a rule-based holiday the exchange decided to open on.
+let overrides = new Map<string, MarketDayType>();
+let sessions: AuroraCalendarSession[] = [];
+
+const isMarketDayType = (value: string): value is MarketDayType =>
+  (MARKET_DAY_TYPES as readonly string[]).includes(value);
+
+const load = async (): Promise<void> => {
+  const rows = await storage.getCalendarSessions();
+  const next = new Map<string, MarketDayType>();
+  for (const row of rows) {
+    if (isMarketDayType(row.dayType)) {
+      next.set(row.date, row.dayType);
+    } else {
+      console.warn(`Ignoring calendar override for ${row.date}: unknown day type "${row.dayType}"`);
+    }
+  }
+  overrides = next;
+  sessions = rows;
+};
+
+const getDayType = (dateKey: string): MarketDayType =>
+  overrides.get(dateKey) ?? getRuleBasedDayType(parseDateKey(dateKey));
+
+// Rule-based years are generated on first use, so these cover any date
+const holidays: DateKeyLookup = { has: (dateKey: string) => getDayType(dateKey) === "HOLIDAY" };
+const halfDays: DateKeyLookup = { has: (dateKey: string) => getDayType(dateKey) === "HALF_DAY" };
+
+const getHolidaysSet = (): DateKeyLookup => holidays;
+
+const getHalfDaysSet = (): DateKeyLookup => halfDays;
+
+const getMarketDaySets = (): MarketDaySets => ({ holidays, halfDays });
+
+const isTradingDay = (dateKey: string): boolean => {
+  const dayType = getDayType(dateKey);
+  return dayType === "REGULAR" || dayType === "HALF_DAY";
+};
+
+const getSessionWindowFor = (dateKey: string): SessionWindow | null => {
+  const dayType = getDayType(dateKey);
+  if (dayType !== "REGULAR" && dayType !== "HALF_DAY") return null;
+  return getSessionWindow(dateKey, dayType === "HALF_DAY");
+};
+
+/**
+ * Holidays and half-days between two dates (inclusive), with overrides applied.
+ * Regular trading days and weekends are left out so multi-decade ranges stay
+ * small.
+ */
+const getCalendar = (from: string, to: string): CalendarDay[] => {
+  const days: CalendarDay[] = [];
+  const cursor = parseDateKey(from);
+  const end = parseDateKey(to);
+  while (cursor <= end) {
+    const date = formatDateKey(cursor);
+    const dayType = getDayType(date);
+    if (dayType === "HOLIDAY" || dayType === "HALF_DAY") {
+      days.push({ date, dayType });
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return days;
+};
+
+const getOverrides = (): AuroraCalendarSession[] => sessions;
+
+const setOverride = async (date: string, dayType: MarketDayType, note?: string): Promise<AuroraCalendarSession> => {
+  const saved = await storage.upsertCalendarSession({ date, dayType, note });
+  await load();
+  return saved;
+};
+
+const removeOverride = async (date: string): Promise<boolean> => {
+  const deleted = await storage.deleteCalendarSession(date);
+  if (deleted) await load();
+  return deleted;
+};
+
+export const MarketCalendar = {
+  load,
+  getHolidaysSet,
+  getHalfDaysSet,
+  getMarketDaySets,
+  getDayType,
+  isTradingDay,
+  getSessionWindow: getSessionWindowFor,
+  getCalendar,
+  getOverrides,
+  setOverride,
+  removeOverride,
+};
@@ -0,0 +1,59 @@
+import { DateTime } from "luxon";
+import type { DateKeyLookup } from "@shared/calendar";
+
+export const MARKET_ZONE = "America/New_York";
+
+export type MarketSession = "PRE_MARKET" | "REGULAR" | "AFTER_HOURS" | "CLOSED";
+
+export interface SessionWindow {
+  preMarketOpen: DateTime;
+  open: DateTime;
+  close: DateTime;
+  afterHoursClose: DateTime;
+}
+
+const atTime = (dateKey: string, hour: number, minute = 0): DateTime =>
+  DateTime.fromISO(dateKey, { zone: MARKET_ZONE }).set({ hour, minute, second: 0, millisecond: 0 });
+
+/**
+ * Session boundaries for a trading date in Eastern time. Half-days close the
+ * regular session at 1:00 PM and after-hours at 5:00 PM.
+ */
+export const getSessionWindow = (dateKey: string, isHalfDay: boolean): SessionWindow => ({
+  preMarketOpen: atTime(dateKey, 4),
+  open: atTime(dateKey, 9, 30),
+  close: atTime(dateKey, isHalfDay ? 13 : 16),
+  afterHoursClose: atTime(dateKey, isHalfDay ? 17 : 20),
+});
+
+const now = (): DateTime => DateTime.now().setZone(MARKET_ZONE);
+
+const getTodayET = (): string => now().toISODate()!;
+
+const getSession = (holidays: DateKeyLookup, halfDays: DateKeyLookup): MarketSession => {
+  const current = now();
+  const todayET = current.toISODate()!;
+  if (current.weekday > 5 || holidays.has(todayET)) return "CLOSED";
+
+  const window = getSessionWindow(todayET, halfDays.has(todayET));
+  if (current < window.preMarketOpen) return "CLOSED";
+  if (current < window.open) return "PRE_MARKET";
+  if (current < window.close) return "REGULAR";
+  if (current < window.afterHoursClose) return "AFTER_HOURS";
+  return "CLOSED";
+};
+
+const isTradingHours = (holidays: DateKeyLookup, halfDays: DateKeyLookup): boolean =>
+  getSession(holidays, halfDays) === "REGULAR";
+
+// Pre-market opens at the same time on half-days, so only holidays matter here
+const isPreMarket = (holidays: DateKeyLookup): boolean =>
+  getSession(holidays, new Set()) === "PRE_MARKET";
+
+export const MarketTime = {
+  now,
+  getTodayET,
+  getSession,
+  isTradingHours,
+  isPreMarket,
+};
@@ -1,119 +1,301 @@
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, RequestHandler } from "express";
 import crypto from "crypto";
+import { promisify } from "util";
 import { z } from "zod";
+import type { AuthSessionData, User } from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./log";
+import { verifyTotp, hashRecoveryCode } from "./totp";
+import { createRateLimiter, getTrustProxySetting, type RateLimitResult } from "./rateLimit";
 
-// Simple token-based authentication
-// Tokens are stored in memory (cleared on server restart)
-const activeTokens = new Map<string, { username: string; createdAt: number }>();
+const scryptAsync = promisify(crypto.scrypt);
 
-const TOKEN_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const SCRYPT_KEY_LENGTH = 64;
+
+// Token-based authentication backed by the sessions table. Each login gets a
+// short-lived access token for API calls and a refresh token that trades for a
+// new pair. Only SHA-256 hashes of either are stored.
+const ACCESS_TOKEN_EXPIRY_MS = 15 * 60 * 1000; // 15 minutes
+// Sliding: every refresh pushes the session's expiry out by this much again
+const REFRESH_TOKEN_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+// Last-seen is only written once this much time has passed, not on every request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
 
 // Rate limiting for login attempts
-const loginAttempts = new Map<string, { count: number; firstAttempt: number }>();
 const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
 const MAX_LOGIN_ATTEMPTS = 5;
+// Higher than the per-IP limit so a stranger can't trivially lock someone out
+const MAX_LOGIN_ATTEMPTS_PER_USERNAME = 10;
+
+const loginIpLimiter = createRateLimiter({ name: "login-ip", windowMs: RATE_LIMIT_WINDOW_MS, max: MAX_LOGIN_ATTEMPTS });
+const loginUsernameLimiter = createRateLimiter({ name: "login-user", windowMs: RATE_LIMIT_WINDOW_MS, max: MAX_LOGIN_ATTEMPTS_PER_USERNAME });
+
+// Two-factor code checks made from an already signed-in session, keyed by user id
+export const totpRateLimiter = createRateLimiter({ name: "totp", windowMs: RATE_LIMIT_WINDOW_MS, max: MAX_LOGIN_ATTEMPTS });
 
-// Login request validation schema
+// When set, every account must enroll in two-factor before it can use the app
+const REQUIRE_TOTP = process.env.AUTH_REQUIRE_TOTP === "true";
+
+// Login request validation schema. totpCode is the second step for accounts
+// with two-factor enabled and may be a recovery code.
 export const loginSchema = z.object({
   username: z.string().min(1).max(50),
   password: z.string().min(1).max(255),
+  totpCode: z.string().min(1).max(20).optional(),
 });
 
-export function checkRateLimit(ip: string): { allowed: boolean; retryAfterMs?: number } {
-  const now = Date.now();
-  const attempt = loginAttempts.get(ip);
-  
-  if (!attempt) {
-    return { allowed: true };
-  }
-  
-  // Reset if window has passed
-  if (now - attempt.firstAttempt > RATE_LIMIT_WINDOW_MS) {
-    loginAttempts.delete(ip);
-    return { allowed: true };
-  }
-  
-  if (attempt.count >= MAX_LOGIN_ATTEMPTS) {
-    const retryAfterMs = RATE_LIMIT_WINDOW_MS - (now - attempt.firstAttempt);
-    return { allowed: false, retryAfterMs };
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1).max(200),
+});
+
+export const totpCodeSchema = z.object({
+  code: z.string().min(1).max(20),
+});
+
+export const disableTotpSchema = z.object({
+  password: z.string().min(1).max(255),
+  code: z.string().min(1).max(20),
+});
+
+export const registerSchema = z.object({
+  username: z.string().min(3).max(50).regex(/^[a-zA-Z0-9_.-]+$/, "Letters, numbers, dots, dashes and underscores only"),
+  password: z.string().min(8).max(255),
+  inviteCode: z.string().min(1).max(100).optional(),
+});
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const derived = (await scryptAsync(password, salt, SCRYPT_KEY_LENGTH)) as Buffer;
+  return `${salt}:${derived.toString("hex")}`;
+}
+
+export function isTotpRequired(): boolean {
+  return REQUIRE_TOTP;
+}
+
+/**
+ * Checks an authenticator code, falling back to the user's recovery codes. A
+ * matching TOTP step or recovery code is consumed so it can't be reused.
+ */
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpEnabled || !user.totpSecret) return false;
+
+  const step = verifyTotp(user.totpSecret, code.trim(), user.totpLastStep);
+  if (step !== null) {
+    await storage.updateUser(user.id, { totpLastStep: step });
+    return true;
   }
-  
-  return { allowed: true };
+
+  const remaining = user.totpRecoveryCodes ?? [];
+  const hashed = hashRecoveryCode(code);
+  if (!remaining.includes(hashed)) return false;
+  await storage.updateUser(user.id, { totpRecoveryCodes: remaining.filter(h => h !== hashed) });
+  return true;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const derived = (await scryptAsync(password, salt, SCRYPT_KEY_LENGTH)) as Buffer;
+  return expected.length === derived.length && crypto.timingSafeEqual(expected, derived);
+}
+
+const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+/**
+ * Blocks a login once either the client IP or the target username has too
+ * many recent failures. The username limit stops one account being guessed
+ * from many addresses.
+ */
+export async function checkLoginRateLimit(ip: string, username?: string): Promise<RateLimitResult> {
+  const results: RateLimitResult[] = await Promise.all([
+    loginIpLimiter.check(ip),
+    username ? loginUsernameLimiter.check(normalizeUsername(username)) : { allowed: true },
+  ]);
+  const blocked = results.filter(result => !result.allowed);
+  if (blocked.length === 0) return { allowed: true };
+  return { allowed: false, retryAfterMs: Math.max(...blocked.map(result => result.retryAfterMs ?? 0)) };
 }
 
-export function recordLoginAttempt(ip: string, success: boolean): void {
+export async function recordLoginAttempt(ip: string, username: string | undefined, success: boolean): Promise<void> {
+  const user = username ? normalizeUsername(username) : undefined;
   if (success) {
     // Clear attempts on successful login
-    loginAttempts.delete(ip);
+    await Promise.all([loginIpLimiter.reset(ip), user ? loginUsernameLimiter.reset(user) : undefined]);
     return;
   }
-  
-  const now = Date.now();
-  const attempt = loginAttempts.get(ip);
-  
-  if (!attempt || now - attempt.firstAttempt > RATE_LIMIT_WINDOW_MS) {
-    loginAttempts.set(ip, { count: 1, firstAttempt: now });
-  } else {
-    attempt.count++;
-  }
+  await Promise.all([loginIpLimiter.consume(ip), user ? loginUsernameLimiter.consume(user) : undefined]);
 }
 
-// Clean up old rate limit entries periodically
-setInterval(() => {
-  const now = Date.now();
-  const keysToDelete: string[] = [];
-  loginAttempts.forEach((attempt, ip) => {
-    if (now - attempt.firstAttempt > RATE_LIMIT_WINDOW_MS) {
-      keysToDelete.push(ip);
-    }
-  });
-  keysToDelete.forEach(key => loginAttempts.delete(key));
-}, 60 * 60 * 1000); // Clean up every hour
-
-function generateToken(): string {
+function generateSecret(): string {
   return crypto.randomBytes(32).toString("hex");
 }
 
-function cleanExpiredTokens() {
-  const now = Date.now();
-  const tokensToDelete: string[] = [];
-  
-  activeTokens.forEach((data, token) => {
-    if (now - data.createdAt > TOKEN_EXPIRY_MS) {
-      tokensToDelete.push(token);
-    }
-  });
-  
-  tokensToDelete.forEach(token => activeTokens.delete(token));
+function hashSecret(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+function secretMatches(secret: string, expectedHash: string): boolean {
+  const actual = Buffer.from(hashSecret(secret), "hex");
+  const expected = Buffer.from(expectedHash, "hex");
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+// Tokens are "<session id>.<secret>"; the id locates the row, the secret proves possession
+function parseToken(token: string): { sid: string; secret: string } | null {
+  const [sid, secret, ...rest] = token.split(".");
+  if (!sid || !secret || rest.length > 0) return null;
+  return { sid, secret };
+}
+
+async function cleanExpiredTokens(): Promise<void> {
+  try {
+    await storage.deleteExpiredSessions();
+  } catch (error) {
+    console.error("Error cleaning expired sessions:", error);
+  }
 }
 
 // Clean expired tokens every hour
 setInterval(cleanExpiredTokens, 60 * 60 * 1000);
 
-export function createAuthToken(username: string): string {
-  cleanExpiredTokens();
-  const token = generateToken();
-  activeTokens.set(token, { username, createdAt: Date.now() });
-  return token;
+export interface ClientInfo {
+  ip: string | null;
+  userAgent: string | null;
 }
 
-export function validateToken(token: string): string | null {
-  const data = activeTokens.get(token);
-  if (!data) return null;
-  
-  if (Date.now() - data.createdAt > TOKEN_EXPIRY_MS) {
-    activeTokens.delete(token);
-    return null;
+export function getClientInfo(req: Request): ClientInfo {
+  return {
+    ip: req.ip || req.socket.remoteAddress || null,
+    userAgent: req.get("user-agent")?.slice(0, 255) || null,
+  };
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  // Seconds until the access token expires
+  expiresIn: number;
+}
+
+// A fresh access/refresh pair for a session; only the hashes go into the row
+function issueTokenPair(sid: string, now: number) {
+  const accessSecret = generateSecret();
+  const refreshSecret = generateSecret();
+  return {
+    tokens: {
+      token: `${sid}.${accessSecret}`,
+      refreshToken: `${sid}.${refreshSecret}`,
+      expiresIn: ACCESS_TOKEN_EXPIRY_MS / 1000,
+    } satisfies AuthTokens,
+    hashes: {
+      accessTokenHash: hashSecret(accessSecret),
+      accessExpiresAt: now + ACCESS_TOKEN_EXPIRY_MS,
+      refreshTokenHash: hashSecret(refreshSecret),
+    },
+  };
+}
+
+export async function createAuthTokens(user: Pick<User, "id" | "username" | "totpEnabled">, client: ClientInfo): Promise<AuthTokens> {
+  const sid = crypto.randomBytes(16).toString("hex");
+  const createdAt = Date.now();
+  const { tokens, hashes } = issueTokenPair(sid, createdAt);
+  await storage.createSession({
+    sid,
+    userId: user.id,
+    sess: {
+      username: user.username,
+      createdAt,
+      lastSeenAt: createdAt,
+      ...client,
+      totpSetupRequired: REQUIRE_TOTP && !user.totpEnabled,
+      ...hashes,
+    },
+    expire: new Date(createdAt + REFRESH_TOKEN_EXPIRY_MS),
+  });
+  return tokens;
+}
+
+/**
+ * Rotates both tokens and pushes the session expiry out again. The old refresh
+ * token stops working, and of two concurrent refreshes with it only one wins.
+ */
+export async function refreshAuthTokens(refreshToken: string, client: ClientInfo): Promise<AuthTokens | null> {
+  const parsed = parseToken(refreshToken);
+  if (!parsed) return null;
+  const session = await storage.getSession(parsed.sid);
+  if (!session || !secretMatches(parsed.secret, session.sess.refreshTokenHash)) return null;
+
+  const now = Date.now();
+  const { tokens, hashes } = issueTokenPair(session.sid, now);
+  const rotated = await storage.rotateSession(
+    session.sid,
+    session.sess.refreshTokenHash,
+    { ...hashes, lastSeenAt: now, ...client },
+    new Date(now + REFRESH_TOKEN_EXPIRY_MS)
+  );
+  return rotated ? tokens : null;
+}
+
+interface ValidatedSession {
+  sessionId: string;
+  userId: number;
+  username: string;
+  totpSetupRequired: boolean;
+}
+
+export async function validateToken(token: string): Promise<ValidatedSession | null> {
+  const parsed = parseToken(token);
+  if (!parsed) return null;
+  const session = await storage.getSession(parsed.sid);
+  if (!session || session.userId === null) return null;
+
+  const now = Date.now();
+  const { sess } = session;
+  if (!secretMatches(parsed.secret, sess.accessTokenHash) || sess.accessExpiresAt <= now) return null;
+
+  const patch: Partial<AuthSessionData> = {};
+  if (now - sess.lastSeenAt > LAST_SEEN_RESOLUTION_MS) {
+    patch.lastSeenAt = now;
   }
-  
-  return data.username;
+
+  // Lift the restriction once the user has enrolled, or if the requirement was switched off
+  let totpSetupRequired = !!sess.totpSetupRequired;
+  if (totpSetupRequired) {
+    const user = REQUIRE_TOTP ? await storage.getUser(session.userId) : undefined;
+    if (!REQUIRE_TOTP || user?.totpEnabled) {
+      totpSetupRequired = false;
+      patch.totpSetupRequired = false;
+    }
+  }
+
+  if (Object.keys(patch).length > 0) {
+    storage.updateSession(session.sid, patch).catch(error => {
+      console.error("Error updating session:", error);
+    });
+  }
+
+  return {
+    sessionId: session.sid,
+    userId: session.userId,
+    username: sess.username,
+    totpSetupRequired,
+  };
 }
 
-export function invalidateToken(token: string): void {
-  activeTokens.delete(token);
+// Accepts either token of the pair, expired or not, so logout works after the access token lapses
+export async function invalidateToken(token: string): Promise<void> {
+  const parsed = parseToken(token);
+  if (!parsed) return;
+  const session = await storage.getSession(parsed.sid);
+  if (!session) return;
+  if (secretMatches(parsed.secret, session.sess.accessTokenHash) || secretMatches(parsed.secret, session.sess.refreshTokenHash)) {
+    await storage.deleteSession(session.sid);
+  }
 }
 
-export const isAuthenticated: RequestHandler = (req, res, next) => {
+const authenticate = (allowPendingTotpSetup: boolean): RequestHandler => async (req, res, next) => {
   const authHeader = req.headers.authorization;
   
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -121,16 +303,69 @@ export const isAuthenticated: RequestHandler = (req, res, next) => {
   }
   
   const token = authHeader.substring(7);
-  const username = validateToken(token);
+  let session: ValidatedSession | null;
+  try {
+    session = await validateToken(token);
+  } catch (error) {
+    console.error("Error validating token:", error);
+    return res.status(500).json({ message: "Failed to check authentication" });
+  }
   
-  if (!username) {
+  if (!session) {
     return res.status(401).json({ message: "Unauthorized" });
   }
   
-  (req as any).username = username;
+  if (session.totpSetupRequired && !allowPendingTotpSetup) {
+    return res.status(403).json({ message: "Two-factor enrollment required", totpSetupRequired: true });
+  }
+  
+  (req as any).username = session.username;
+  (req as any).userId = session.userId;
+  (req as any).sessionId = session.sessionId;
   next();
 };
 
+export const isAuthenticated = authenticate(false);
+
+// For the endpoints a user needs while enrolling in required two-factor
+export const isAuthenticatedForTotpSetup = authenticate(true);
+
+// Must run after isAuthenticated
+export const requireAdmin: RequestHandler = async (req, res, next) => {
+  try {
+    const user = await storage.getUser((req as any).userId);
+    if (!user?.isAdmin) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    next();
+  } catch (error) {
+    console.error("Error checking admin access:", error);
+    res.status(500).json({ message: "Failed to check access" });
+  }
+};
+
+// Seeds the first admin from APP_USERNAME/APP_PASSWORD and hands it the data
+// written before accounts existed. This is the only way to get an admin, so an
+// exposed server never lets whoever registers first take over.
+export async function bootstrapAdminFromEnv(): Promise<void> {
+  const username = process.env.APP_USERNAME;
+  const password = process.env.APP_PASSWORD;
+  if (await storage.countUsers() > 0) return;
+
+  if (!username || !password) {
+    log("No users yet. Set APP_USERNAME and APP_PASSWORD to create the admin account.", "auth");
+    return;
+  }
+
+  // Undefined if another instance created the first user meanwhile
+  const admin = await storage.createFirstAdmin({ username, passwordHash: await hashPassword(password) });
+  if (admin) {
+    log(`Created admin user "${username}" from APP_USERNAME`, "auth");
+  }
+}
+
 export function setupAuth(app: Express) {
-  // No session middleware needed for token-based auth
+  // No session middleware needed for token-based auth, but rate limits and
+  // session metadata rely on req.ip being the real client behind a proxy
+  app.set("trust proxy", getTrustProxySetting());
 }
@@ -0,0 +1,63 @@
+import { BACKUP_ARCHIVE_VERSION, type BackupArchive, type RestoreSummary } from "@shared/schema";
+import { storage } from "./storage";
+import { sanitizeName, sanitizeString, sanitizeUrl } from "./sanitize";
+import { releaseUploadedImage } from "./uploads";
+
+// Whole-account snapshots. Archives hold what the user owns, without row
+// owners or audit history; accounts, sessions and invites are never included.
+
+export async function createBackupArchive(userId: number, includeAurora: boolean): Promise<BackupArchive> {
+  const data = await storage.getAccountData(userId);
+  const archive: BackupArchive = {
+    version: BACKUP_ARCHIVE_VERSION,
+    exportedAt: new Date(),
+    settings: data.settings
+      ? (({ id, userId, updatedAt, ...settings }) => settings)(data.settings)
+      : null,
+    boards: data.boards.map(({ userId, ...board }) => board),
+    dreamItems: data.dreamItems.map(({ id, userId, ...item }) => item),
+    balanceEntries: data.balanceEntries.map(({ id, userId, ...entry }) => entry),
+    planBaselines: data.planBaselines.map(({ id, userId, ...baseline }) => baseline),
+  };
+  if (includeAurora) {
+    archive.auroraParameters = (await storage.getPraxisParameters()).map(({ id, lastUpdated, ...parameter }) => ({
+      ...parameter,
+      config: parameter.config as Record<string, unknown>,
+    }));
+  }
+  return archive;
+}
+
+/**
+ * Restores a validated archive over the account. Text fields go through the
+ * same sanitizers as the routes that normally write them, since an archive
+ * file may have been edited by hand. Images only the replaced dreams used are
+ * deleted afterwards.
+ */
+export async function restoreBackupArchive(userId: number, archive: BackupArchive, includeAurora: boolean): Promise<RestoreSummary> {
+  const { summary, replacedImageKeys } = await storage.restoreAccount(userId, {
+    ...archive,
+    boards: archive.boards.map(board => ({
+      ...board,
+      name: sanitizeName(board.name),
+      description: board.description ? sanitizeString(board.description) : board.description,
+    })),
+    dreamItems: archive.dreamItems.map(item => ({
+      ...item,
+      name: sanitizeName(item.name),
+      url: item.url ? sanitizeUrl(item.url) : item.url,
+    })),
+    balanceEntries: archive.balanceEntries.map(entry => ({
+      ...entry,
+      note: entry.note ? sanitizeString(entry.note) : entry.note,
+    })),
+  }, includeAurora);
+
+  for (const imageKey of replacedImageKeys) {
+    // The restore has landed; a file that won't delete shouldn't fail it
+    await releaseUploadedImage(imageKey).catch(error => {
+      console.error(`Error deleting image ${imageKey}:`, error);
+    });
+  }
+  return summary;
+}
@@ -1,15 +1,57 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePg } from 'drizzle-orm/node-postgres';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { PGlite } from '@electric-sql/pglite';
+import pg from 'pg';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
-neonConfig.webSocketConstructor = ws;
+// STORAGE_DRIVER picks where data lives:
+//   neon   - Neon serverless over WebSockets (the default; needs DATABASE_URL)
+//   pg     - any Postgres over node-postgres (needs DATABASE_URL)
+//   pglite - Postgres compiled to WASM, in process. Kept in PGLITE_DATA_DIR if
+//            set, otherwise in memory and gone on exit.
+//   memory - no database at all; see MemStorage
+export const STORAGE_DRIVERS = ["neon", "pg", "pglite", "memory"] as const;
+export type StorageDriver = typeof STORAGE_DRIVERS[number];
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export type DbTransaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+export function getStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER ?? "neon";
+  if (!(STORAGE_DRIVERS as readonly string[]).includes(driver)) {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use one of: ${STORAGE_DRIVERS.join(", ")}`);
+  }
+  return driver as StorageDriver;
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+function requireDatabaseUrl(driver: StorageDriver): string {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      `DATABASE_URL must be set for the ${driver} driver. Did you forget to provision a database? ` +
+      `Set STORAGE_DRIVER=pglite or STORAGE_DRIVER=memory to run without one.`,
+    );
+  }
+  return process.env.DATABASE_URL;
+}
+
+export function connectDatabase(driver: Exclude<StorageDriver, "memory">): Database {
+  switch (driver) {
+    case "neon": {
+      neonConfig.webSocketConstructor = ws;
+      const pool = new NeonPool({ connectionString: requireDatabaseUrl(driver) });
+      return drizzleNeon({ client: pool, schema });
+    }
+    case "pg": {
+      const pool = new pg.Pool({ connectionString: requireDatabaseUrl(driver) });
+      return drizzleNodePg({ client: pool, schema });
+    }
+    case "pglite": {
+      return drizzlePglite({ client: new PGlite(process.env.PGLITE_DATA_DIR), schema });
+    }
+  }
+}
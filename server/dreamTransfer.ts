@@ -0,0 +1,186 @@
+import { insertDreamItemSchema, type DreamItem, type DreamTransferFormat, type InsertDreamItem } from "@shared/schema";
+import { sanitizeName, sanitizeUrl } from "./sanitize";
+
+// Reading and writing dream boards as CSV or JSON. Files carry only the fields
+// a person would keep in a spreadsheet; ids, owners and boards stay behind.
+
+export const DREAM_TRANSFER_COLUMNS = ["name", "cost", "category", "iconType", "url", "purchased", "hidden"] as const;
+export const MAX_IMPORT_ROWS = 1000;
+
+type DreamTransferColumn = typeof DREAM_TRANSFER_COLUMNS[number];
+
+const importRowSchema = insertDreamItemSchema.omit({ boardId: true });
+
+export interface ImportRecord {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function serializeDreamItems(items: DreamItem[], format: DreamTransferFormat): string {
+  const rows = items.map(item => {
+    const row = {} as Record<DreamTransferColumn, unknown>;
+    for (const column of DREAM_TRANSFER_COLUMNS) row[column] = item[column];
+    return row;
+  });
+  if (format === "json") return JSON.stringify(rows, null, 2);
+
+  const lines = [DREAM_TRANSFER_COLUMNS.join(",")];
+  for (const row of rows) {
+    lines.push(DREAM_TRANSFER_COLUMNS.map(column => escapeCsvCell(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes
+const parseCsv = (text: string): string[][] | null => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) return null;
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const TRUE_VALUES = ["true", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "no", "n", "0"];
+
+// CSV cells are all text; turn them into what the schema expects and leave
+// anything unrecognisable as-is so validation reports it
+const coerceCsvCell = (column: DreamTransferColumn, raw: string): unknown => {
+  let cell = raw.trim();
+  if (cell === "") return undefined;
+  if (cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1))) cell = cell.slice(1);
+
+  if (column === "cost") {
+    const cost = Number(cell.replace(/[$,\s]/g, ""));
+    return isNaN(cost) ? cell : cost;
+  }
+  if (column === "purchased" || column === "hidden") {
+    const lower = cell.toLowerCase();
+    if (TRUE_VALUES.includes(lower)) return true;
+    if (FALSE_VALUES.includes(lower)) return false;
+  }
+  return cell;
+};
+
+const parseCsvRecords = (content: string): { records: ImportRecord[] } | { error: string } => {
+  const rows = parseCsv(content.replace(/^\uFEFF/, ""));
+  if (!rows) return { error: "CSV has an unterminated quoted field" };
+  if (rows.length === 0) return { error: "CSV is empty" };
+
+  // Match headers loosely so "Icon Type" or "COST" still line up
+  const normalize = (header: string) => header.toLowerCase().replace(/[\s_-]/g, "");
+  const columns = rows[0].map(header =>
+    DREAM_TRANSFER_COLUMNS.find(column => normalize(column) === normalize(header)) ?? null
+  );
+  if (!columns.includes("name") || !columns.includes("cost")) {
+    return { error: "CSV header must include name and cost columns" };
+  }
+
+  const records: ImportRecord[] = [];
+  rows.slice(1).forEach((cells, index) => {
+    if (cells.every(cell => cell.trim() === "")) return;
+    const values: Record<string, unknown> = {};
+    columns.forEach((column, columnIndex) => {
+      if (column && cells[columnIndex] !== undefined) {
+        const value = coerceCsvCell(column, cells[columnIndex]);
+        if (value !== undefined) values[column] = value;
+      }
+    });
+    records.push({ row: index + 2, values });
+  });
+  return { records };
+};
+
+const parseJsonRecords = (content: string): { records: ImportRecord[] } | { error: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return { error: "File is not valid JSON" };
+  }
+  if (!Array.isArray(parsed)) return { error: "JSON must be an array of dreams" };
+
+  return {
+    records: parsed.map((entry, index) => ({
+      row: index + 1,
+      values: entry && typeof entry === "object" && !Array.isArray(entry) ? entry as Record<string, unknown> : {},
+    })),
+  };
+};
+
+export function parseDreamImport(content: string, format: DreamTransferFormat): { records: ImportRecord[] } | { error: string } {
+  const result = format === "csv" ? parseCsvRecords(content) : parseJsonRecords(content);
+  if ("records" in result && result.records.length > MAX_IMPORT_ROWS) {
+    return { error: `Imports are limited to ${MAX_IMPORT_ROWS} dreams` };
+  }
+  return result;
+}
+
+/**
+ * Validates one record against insertDreamItemSchema and sanitizes it the
+ * way the create route does. Returns the item without a board.
+ */
+export function prepareImportRecord(
+  record: ImportRecord
+): { item: Omit<InsertDreamItem, "boardId"> } | { errors: string[] } {
+  const result = importRowSchema.safeParse(record.values);
+  if (!result.success) {
+    return {
+      errors: result.error.issues.map(issue =>
+        issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  const name = sanitizeName(result.data.name);
+  if (!name) return { errors: ["name: Required"] };
+  return {
+    item: {
+      ...result.data,
+      name,
+      url: result.data.url ? sanitizeUrl(result.data.url) : undefined,
+    },
+  };
+}
@@ -3,6 +3,11 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { startAuroraDaemon } from "./aurora/daemon";
+import { startTrashPurge } from "./trash";
+import { startPriceTracking } from "./priceTracking";
+import { database } from "./storage";
+import { migrateDatabase } from "./migrate";
+import { log, stringifyForLog } from "./log";
 
 const app = express();
 const httpServer = createServer(app);
@@ -23,16 +28,8 @@ app.use(
 
 app.use(express.urlencoded({ extended: false }));
 
-export function log(message: string, source = "express") {
-  const formattedTime = new Date().toLocaleTimeString("en-US", {
-    hour: "numeric",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true,
-  });
-
-  console.log(`${formattedTime} [${source}] ${message}`);
-}
+// Whole-account archives: megabytes per line, and all of it personal
+const UNLOGGED_BODY_PATHS = new Set(["/api/backup"]);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -49,8 +46,8 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+      if (capturedJsonResponse && !UNLOGGED_BODY_PATHS.has(path)) {
+        logLine += ` :: ${stringifyForLog(capturedJsonResponse)}`;
       }
 
       log(logLine);
@@ -61,6 +58,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Refuses to start (by throwing) if the database is newer than this build
+  if (database) {
+    await migrateDatabase(database);
+  }
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -91,6 +92,9 @@ app.use((req, res, next) => {
       
       // Start Aurora prediction daemon
       startAuroraDaemon();
+
+      startTrashPurge();
+      startPriceTracking();
     },
   );
 })();
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { stringifyForLog } from "./log";
+
+describe("stringifyForLog", () => {
+  it("blanks two-factor secrets and recovery codes", () => {
+    const logged = stringifyForLog({ secret: "JBSWY3DP", otpauthUri: "otpauth://totp/x", qrCode: "data:image/png", recoveryCodes: ["a1b2"] });
+    expect(JSON.parse(logged)).toEqual({ secret: "[redacted]", otpauthUri: "[redacted]", qrCode: "[redacted]", recoveryCodes: "[redacted]" });
+  });
+
+  it("blanks access and refresh tokens", () => {
+    const logged = stringifyForLog({ success: true, username: "ann", token: "sid.access", refreshToken: "sid.refresh", expiresIn: 900 });
+    expect(JSON.parse(logged)).toEqual({ success: true, username: "ann", token: "[redacted]", refreshToken: "[redacted]", expiresIn: 900 });
+  });
+
+  it("blanks nested fields and leaves the rest", () => {
+    const logged = stringifyForLog([{ id: 1, code: "invite-code", expiresAt: "2030-01-01" }]);
+    expect(JSON.parse(logged)).toEqual([{ id: 1, code: "[redacted]", expiresAt: "2030-01-01" }]);
+  });
+});
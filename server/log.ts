@@ -0,0 +1,19 @@
+export function log(message: string, source = "express") {
+  const formattedTime = new Date().toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+
+  console.log(`${formattedTime} [${source}] ${message}`);
+}
+
+// Response fields that would let a log reader sign in as someone or take over
+// their second factor
+const REDACTED_KEYS = new Set(["secret", "otpauthUri", "qrCode", "recoveryCodes", "code", "token", "refreshToken"]);
+
+// JSON for the request log, with sensitive fields blanked at any depth
+export function stringifyForLog(body: unknown): string {
+  return JSON.stringify(body, (key, value) => (REDACTED_KEYS.has(key) ? "[redacted]" : value));
+}
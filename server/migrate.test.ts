@@ -0,0 +1,95 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { sql } from "drizzle-orm";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { connectDatabase, type Database } from "./db";
+import { migrateDatabase } from "./migrate";
+
+const migrations = readMigrationFiles({ migrationsFolder: path.resolve("migrations") });
+
+// What `drizzle-kit push` would have left behind at the schema after `count`
+// migrations: the tables, but no migration history
+async function pushedDatabase(count: number): Promise<Database> {
+  const db = connectDatabase("pglite");
+  for (const migration of migrations.slice(0, count)) {
+    for (const statement of migration.sql) {
+      await db.execute(sql.raw(statement));
+    }
+  }
+  return db;
+}
+
+async function columnExists(db: Database, table: string, column: string): Promise<boolean> {
+  const rows = await db
+    .select({ column: sql<string>`column_name` })
+    .from(sql`information_schema.columns`)
+    .where(sql`table_schema = 'public' AND table_name = ${table} AND column_name = ${column}`);
+  return rows.length > 0;
+}
+
+async function appliedCount(db: Database): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(sql`drizzle.__drizzle_migrations`);
+  return row.count;
+}
+
+describe("migrateDatabase", () => {
+  it("creates a fresh database and is a no-op the second time", async () => {
+    const db = await pushedDatabase(0);
+    await migrateDatabase(db);
+    await migrateDatabase(db);
+    expect(await appliedCount(db)).toBe(migrations.length);
+    expect(await columnExists(db, "dream_items", "auto_update_cost")).toBe(true);
+  });
+
+  it("adopts a database pushed from the pre-accounts schema", async () => {
+    const db = await pushedDatabase(1);
+    await db.execute(sql`INSERT INTO dream_items (name, cost) VALUES ('Boat', 50000)`);
+
+    await migrateDatabase(db);
+
+    expect(await appliedCount(db)).toBe(migrations.length);
+    expect(await columnExists(db, "dream_items", "user_id")).toBe(true);
+    const [dream] = await db.select({ name: sql<string>`name` }).from(sql`dream_items`);
+    expect(dream.name).toBe("Boat");
+  });
+
+  it("adopts a database pushed partway through and applies only what it lacks", async () => {
+    // Has users, but not the later TOTP columns or the Trash
+    const db = await pushedDatabase(10);
+    expect(await columnExists(db, "users", "totp_secret")).toBe(false);
+
+    await migrateDatabase(db);
+
+    expect(await columnExists(db, "users", "totp_secret")).toBe(true);
+    expect(await columnExists(db, "dream_items", "deleted_at")).toBe(true);
+  });
+
+  it("gives existing users a board and moves their boardless dreams onto it", async () => {
+    const db = await pushedDatabase(10);
+    await db.execute(sql`INSERT INTO users (username, password_hash) VALUES ('ann', 'x')`);
+    await db.execute(sql`INSERT INTO dream_items (user_id, name, cost) VALUES (1, 'Boat', 50000)`);
+
+    await migrateDatabase(db);
+
+    const boards = await db.select({ id: sql<number>`id`, name: sql<string>`name` }).from(sql`boards`);
+    expect(boards).toEqual([{ id: 1, name: "Dream Board" }]);
+    const [dream] = await db.select({ boardId: sql<number>`board_id` }).from(sql`dream_items`);
+    expect(dream.boardId).toBe(1);
+  });
+
+  it("refuses a pushed database that matches no migration", async () => {
+    const db = await pushedDatabase(1);
+    await db.execute(sql`ALTER TABLE dream_items ADD COLUMN hidden boolean`);
+    await db.execute(sql`ALTER TABLE dream_items DROP COLUMN url`);
+    await expect(migrateDatabase(db)).rejects.toThrow(/don't match any migration/);
+  });
+
+  it("refuses a database newer than the build", async () => {
+    const db = await pushedDatabase(0);
+    await migrateDatabase(db);
+    await db.execute(sql`UPDATE schema_version SET version = version + 1`);
+    await expect(migrateDatabase(db)).rejects.toThrow(/newer schema/);
+  });
+});
@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+import { desc, sql } from "drizzle-orm";
+import { readMigrationFiles, type MigrationMeta } from "drizzle-orm/migrator";
+import { bigint, pgSchema, serial, text } from "drizzle-orm/pg-core";
+import { schemaVersion } from "@shared/schema";
+import type { Database, DbTransaction } from "./db";
+import { log } from "./log";
+
+// Generated by `npm run db:generate` from shared/schema.ts and checked in.
+// The schema version is the number of migrations.
+const MIGRATIONS_FOLDER = path.resolve(process.cwd(), "migrations");
+
+// Kept in drizzle's own bookkeeping table so `drizzle-kit migrate` and this
+// runner agree on what has been applied
+const appliedMigrations = pgSchema("drizzle").table("__drizzle_migrations", {
+  id: serial("id").primaryKey(),
+  hash: text("hash").notNull(),
+  createdAt: bigint("created_at", { mode: "number" }),
+});
+
+async function tableExists(tx: DbTransaction, name: string): Promise<boolean> {
+  const [row] = await tx
+    .select({ exists: sql<boolean>`to_regclass(${name}) IS NOT NULL` })
+    .from(sql`(SELECT 1) AS probe`);
+  return row.exists;
+}
+
+// Every "table.column" in the schema as it stood after each migration, in order
+function readSnapshotColumns(): Set<string>[] {
+  const journal = JSON.parse(fs.readFileSync(path.join(MIGRATIONS_FOLDER, "meta", "_journal.json"), "utf8"));
+  return journal.entries.map((entry: { idx: number }) => {
+    const file = path.join(MIGRATIONS_FOLDER, "meta", `${String(entry.idx).padStart(4, "0")}_snapshot.json`);
+    const snapshot = JSON.parse(fs.readFileSync(file, "utf8"));
+    const columns = new Set<string>();
+    for (const table of Object.values<{ name: string; columns: Record<string, { name: string }> }>(snapshot.tables)) {
+      for (const column of Object.values(table.columns)) columns.add(`${table.name}.${column.name}`);
+    }
+    return columns;
+  });
+}
+
+/**
+ * Databases created with `drizzle-kit push` have tables but no migration
+ * history, and may have been pushed from any earlier schema. Returns how many
+ * migrations the live columns already reflect, looking only at tables the
+ * migrations know about: up to the first snapshot they match exactly, so
+ * data-only migrations after it still run. 0 for an empty database; throws
+ * if no snapshot matches.
+ */
+async function detectPushedMigrations(tx: DbTransaction, migrations: MigrationMeta[]): Promise<number> {
+  const snapshots = readSnapshotColumns();
+  const knownTables = new Set(snapshots.flatMap(columns => Array.from(columns, column => column.split(".")[0])));
+  const rows = await tx
+    .select({ table: sql<string>`table_name`, column: sql<string>`column_name` })
+    .from(sql`information_schema.columns`)
+    .where(sql`table_schema = 'public'`);
+  const live = new Set(rows.filter(row => knownTables.has(row.table)).map(row => `${row.table}.${row.column}`));
+  if (live.size === 0) return 0;
+
+  for (let index = 0; index < Math.min(snapshots.length, migrations.length); index++) {
+    const snapshot = snapshots[index];
+    if (snapshot.size === live.size && Array.from(live).every(column => snapshot.has(column))) {
+      return index + 1;
+    }
+  }
+  throw new Error(
+    "The database has tables but no migration history, and its columns don't match any migration's schema. " +
+    "Bring it in line with one of the checked-in migrations, or record the applied ones in drizzle.__drizzle_migrations.",
+  );
+}
+
+async function readSchemaVersion(tx: DbTransaction): Promise<number> {
+  if (!(await tableExists(tx, "public.schema_version"))) return 0;
+  const [row] = await tx.select().from(schemaVersion).limit(1);
+  return row?.version ?? 0;
+}
+
+/**
+ * Brings the database up to this build's schema. Runs in one transaction
+ * under an advisory lock, so instances starting together migrate once and
+ * a failed migration leaves nothing half-applied. Throws if the database
+ * is at a newer version than this build knows about.
+ */
+export async function migrateDatabase(db: Database): Promise<void> {
+  const migrations = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+  const expectedVersion = migrations.length;
+
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('dream-machine:migrations'))`);
+
+    const currentVersion = await readSchemaVersion(tx);
+    if (currentVersion > expectedVersion) {
+      throw new Error(
+        `Database schema is at version ${currentVersion} but this build expects ${expectedVersion}. ` +
+        `Refusing to start against a newer schema; deploy a build that includes its migrations.`,
+      );
+    }
+
+    await tx.execute(sql`CREATE SCHEMA IF NOT EXISTS drizzle`);
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS drizzle.__drizzle_migrations (
+        id SERIAL PRIMARY KEY,
+        hash text NOT NULL,
+        created_at bigint
+      )
+    `);
+    const [lastApplied] = await tx
+      .select()
+      .from(appliedMigrations)
+      .orderBy(desc(appliedMigrations.createdAt))
+      .limit(1);
+
+    let appliedUpTo = lastApplied?.createdAt ?? 0;
+    // A pushed database: record the migrations it already reflects instead of running them
+    if (!lastApplied) {
+      const adopted = migrations.slice(0, await detectPushedMigrations(tx, migrations));
+      for (const migration of adopted) {
+        await tx.insert(appliedMigrations).values({ hash: migration.hash, createdAt: migration.folderMillis });
+        appliedUpTo = migration.folderMillis;
+      }
+      if (adopted.length > 0) {
+        log(`Adopted a pushed database at schema version ${adopted.length}`, "migrate");
+      }
+    }
+
+    const pending = migrations.filter(migration => migration.folderMillis > appliedUpTo);
+    for (const migration of pending) {
+      for (const statement of migration.sql) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.insert(appliedMigrations).values({ hash: migration.hash, createdAt: migration.folderMillis });
+    }
+
+    if (pending.length > 0 || currentVersion !== expectedVersion) {
+      await tx
+        .insert(schemaVersion)
+        .values({ id: 1, version: expectedVersion })
+        .onConflictDoUpdate({ target: schemaVersion.id, set: { version: expectedVersion, migratedAt: new Date() } });
+      log(`Migrated database schema to version ${expectedVersion} (${pending.length} applied)`, "migrate");
+    }
+  });
+}
@@ -0,0 +1,57 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { DreamItem } from "@shared/schema";
+import { STORAGE_DRIVERS } from "./db";
+import type { IStorage } from "./storage";
+
+const { fetchUrlPreview } = vi.hoisted(() => ({ fetchUrlPreview: vi.fn() }));
+vi.mock("./urlPreview", () => ({ fetchUrlPreview }));
+
+const drivers = STORAGE_DRIVERS.filter(driver => driver === "memory" || driver === "pglite");
+
+describe.each(drivers)("trackDreamPrices on the %s driver", driver => {
+  let storage: IStorage;
+  let trackDreamPrices: () => Promise<void>;
+  let userId: number;
+
+  beforeAll(async () => {
+    // Storage is picked once per module load, so load a fresh copy per driver
+    vi.resetModules();
+    vi.stubEnv("STORAGE_DRIVER", driver);
+    const storageModule = await import("./storage");
+    const { migrateDatabase } = await import("./migrate");
+    if (storageModule.database) await migrateDatabase(storageModule.database);
+    ({ trackDreamPrices } = await import("./priceTracking"));
+    storage = storageModule.storage;
+    userId = (await storage.createFirstAdmin({ username: "ann", passwordHash: "x" }))!.id;
+    vi.unstubAllEnvs();
+  });
+
+  // Runs the check with the page showing price, for a single tracked dream
+  async function checkPrice(cost: number, price: number): Promise<DreamItem> {
+    for (const tracked of await storage.getPriceTrackedDreamItems()) {
+      await storage.updateDreamItem(userId, tracked.id, { purchased: true });
+    }
+    const item = await storage.createDreamItem(userId, { name: "Bike", cost, url: "https://shop.example/bike", autoUpdateCost: true });
+    fetchUrlPreview.mockResolvedValueOnce({
+      preview: { url: item.url, title: "Bike", price, currency: "USD", imageUrl: null },
+    });
+    await trackDreamPrices();
+    return (await storage.getDreamItem(userId, item.id))!;
+  }
+
+  it("applies a price near the current cost", async () => {
+    const item = await checkPrice(1000, 850);
+    expect(item.cost).toBe(850);
+  });
+
+  it("records but doesn't apply a price far from the current cost", async () => {
+    const tooLow = await checkPrice(1000, 10);
+    const tooHigh = await checkPrice(1000, 129999);
+    expect(tooLow.cost).toBe(1000);
+    expect(tooHigh.cost).toBe(1000);
+
+    const history = await storage.getDreamPriceHistory(userId, tooLow.boardId!);
+    expect(history.filter(point => point.dreamItemId === tooLow.id).map(point => point.price)).toEqual([10]);
+    expect(history.filter(point => point.dreamItemId === tooHigh.id).map(point => point.price)).toEqual([129999]);
+  });
+});
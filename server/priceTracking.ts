@@ -0,0 +1,51 @@
+import cron from "node-cron";
+import { storage } from "./storage";
+import { fetchUrlPreview } from "./urlPreview";
+import { log } from "./log";
+
+// Pause between pages so a board full of links to one shop doesn't hammer it
+const REQUEST_SPACING_MS = 2000;
+
+// Re-reads the price on every unpurchased dream's link and records changes
+export async function trackDreamPrices(): Promise<void> {
+  const items = await storage.getPriceTrackedDreamItems();
+  let changed = 0;
+  let costsUpdated = 0;
+  let unpriced = 0;
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (i > 0) await new Promise(resolve => setTimeout(resolve, REQUEST_SPACING_MS));
+    try {
+      const result = await fetchUrlPreview(item.url!);
+      if ("error" in result || result.preview.price === null) {
+        unpriced++;
+        continue;
+      }
+      const check = await storage.recordDreamPrice(item.id, result.preview.price, result.preview.currency);
+      if (check.changed) changed++;
+      if (check.costUpdated) costsUpdated++;
+      if (check.costSkipped) {
+        log(`Left cost of dream item ${item.id} at ${item.cost}: ${result.preview.price} is too far off to apply`, "prices");
+      }
+    } catch (error) {
+      console.error(`Error tracking price for dream item ${item.id}:`, error);
+    }
+  }
+
+  if (items.length > 0) {
+    log(`Checked ${items.length} dream(s): ${changed} price change(s), ${costsUpdated} cost(s) updated, ${unpriced} without a price`, "prices");
+  }
+}
+
+const runTracking = () => {
+  trackDreamPrices().catch(error => {
+    console.error("Error tracking dream prices:", error);
+  });
+};
+
+// Daily at 05:00 server time. Unlike the trash purge there's no catch-up run
+// at startup, so restarts don't re-scrape every shop.
+export function startPriceTracking(): void {
+  cron.schedule("0 5 * * *", runTracking);
+}
@@ -0,0 +1,179 @@
+import type { Request, RequestHandler } from "express";
+import { storage } from "./storage";
+
+// Fixed-window rate limiting. Counters live in a RateLimitStore so they can be
+// kept in process memory (single instance, resets on restart) or in Postgres
+// (shared across instances and restarts). RATE_LIMIT_STORE picks one and
+// defaults to postgres.
+
+export interface RateLimitWindow {
+  count: number;
+  // Epoch ms when the current window ends
+  expiresAt: number;
+}
+
+export interface RateLimitStore {
+  // Counts one hit, opening a new window if the key has none or it lapsed
+  increment(key: string, windowMs: number): Promise<RateLimitWindow>;
+  get(key: string): Promise<RateLimitWindow | null>;
+  reset(key: string): Promise<void>;
+  cleanup(): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitWindow>();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitWindow> {
+    const now = Date.now();
+    const existing = this.windows.get(key);
+    if (existing && existing.expiresAt > now) {
+      existing.count++;
+      return { ...existing };
+    }
+    const window = { count: 1, expiresAt: now + windowMs };
+    this.windows.set(key, window);
+    return { ...window };
+  }
+
+  async get(key: string): Promise<RateLimitWindow | null> {
+    const window = this.windows.get(key);
+    if (!window || window.expiresAt <= Date.now()) return null;
+    return { ...window };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
+  }
+
+  async cleanup(): Promise<void> {
+    const now = Date.now();
+    const keysToDelete: string[] = [];
+    this.windows.forEach((window, key) => {
+      if (window.expiresAt <= now) {
+        keysToDelete.push(key);
+      }
+    });
+    keysToDelete.forEach(key => this.windows.delete(key));
+  }
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number): Promise<RateLimitWindow> {
+    const row = await storage.incrementRateLimit(key, windowMs, Date.now());
+    return { count: row.count, expiresAt: row.expiresAt };
+  }
+
+  async get(key: string): Promise<RateLimitWindow | null> {
+    const row = await storage.getRateLimit(key);
+    if (!row || row.expiresAt <= Date.now()) return null;
+    return { count: row.count, expiresAt: row.expiresAt };
+  }
+
+  async reset(key: string): Promise<void> {
+    await storage.deleteRateLimit(key);
+  }
+
+  async cleanup(): Promise<void> {
+    await storage.deleteExpiredRateLimits(Date.now());
+  }
+}
+
+function createRateLimitStore(): RateLimitStore {
+  const kind = process.env.RATE_LIMIT_STORE ?? "postgres";
+  if (kind === "memory") return new MemoryRateLimitStore();
+  if (kind !== "postgres") {
+    console.warn(`[rate-limit] Unknown RATE_LIMIT_STORE "${kind}", using postgres`);
+  }
+  return new PostgresRateLimitStore();
+}
+
+export const rateLimitStore = createRateLimitStore();
+
+// Clean up lapsed windows every hour
+setInterval(() => {
+  rateLimitStore.cleanup().catch(error => {
+    console.error("Error cleaning up rate limits:", error);
+  });
+}, 60 * 60 * 1000);
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs?: number;
+}
+
+export interface RateLimiter {
+  // Whether the key is still under the limit, without counting a hit
+  check(key: string): Promise<RateLimitResult>;
+  // Counts a hit and reports whether it was within the limit
+  consume(key: string): Promise<RateLimitResult>;
+  reset(key: string): Promise<void>;
+}
+
+interface RateLimiterOptions {
+  // Namespaces the keys so limiters sharing a store don't collide
+  name: string;
+  windowMs: number;
+  max: number;
+  store?: RateLimitStore;
+}
+
+export function createRateLimiter({ name, windowMs, max, store = rateLimitStore }: RateLimiterOptions): RateLimiter {
+  const storeKey = (key: string) => `${name}:${key}`;
+  const toResult = (window: RateLimitWindow | null, limit: number): RateLimitResult => {
+    if (!window || window.count <= limit) return { allowed: true };
+    return { allowed: false, retryAfterMs: Math.max(0, window.expiresAt - Date.now()) };
+  };
+
+  return {
+    // A check passes while fewer than max hits are recorded, so the next one still fits
+    check: async (key) => toResult(await store.get(storeKey(key)), max - 1),
+    consume: async (key) => toResult(await store.increment(storeKey(key), windowMs), max),
+    reset: (key) => store.reset(storeKey(key)),
+  };
+}
+
+// Prefer the user so people behind one NAT don't share a budget
+const defaultRequestKey = (req: Request): string =>
+  (req as any).userId !== undefined ? `user:${(req as any).userId}` : `ip:${req.ip}`;
+
+interface RateLimitMiddlewareOptions extends RateLimiterOptions {
+  keyFor?: (req: Request) => string;
+}
+
+/**
+ * Middleware that answers 429 with Retry-After once a client exceeds max
+ * requests per window. Mount it after isAuthenticated to key by user.
+ */
+export function rateLimit({ keyFor = defaultRequestKey, ...options }: RateLimitMiddlewareOptions): RequestHandler {
+  const limiter = createRateLimiter(options);
+  return async (req, res, next) => {
+    let result: RateLimitResult;
+    try {
+      result = await limiter.consume(keyFor(req));
+    } catch (error) {
+      // Don't take writes down with the limiter
+      console.error("Error checking rate limit:", error);
+      return next();
+    }
+
+    if (!result.allowed) {
+      const retryAfterSec = Math.ceil((result.retryAfterMs || 0) / 1000);
+      res.setHeader("Retry-After", retryAfterSec.toString());
+      return res.status(429).json({ error: `Too many requests. Try again in ${retryAfterSec} seconds.` });
+    }
+    next();
+  };
+}
+
+/**
+ * Value for Express's "trust proxy" setting from TRUST_PROXY: "true"/"false",
+ * a hop count, or a comma-separated list of addresses/subnets. Without it
+ * req.ip is the immediate peer, which behind a proxy is the proxy itself.
+ */
+export function getTrustProxySetting(): boolean | number | string {
+  const value = process.env.TRUST_PROXY?.trim();
+  if (!value || value === "false") return false;
+  if (value === "true") return true;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  return value;
+}
@@ -0,0 +1,19 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { RequestHandler } from "express";
+
+// Per-request values the storage layer needs for audit rows but that aren't
+// worth threading through every storage method.
+interface RequestContext {
+  ip: string | null;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export const requestContextMiddleware: RequestHandler = (req, _res, next) => {
+  requestContext.run({ ip: req.ip || req.socket.remoteAddress || null }, next);
+};
+
+// Null outside a request, e.g. from the daemon or a script
+export function getRequestIp(): string | null {
+  return requestContext.getStore()?.ip ?? null;
+}
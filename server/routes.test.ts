@@ -0,0 +1,670 @@
+import crypto from "crypto";
+import express from "express";
+import fs from "fs/promises";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type {
+  ActiveSession,
+  AuditEvent,
+  BalanceEntry,
+  Board,
+  DreamImportResult,
+  DreamItem,
+  DreamPricePoint,
+  InsertDreamItem,
+  PlanBaseline,
+  RestoreSummary,
+  UploadTarget,
+  UserSettings,
+} from "@shared/schema";
+import type { PlanTrackingPoint, ProjectionResult } from "@shared/projection";
+import type { AuthTokens } from "./auth";
+import { STORAGE_DRIVERS } from "./db";
+import type { IStorage } from "./storage";
+
+// Market data comes from outside services and isn't under test here
+vi.mock("./aurora/parallax", () => ({ getActivePredictions: vi.fn(), getRecentPredictions: vi.fn() }));
+vi.mock("./aurora/reservoir", () => ({ fetchQuote: vi.fn(), fetchMultipleQuotes: vi.fn() }));
+
+const ADMIN = { username: "admin", password: "admin-password" };
+
+// Auth routes fail with a message, the rest with an error
+interface ErrorBody {
+  error?: string;
+  message?: string;
+}
+
+interface LoginBody extends Partial<AuthTokens> {
+  success: boolean;
+  username?: string;
+  totpRequired?: boolean;
+}
+
+interface CurrentUser {
+  username: string;
+  isAdmin: boolean;
+  totpEnabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TotpSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+interface PlanTracking {
+  baseline: PlanBaseline;
+  series: PlanTrackingPoint[];
+  variance: { amount: number; percent: number };
+}
+
+interface CalendarOverride {
+  date: string;
+  dayType: string;
+}
+
+interface ApiResponse<T> {
+  status: number;
+  headers: Headers;
+  // Parsed when the route answered with JSON, otherwise null
+  body: T;
+  text: string;
+}
+
+interface RequestOptions {
+  token?: string;
+  body?: unknown;
+  // Sent as-is instead of a JSON body
+  file?: { data: string | Buffer; type: string };
+}
+
+// RFC 6238 written out again, so the tests check what an authenticator app computes
+function totpCode(secret: string, step: number): string {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+  const bits = Array.from(secret, char => alphabet.indexOf(char).toString(2).padStart(5, "0")).join("");
+  const key = Buffer.from((bits.match(/.{8}/g) ?? []).map(byte => parseInt(byte, 2)));
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = crypto.createHmac("sha1", key).update(counter).digest();
+  const offset = digest[digest.length - 1] & 15;
+  return String((digest.readUInt32BE(offset) & 0x7fffffff) % 1_000_000).padStart(6, "0");
+}
+
+const currentTotpStep = () => Math.floor(Date.now() / 30_000);
+
+const solidPng = (background: string) =>
+  sharp({ create: { width: 8, height: 8, channels: 3, background } }).png().toBuffer();
+
+// Every driver that runs without an outside database
+const drivers = STORAGE_DRIVERS.filter(driver => driver === "memory" || driver === "pglite");
+
+describe.each(drivers)("routes on the %s driver", driver => {
+  let server: Server;
+  let storage: IStorage;
+  let uploadsDir = "";
+  let baseUrl = "";
+  let adminToken = "";
+
+  async function api<T = ErrorBody>(method: string, path: string, { token, body, file }: RequestOptions = {}): Promise<ApiResponse<T>> {
+    const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+    if (file) headers["Content-Type"] = file.type;
+    else if (body !== undefined) headers["Content-Type"] = "application/json";
+
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers,
+      body: file ? file.data : body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const text = await res.text();
+    const isJson = text !== "" && (res.headers.get("content-type") ?? "").includes("json");
+    return { status: res.status, headers: res.headers, body: isJson ? JSON.parse(text) : null, text };
+  }
+
+  async function login(username: string, password: string): Promise<AuthTokens> {
+    const res = await api<AuthTokens>("POST", "/api/login", { body: { username, password } });
+    expect(res.status).toBe(200);
+    return res.body;
+  }
+
+  async function registerUser(username: string): Promise<string> {
+    const invite = await api<{ code: string }>("POST", "/api/invites", { token: adminToken });
+    const res = await api<AuthTokens>("POST", "/api/register", {
+      body: { username, password: `${username}-password`, inviteCode: invite.body.code },
+    });
+    expect(res.status).toBe(201);
+    return res.body.token;
+  }
+
+  async function getBoards(token: string): Promise<Board[]> {
+    return (await api<Board[]>("GET", "/api/boards", { token })).body;
+  }
+
+  async function getDreams(token: string, boardId: number): Promise<DreamItem[]> {
+    return (await api<DreamItem[]>("GET", `/api/boards/${boardId}/dream-items`, { token })).body;
+  }
+
+  async function createBoard(token: string, name: string): Promise<Board> {
+    const res = await api<Board>("POST", "/api/boards", { token, body: { name } });
+    expect(res.status).toBe(201);
+    return res.body;
+  }
+
+  async function createDream(token: string, boardId: number, name: string, fields: Partial<InsertDreamItem> & { imageUrl?: string } = {}): Promise<DreamItem> {
+    const res = await api<DreamItem>("POST", `/api/boards/${boardId}/dream-items`, { token, body: { name, cost: 1000, ...fields } });
+    expect(res.status).toBe(201);
+    return res.body;
+  }
+
+  async function uploadImage(token: string): Promise<string> {
+    const png = await solidPng("teal");
+    const target = await api<UploadTarget>("POST", "/api/uploads", { token, body: { contentType: "image/png", size: png.length } });
+    const res = await api<{ key: string }>("PUT", target.body.url, { file: { data: png, type: "image/png" } });
+    expect(res.status).toBe(200);
+    return res.body.key;
+  }
+
+  const imageStatus = async (key: string) => (await api("GET", `/api/uploads/${key}`)).status;
+
+  beforeAll(async () => {
+    // Storage is picked once per module load, so load a fresh copy per driver
+    vi.resetModules();
+    uploadsDir = await fs.mkdtemp(path.join(os.tmpdir(), "routes-test-uploads-"));
+    vi.stubEnv("STORAGE_DRIVER", driver);
+    vi.stubEnv("UPLOADS_DIR", uploadsDir);
+    vi.stubEnv("APP_USERNAME", ADMIN.username);
+    vi.stubEnv("APP_PASSWORD", ADMIN.password);
+
+    const storageModule = await import("./storage");
+    const { migrateDatabase } = await import("./migrate");
+    const { registerRoutes } = await import("./routes");
+    if (storageModule.database) await migrateDatabase(storageModule.database);
+    storage = storageModule.storage;
+
+    const app = express();
+    app.use(express.json());
+    server = createServer(app);
+    await registerRoutes(server, app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    adminToken = (await login(ADMIN.username, ADMIN.password)).token;
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(uploadsDir, { recursive: true, force: true });
+  });
+
+  describe("auth", () => {
+    it("creates the admin from the environment", async () => {
+      const res = await api<CurrentUser>("GET", "/api/auth/user", { token: adminToken });
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ username: ADMIN.username, isAdmin: true });
+    });
+
+    it("refuses a wrong password and a missing token", async () => {
+      expect((await api("POST", "/api/login", { body: { username: ADMIN.username, password: "wrong-password" } })).status).toBe(401);
+      expect((await api("GET", "/api/boards")).status).toBe(401);
+    });
+
+    it("registers only with an invite", async () => {
+      const res = await api("POST", "/api/register", { body: { username: "uninvited", password: "uninvited-password" } });
+      expect(res.status).toBe(403);
+
+      const token = await registerUser("invited");
+      const user = await api<CurrentUser>("GET", "/api/auth/user", { token });
+      expect(user.body).toMatchObject({ username: "invited", isAdmin: false });
+    });
+  });
+
+  describe("sessions", () => {
+    it("lists a user's sessions and revokes one", async () => {
+      const first = await registerUser("traveller");
+      const second = (await login("traveller", "traveller-password")).token;
+
+      const sessions = await api<ActiveSession[]>("GET", "/api/auth/sessions", { token: second });
+      expect(sessions.body.map(session => session.current).sort()).toEqual([false, true]);
+      const other = sessions.body.find(session => !session.current)!;
+      expect(first.startsWith(`${other.id}.`)).toBe(true);
+
+      expect((await api("DELETE", `/api/auth/sessions/${other.id}`, { token: second })).status).toBe(204);
+      expect((await api("GET", "/api/boards", { token: first })).status).toBe(401);
+      expect((await api("GET", "/api/boards", { token: second })).status).toBe(200);
+    });
+
+    it("logs out everywhere", async () => {
+      const first = await registerUser("leaver");
+      const second = (await login("leaver", "leaver-password")).token;
+
+      const res = await api<{ success: boolean; revoked: number }>("POST", "/api/auth/logout-all", { token: second });
+      expect(res.body).toEqual({ success: true, revoked: 2 });
+      expect((await api("GET", "/api/boards", { token: first })).status).toBe(401);
+      expect((await api("GET", "/api/boards", { token: second })).status).toBe(401);
+    });
+
+    it("rotates the refresh token and refuses the old one", async () => {
+      await registerUser("refresher");
+      const tokens = await login("refresher", "refresher-password");
+
+      const refreshed = await api<AuthTokens>("POST", "/api/auth/refresh", { body: { refreshToken: tokens.refreshToken } });
+      expect(refreshed.status).toBe(200);
+      expect(refreshed.body.refreshToken).not.toBe(tokens.refreshToken);
+      expect((await api("GET", "/api/boards", { token: refreshed.body.token })).status).toBe(200);
+
+      expect((await api("POST", "/api/auth/refresh", { body: { refreshToken: tokens.refreshToken } })).status).toBe(401);
+    });
+  });
+
+  describe("two-factor", () => {
+    it("asks for a code at login once enrolled, and takes each recovery code once", async () => {
+      const token = await registerUser("guarded");
+      const setup = await api<TotpSetup>("POST", "/api/auth/totp/setup", { token });
+      expect(setup.body.otpauthUri).toContain(`secret=${setup.body.secret}`);
+
+      const step = currentTotpStep();
+      const enabled = await api<{ recoveryCodes: string[] }>("POST", "/api/auth/totp/enable", {
+        token,
+        body: { code: totpCode(setup.body.secret, step) },
+      });
+      expect(enabled.status).toBe(200);
+      const [recoveryCode] = enabled.body.recoveryCodes;
+
+      const credentials = { username: "guarded", password: "guarded-password" };
+      const withoutCode = await api<LoginBody>("POST", "/api/login", { body: credentials });
+      expect(withoutCode.body).toEqual({ success: false, totpRequired: true });
+
+      // The enrolment spent its step; the next one is still inside the window
+      const replayed = await api("POST", "/api/login", { body: { ...credentials, totpCode: totpCode(setup.body.secret, step) } });
+      expect(replayed.status).toBe(401);
+      const withCode = await api<LoginBody>("POST", "/api/login", { body: { ...credentials, totpCode: totpCode(setup.body.secret, step + 1) } });
+      expect(withCode.body).toMatchObject({ success: true, username: "guarded" });
+
+      expect((await api("POST", "/api/login", { body: { ...credentials, totpCode: recoveryCode } })).status).toBe(200);
+      expect((await api("POST", "/api/login", { body: { ...credentials, totpCode: recoveryCode } })).status).toBe(401);
+      const user = await api<CurrentUser>("GET", "/api/auth/user", { token });
+      expect(user.body).toMatchObject({ totpEnabled: true, recoveryCodesRemaining: enabled.body.recoveryCodes.length - 1 });
+    });
+  });
+
+  describe("boards", () => {
+    it("gives a new user one default board", async () => {
+      const token = await registerUser("boardless");
+      expect((await getBoards(token)).map(board => board.name)).toEqual(["Dream Board"]);
+    });
+
+    it("creates, renames and lists boards", async () => {
+      const token = await registerUser("planner");
+      const board = await createBoard(token, "Cars");
+
+      const renamed = await api<Board>("PATCH", `/api/boards/${board.id}`, { token, body: { name: "Fast Cars" } });
+      expect(renamed.status).toBe(200);
+      expect(renamed.body.name).toBe("Fast Cars");
+
+      expect((await getBoards(token)).map(b => b.name)).toEqual(["Dream Board", "Fast Cars"]);
+    });
+
+    it("won't delete the only board", async () => {
+      const token = await registerUser("single");
+      const [board] = await getBoards(token);
+      expect((await api("DELETE", `/api/boards/${board.id}`, { token })).status).toBe(409);
+    });
+
+    it("hides other users' boards", async () => {
+      const owner = await registerUser("owner");
+      const stranger = await registerUser("stranger");
+      const board = await createBoard(owner, "Private");
+
+      expect((await api("GET", `/api/boards/${board.id}/dream-items`, { token: stranger })).status).toBe(404);
+      expect((await api("PATCH", `/api/boards/${board.id}`, { token: stranger, body: { name: "Mine" } })).status).toBe(404);
+      expect((await api("DELETE", `/api/boards/${board.id}`, { token: stranger })).status).toBe(404);
+    });
+
+    it("moves a deleted board's dreams to the Trash on another board", async () => {
+      const token = await registerUser("mover");
+      const [fallback] = await getBoards(token);
+      const board = await createBoard(token, "Boats");
+      const dream = await createDream(token, board.id, "Yacht");
+
+      expect((await api("DELETE", `/api/boards/${board.id}`, { token })).status).toBe(204);
+
+      const trash = await api<DreamItem[]>("GET", `/api/boards/${fallback.id}/dream-items/trash`, { token });
+      expect(trash.body.map(item => item.id)).toEqual([dream.id]);
+      const restored = await api<DreamItem>("POST", `/api/dream-items/${dream.id}/restore`, { token });
+      expect(restored.body).toMatchObject({ name: "Yacht", boardId: fallback.id });
+    });
+  });
+
+  describe("dreams", () => {
+    it("creates, updates and lists dreams on a board", async () => {
+      const token = await registerUser("dreamer");
+      const [board] = await getBoards(token);
+      const dream = await createDream(token, board.id, "Watch");
+
+      const updated = await api<DreamItem>("PATCH", `/api/dream-items/${dream.id}`, { token, body: { cost: 2500, purchased: true } });
+      expect(updated.status).toBe(200);
+      expect(updated.body).toMatchObject({ name: "Watch", cost: 2500, purchased: true });
+
+      expect(await getDreams(token, board.id)).toEqual([updated.body]);
+    });
+
+    it("clears a dream's link when sent null or an empty string", async () => {
+      const token = await registerUser("unlinker");
+      const [board] = await getBoards(token);
+      const dream = await createDream(token, board.id, "Lamp");
+      const setUrl = async (url: string | null) =>
+        (await api<DreamItem>("PATCH", `/api/dream-items/${dream.id}`, { token, body: { url } })).body.url;
+
+      expect(await setUrl("https://shop.example/lamp")).toBe("https://shop.example/lamp");
+      expect(await setUrl(null)).toBeNull();
+
+      await setUrl("https://shop.example/lamp");
+      expect(await setUrl("")).toBeNull();
+    });
+
+    it("moves a deleted dream to the Trash and restores it", async () => {
+      const token = await registerUser("trasher");
+      const [board] = await getBoards(token);
+      const dream = await createDream(token, board.id, "Guitar");
+      const getTrash = async () => (await api<DreamItem[]>("GET", `/api/boards/${board.id}/dream-items/trash`, { token })).body;
+
+      expect((await api("DELETE", `/api/dream-items/${dream.id}`, { token })).status).toBe(204);
+      expect(await getDreams(token, board.id)).toEqual([]);
+      expect((await getTrash()).map(item => item.name)).toEqual(["Guitar"]);
+
+      expect((await api("POST", `/api/dream-items/${dream.id}/restore`, { token })).status).toBe(200);
+      expect(await getTrash()).toEqual([]);
+      expect(await getDreams(token, board.id)).toHaveLength(1);
+    });
+
+    it("won't touch another user's dream", async () => {
+      const owner = await registerUser("keeper");
+      const stranger = await registerUser("snoop");
+      const [board] = await getBoards(owner);
+      const dream = await createDream(owner, board.id, "Camera");
+
+      expect((await api("PATCH", `/api/dream-items/${dream.id}`, { token: stranger, body: { cost: 1 } })).status).toBe(404);
+      expect((await api("DELETE", `/api/dream-items/${dream.id}`, { token: stranger })).status).toBe(404);
+    });
+  });
+
+  describe("audit log", () => {
+    it("records each change to a dream and reverts an edit", async () => {
+      const token = await registerUser("historian");
+      const [board] = await getBoards(token);
+      const dream = await createDream(token, board.id, "Piano");
+      await api("PATCH", `/api/dream-items/${dream.id}`, { token, body: { cost: 4000 } });
+
+      const events = await api<AuditEvent[]>("GET", `/api/audit?entity=dream_item&entityId=${dream.id}`, { token });
+      expect(events.body.map(event => event.action).sort()).toEqual(["create", "update"]);
+      const update = events.body.find(event => event.action === "update")!;
+      const create = events.body.find(event => event.action === "create")!;
+
+      const reverted = await api<DreamItem>("POST", `/api/dream-items/${dream.id}/revert`, { token, body: { eventId: update.id } });
+      expect(reverted.status).toBe(200);
+      expect(reverted.body.cost).toBe(1000);
+
+      const notAnEdit = await api("POST", `/api/dream-items/${dream.id}/revert`, { token, body: { eventId: create.id } });
+      expect(notAnEdit.status).toBe(400);
+      expect(notAnEdit.body.error).toBe("Only edits can be reverted");
+    });
+
+    it("only shows a user their own history", async () => {
+      const owner = await registerUser("diarist");
+      const [board] = await getBoards(owner);
+      const dream = await createDream(owner, board.id, "Diary");
+
+      const stranger = await registerUser("reader");
+      const events = await api<AuditEvent[]>("GET", `/api/audit?entity=dream_item&entityId=${dream.id}`, { token: stranger });
+      expect(events.body).toEqual([]);
+    });
+  });
+
+  describe("import and export", () => {
+    it("imports a CSV, reporting bad rows and updating matches on a second run", async () => {
+      const token = await registerUser("importer");
+      const [board] = await getBoards(token);
+      const csv = "name,cost,category\r\nBike,500,Toys\r\nBroken,-1,Toys\r\n";
+      const importCsv = (dryRun: boolean) =>
+        api<DreamImportResult>("POST", `/api/dream-items/import?format=csv&boardId=${board.id}&dryRun=${dryRun}`, {
+          token,
+          file: { data: csv, type: "text/csv" },
+        });
+
+      expect((await importCsv(true)).body).toMatchObject({ dryRun: true, created: 1, updated: 0, failed: 1 });
+      expect(await getDreams(token, board.id)).toEqual([]);
+
+      expect((await importCsv(false)).body).toMatchObject({ dryRun: false, created: 1, updated: 0, failed: 1 });
+      expect((await importCsv(false)).body).toMatchObject({ created: 0, updated: 1, failed: 1 });
+      expect((await getDreams(token, board.id)).map(item => [item.name, item.cost, item.category])).toEqual([["Bike", 500, "Toys"]]);
+    });
+
+    it("exports a board as CSV or JSON", async () => {
+      const token = await registerUser("exporter");
+      const [board] = await getBoards(token);
+      await createDream(token, board.id, "Tent", { category: "Outdoors" });
+
+      const csv = await api("GET", `/api/dream-items/export?format=csv&boardId=${board.id}`, { token });
+      expect(csv.headers.get("content-type")).toContain("text/csv");
+      expect(csv.text).toBe("name,cost,category,iconType,url,purchased,hidden\r\nTent,1000,Outdoors,target,,false,false\r\n");
+
+      const json = await api<Partial<DreamItem>[]>("GET", `/api/dream-items/export?format=json&boardId=${board.id}`, { token });
+      expect(json.body).toEqual([{ name: "Tent", cost: 1000, category: "Outdoors", iconType: "target", url: null, purchased: false, hidden: false }]);
+    });
+  });
+
+  describe("backup and restore", () => {
+    it("puts the account back the way the archive has it", async () => {
+      const token = await registerUser("archivist");
+      await createDream(token, (await getBoards(token))[0].id, "Kept");
+      await api("POST", "/api/balance-entries", { token, body: { type: "deposit", amount: 700 } });
+      const archive = await api("GET", "/api/backup", { token });
+      expect(archive.status).toBe(200);
+
+      await createDream(token, (await getBoards(token))[0].id, "Extra");
+      await api("POST", "/api/balance-entries", { token, body: { type: "deposit", amount: 300 } });
+
+      const summary = await api<RestoreSummary>("POST", "/api/restore", { token, file: { data: archive.text, type: "application/json" } });
+      expect(summary.body).toMatchObject({ boards: 1, dreamItems: 1, balanceEntries: 1 });
+      const [board] = await getBoards(token);
+      expect((await getDreams(token, board.id)).map(item => item.name)).toEqual(["Kept"]);
+      const entries = await api<BalanceEntry[]>("GET", "/api/balance-entries", { token });
+      expect(entries.body.map(entry => entry.balanceAfter)).toEqual([700]);
+    });
+
+    it("refuses an archive from another version", async () => {
+      const token = await registerUser("time-traveller");
+      const res = await api("POST", "/api/restore", { token, body: { version: 999 } });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe("Unsupported backup version 999");
+    });
+
+    it("deletes images only the replaced dreams used", async () => {
+      const token = await registerUser("collector");
+      const archive = await api("GET", "/api/backup", { token });
+      const [board] = await getBoards(token);
+      const imageKey = await uploadImage(token);
+      await createDream(token, board.id, "Painting", { imageKey });
+
+      expect((await api("POST", "/api/restore", { token, file: { data: archive.text, type: "application/json" } })).status).toBe(200);
+      expect(await imageStatus(imageKey)).toBe(404);
+    });
+  });
+
+  describe("uploads", () => {
+    it("stores an image through a signed URL that works once", async () => {
+      const token = await registerUser("photographer");
+      const png = await solidPng("red");
+      const target = await api<UploadTarget>("POST", "/api/uploads", { token, body: { contentType: "image/png", size: png.length } });
+      expect(target.status).toBe(201);
+
+      expect((await api("PUT", target.body.url, { file: { data: png, type: "image/png" } })).status).toBe(200);
+      expect((await api("PUT", target.body.url, { file: { data: png, type: "image/png" } })).status).toBe(409);
+      const thumbnail = await api("GET", `/api/uploads/${target.body.key}/thumbnail`);
+      expect(thumbnail.status).toBe(200);
+      expect(thumbnail.headers.get("content-type")).toBe("image/webp");
+    });
+
+    it("refuses a file other than the one the URL was signed for", async () => {
+      const token = await registerUser("forger");
+      const png = await solidPng("blue");
+      const jpeg = await sharp(png).jpeg().toBuffer();
+
+      const sized = await api<UploadTarget>("POST", "/api/uploads", { token, body: { contentType: "image/png", size: png.length + 1 } });
+      expect((await api("PUT", sized.body.url, { file: { data: png, type: "image/png" } })).status).toBe(400);
+      const tampered = sized.body.url.replace(`size=${png.length + 1}`, `size=${png.length}`);
+      expect((await api("PUT", tampered, { file: { data: png, type: "image/png" } })).status).toBe(403);
+
+      const typed = await api<UploadTarget>("POST", "/api/uploads", { token, body: { contentType: "image/png", size: jpeg.length } });
+      const wrongType = await api("PUT", typed.body.url, { file: { data: jpeg, type: "image/png" } });
+      expect(wrongType.status).toBe(400);
+      expect(wrongType.body.error).toBe("File is image/jpeg, not image/png");
+    });
+
+    it("deletes a dream's old image when it gets a new one", async () => {
+      const token = await registerUser("redecorator");
+      const [board] = await getBoards(token);
+      const oldKey = await uploadImage(token);
+      const dream = await createDream(token, board.id, "Sofa", { imageKey: oldKey });
+
+      const newKey = await uploadImage(token);
+      expect((await api("PATCH", `/api/dream-items/${dream.id}`, { token, body: { imageKey: newKey } })).status).toBe(200);
+      await vi.waitFor(async () => expect(await imageStatus(oldKey)).toBe(404));
+      expect(await imageStatus(newKey)).toBe(200);
+    });
+  });
+
+  describe("price history and previews", () => {
+    it("lists the prices recorded for a board's dreams to its owner", async () => {
+      const token = await registerUser("shopper");
+      const [board] = await getBoards(token);
+      const dream = await createDream(token, board.id, "Drone", { url: "https://shop.example/drone" });
+      await storage.recordDreamPrice(dream.id, 950, "USD");
+
+      const history = await api<DreamPricePoint[]>("GET", `/api/boards/${board.id}/dream-items/price-history`, { token });
+      expect(history.body.map(point => [point.dreamItemId, point.price])).toEqual([[dream.id, 950]]);
+
+      const stranger = await registerUser("window-shopper");
+      expect((await api("GET", `/api/boards/${board.id}/dream-items/price-history`, { token: stranger })).status).toBe(404);
+    });
+
+    it("won't fetch from a private address or a non-web link", async () => {
+      const token = await registerUser("prober");
+      const preview = await api("POST", "/api/dream-items/preview", { token, body: { url: "http://10.0.0.1/admin" } });
+      expect(preview.status).toBe(422);
+      expect(preview.body.error).toBe("Couldn't read the page: 10.0.0.1 is a private address");
+      expect((await api("POST", "/api/dream-items/preview", { token, body: { url: "javascript:alert(1)" } })).status).toBe(400);
+
+      // A picture that can't be fetched leaves the dream without one
+      const [board] = await getBoards(token);
+      const dream = await createDream(token, board.id, "Router", { imageUrl: "http://10.0.0.1/router.png" });
+      expect(dream.imageKey).toBeNull();
+    });
+  });
+
+  describe("settings and balance", () => {
+    it("saves settings and validates them", async () => {
+      const token = await registerUser("tuner");
+      expect((await api("PATCH", "/api/settings", { token, body: { dailyWins: 2, riskPercent: 10 } })).status).toBe(200);
+      expect((await api<UserSettings>("GET", "/api/settings", { token })).body).toMatchObject({ dailyWins: 2, riskPercent: 10 });
+      expect((await api("PATCH", "/api/settings", { token, body: { dailyWins: 10 } })).status).toBe(400);
+    });
+
+    it("keeps a ledger behind the balance", async () => {
+      const token = await registerUser("saver");
+      const deposit = await api<BalanceEntry>("POST", "/api/balance-entries", { token, body: { type: "deposit", amount: 1000 } });
+      expect(deposit.status).toBe(201);
+      expect(deposit.body.balanceAfter).toBe(1000);
+      expect((await api("POST", "/api/balance-entries", { token, body: { type: "withdrawal", amount: 5000 } })).status).toBe(400);
+      const close = await api<BalanceEntry>("POST", "/api/balance-entries", { token, body: { type: "pnl_close", closingBalance: 1250 } });
+      expect(close.body).toMatchObject({ amount: 250, balanceAfter: 1250 });
+
+      const entries = await api<BalanceEntry[]>("GET", "/api/balance-entries", { token });
+      expect(entries.body.map(entry => entry.balanceAfter)).toEqual([1250, 1000]);
+      expect((await api<UserSettings>("GET", "/api/settings", { token })).body.currentBalance).toBe(1250);
+    });
+
+    it("saves a plan baseline and tracks the balance against it", async () => {
+      const token = await registerUser("tracker");
+      expect((await api<PlanBaseline | null>("GET", "/api/plan-baseline", { token })).body).toBeNull();
+      expect((await api("GET", "/api/plan-baseline/tracking", { token })).status).toBe(404);
+
+      await api("POST", "/api/balance-entries", { token, body: { type: "deposit", amount: 2000 } });
+      const baseline = await api<PlanBaseline>("POST", "/api/plan-baseline", { token, body: {} });
+      expect(baseline.status).toBe(201);
+      expect(baseline.body.startBalance).toBe(2000);
+
+      const tracking = await api<PlanTracking>("GET", "/api/plan-baseline/tracking", { token });
+      expect(tracking.body.baseline.id).toBe(baseline.body.id);
+      expect(tracking.body.series[0]).toMatchObject({ day: 0, projected: 2000, actual: 2000 });
+    });
+
+    it("projects the board from what is stored", async () => {
+      const token = await registerUser("forecaster");
+      const [board] = await getBoards(token);
+      const dream = await createDream(token, board.id, "Car", { cost: 100 });
+      await api("POST", "/api/balance-entries", { token, body: { type: "deposit", amount: 1000 } });
+
+      const projection = await api<ProjectionResult>("POST", "/api/projection", { token, body: { boardId: board.id, pathDays: 1 } });
+      expect(projection.status).toBe(200);
+      expect(projection.body.balancePath[0]).toBe(1000);
+      expect(projection.body.dreams.map(item => item.id)).toEqual([dream.id]);
+      expect((await api("POST", "/api/projection", { token, body: { boardId: 999999 } })).status).toBe(404);
+    });
+
+    it("projects from a stored balance of 0 rather than the default", async () => {
+      const token = await registerUser("blown");
+      expect((await api("PATCH", "/api/settings", { token, body: { currentBalance: 0 } })).status).toBe(200);
+
+      const projection = await api<ProjectionResult>("POST", "/api/projection", { token, body: { pathDays: 0 } });
+      expect(projection.status).toBe(200);
+      expect(projection.body.balancePath).toEqual([0]);
+    });
+  });
+
+  describe("calendar overrides", () => {
+    const override = { date: "2030-07-05", dayType: "HOLIDAY", note: "Office closed" };
+
+    it("are for admins only", async () => {
+      const token = await registerUser("trader");
+      expect((await api("POST", "/api/calendar/overrides", { token, body: override })).status).toBe(403);
+      expect((await api("DELETE", `/api/calendar/overrides/${override.date}`, { token })).status).toBe(403);
+    });
+
+    it("can be set and removed by an admin", async () => {
+      expect((await api("POST", "/api/calendar/overrides", { token: adminToken, body: override })).status).toBe(200);
+      const overrides = await api<CalendarOverride[]>("GET", "/api/calendar/overrides", { token: adminToken });
+      expect(overrides.body).toContainEqual(expect.objectContaining({ date: override.date, dayType: "HOLIDAY" }));
+
+      expect((await api("DELETE", `/api/calendar/overrides/${override.date}`, { token: adminToken })).status).toBe(204);
+      expect((await api("DELETE", `/api/calendar/overrides/${override.date}`, { token: adminToken })).status).toBe(404);
+    });
+  });
+
+  // Last: every request comes from the same address, so a lockout would fail
+  // any login after it
+  describe("rate limiting", () => {
+    it("limits two-factor code guesses per user", async () => {
+      const token = await registerUser("guesser");
+      await api("POST", "/api/auth/totp/setup", { token });
+      for (let attempt = 0; attempt < 5; attempt++) {
+        expect((await api("POST", "/api/auth/totp/enable", { token, body: { code: "000000" } })).status).toBe(400);
+      }
+      expect((await api("POST", "/api/auth/totp/enable", { token, body: { code: "000000" } })).status).toBe(429);
+    });
+
+    it("locks out an address after repeated failed logins", async () => {
+      await login(ADMIN.username, ADMIN.password);
+      for (let attempt = 0; attempt < 5; attempt++) {
+        expect((await api("POST", "/api/login", { body: { username: ADMIN.username, password: "wrong-password" } })).status).toBe(401);
+      }
+      const blocked = await api("POST", "/api/login", { body: ADMIN });
+      expect(blocked.status).toBe(429);
+      expect(Number(blocked.headers.get("retry-after"))).toBeGreaterThan(0);
+    });
+  });
+});
@@ -1,28 +1,50 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import type { Server } from "http";
 import { storage } from "./storage";
-import { insertDreamItemSchema } from "@shared/schema";
+import { insertDreamItemSchema, insertPlanBaselineSchema, insertBoardSchema, BALANCE_ENTRY_TYPES, AUDIT_ENTITIES, DREAM_TRANSFER_FORMATS, BACKUP_ARCHIVE_VERSION, backupArchiveSchema, UPLOAD_IMAGE_TYPES, MAX_UPLOAD_BYTES, type ActiveSession, type InsertDreamItem, type DreamImportResult, type DreamImportRow, type UploadTarget, type DreamUrlPreview } from "@shared/schema";
 import { z } from "zod";
-import { setupAuth, isAuthenticated, createAuthToken, invalidateToken, checkRateLimit, recordLoginAttempt, loginSchema } from "./auth";
-import { sanitizeName, sanitizeUrl } from "./sanitize";
+import {
+  setupAuth, isAuthenticated, isAuthenticatedForTotpSetup, requireAdmin, createAuthTokens, refreshAuthTokens, getClientInfo, invalidateToken,
+  checkLoginRateLimit, recordLoginAttempt, totpRateLimiter, loginSchema, registerSchema, refreshTokenSchema, totpCodeSchema, disableTotpSchema,
+  hashPassword, verifyPassword, verifySecondFactor, isTotpRequired, bootstrapAdminFromEnv
+} from "./auth";
+import { generateTotpSecret, getTotpUri, verifyTotp, generateRecoveryCodes, hashRecoveryCode } from "./totp";
+import QRCode from "qrcode";
+import crypto from "crypto";
+import { sanitizeName, sanitizeUrl, sanitizeString } from "./sanitize";
+import { rateLimit } from "./rateLimit";
+import { requestContextMiddleware } from "./requestContext";
+import { serializeDreamItems, parseDreamImport, prepareImportRecord } from "./dreamTransfer";
+import { createBackupArchive, restoreBackupArchive } from "./backup";
+import { createUploadTarget, verifyUploadSignature, detectImageType, saveUploadedImage, readUploadedImage, uploadExists, releaseUploadedImage } from "./uploads";
+import { fetchUrlPreview, importImageFromUrl } from "./urlPreview";
+import { formatDateKey } from "@shared/calendar";
+import { projectDreamBoard, getPlanTrackingSeries, resolveProjectionConstants, DEFAULT_PROJECTION_CONSTANTS, RISK_PCT, MAX_PROJECTION_DAYS } from "@shared/projection";
 import { MarketTime } from "./aurora/time";
 import { MarketCalendar } from "./aurora/calendar";
 import { getActivePredictions, getRecentPredictions } from "./aurora/parallax";
 import { fetchQuote, fetchMultipleQuotes } from "./aurora/reservoir";
 
-const VALID_USERNAME = process.env.APP_USERNAME;
-const VALID_PASSWORD = process.env.APP_PASSWORD;
+const INVITE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
-console.log(`[auth] Credentials loaded: username=${VALID_USERNAME ? 'SET' : 'NOT_SET'}, password=${VALID_PASSWORD ? 'SET' : 'NOT_SET'}`);
-
-if (!VALID_USERNAME || !VALID_PASSWORD) {
-  console.warn("WARNING: APP_USERNAME and/or APP_PASSWORD not set. Authentication will not work.");
-}
+// Per-user budget for routes that write dreams or settings
+const writeRateLimit = rateLimit({ name: "write", windowMs: 60 * 1000, max: 30 });
 
 const updateSettingsSchema = z.object({
   currentBalance: z.number().min(0).optional(),
   ultimateGoal: z.number().min(1000).optional(),
   originBalance: z.number().min(1).optional(),
+  taxRate: z.number().min(0).max(0.99).optional(),
+  growthRate: z.number().gt(1).max(10).optional(),
+  riskPercent: z.number().gt(0).max(100).optional(),
+  maxRisk: z.number().positive().optional(),
+  housesMultiplier: z.number().min(1).max(100).optional(),
+  defaultMultiplier: z.number().min(1).max(100).optional(),
+  maxBuffer: z.number().min(0).optional(),
+  halfDayWeight: z.number().min(0).max(1).optional(),
+  dailyWins: z.number().min(0.5).max(3).optional(),
+  profitTarget: z.number().min(0.25).max(2).optional(),
+  dreamFeedbackMode: z.enum(["buyAsYouGo", "waitTillEnd"]).optional(),
 });
 
 const updateDreamItemSchema = z.object({
@@ -31,6 +53,135 @@ const updateDreamItemSchema = z.object({
   purchased: z.boolean().optional(),
   iconType: z.string().optional(),
   url: z.string().nullable().optional(),
+  hidden: z.boolean().optional(),
+  boardId: z.number().int().optional(),
+  imageKey: z.string().uuid().nullable().optional(),
+  autoUpdateCost: z.boolean().optional(),
+});
+
+const dreamVisibilitySchema = z.object({
+  hidden: z.boolean(),
+  ids: z.array(z.number().int()).min(1).optional(),
+  category: z.string().min(1).optional(),
+  boardId: z.number().int().optional(),
+});
+
+const updateBoardSchema = insertBoardSchema.partial();
+
+const auditQuerySchema = z.object({
+  entity: z.enum(AUDIT_ENTITIES).optional(),
+  entityId: z.coerce.number().int().optional(),
+  since: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+const revertDreamItemSchema = z.object({
+  eventId: z.number().int(),
+});
+
+// imageUrl is a picture from the preview, copied into uploads as the dream is saved
+const createDreamItemSchema = insertDreamItemSchema.extend({
+  imageUrl: z.string().url().max(2048).optional(),
+});
+
+// Board-scoped creates take the board from the URL
+const boardDreamItemSchema = createDreamItemSchema.omit({ boardId: true });
+
+const dreamExportQuerySchema = z.object({
+  format: z.enum(DREAM_TRANSFER_FORMATS).default("csv"),
+  boardId: z.coerce.number().int().optional(),
+});
+
+const dreamImportQuerySchema = z.object({
+  format: z.enum(DREAM_TRANSFER_FORMATS),
+  boardId: z.coerce.number().int(),
+  dryRun: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+});
+
+// Import and restore bodies are the raw file, sent as text so they skip the
+// JSON parser's 100kb limit
+const importBodyParser = express.text({ type: () => true, limit: "1mb" });
+const restoreBodyParser = express.text({ type: () => true, limit: "10mb" });
+
+const dreamPreviewSchema = z.object({
+  url: z.string().min(1).max(2048),
+});
+
+// Each preview fetches someone else's page, so keep the budget small
+const previewRateLimit = rateLimit({ name: "preview", windowMs: 60 * 1000, max: 10 });
+
+const uploadRequestSchema = z.object({
+  contentType: z.enum(UPLOAD_IMAGE_TYPES),
+  size: z.number().int().positive().max(MAX_UPLOAD_BYTES),
+});
+
+const uploadKeySchema = z.string().uuid();
+
+// Signed PUTs carry no session, so they're budgeted per address
+const uploadRateLimit = rateLimit({ name: "upload", windowMs: 60 * 1000, max: 30 });
+const uploadBodyParser = express.raw({ type: () => true, limit: MAX_UPLOAD_BYTES });
+
+// A small application/json body has already been parsed by the global parser
+const readFileBody = (req: any): string =>
+  typeof req.body === "string" ? req.body : JSON.stringify(req.body);
+
+// Deposits and withdrawals take a positive amount; P&L closes and adjustments are
+// signed. A P&L close may give the closing balance instead and let the server
+// work out the day's change.
+const balanceEntryRequestSchema = z.object({
+  type: z.enum(BALANCE_ENTRY_TYPES),
+  amount: z.number().finite().optional(),
+  closingBalance: z.number().min(0).optional(),
+  note: z.string().max(500).optional(),
+})
+  .refine(d => (d.amount === undefined) !== (d.closingBalance === undefined), {
+    message: "Provide exactly one of amount or closingBalance",
+  })
+  .refine(d => d.closingBalance === undefined || d.type === "pnl_close", {
+    message: "closingBalance is only valid for pnl_close entries",
+  })
+  .refine(d => (d.type !== "deposit" && d.type !== "withdrawal") || (d.amount ?? 0) > 0, {
+    message: "Deposits and withdrawals take a positive amount",
+  });
+
+const projectionRequestSchema = z.object({
+  boardId: z.number().int().optional(),
+  settings: z.object({
+    currentBalance: z.number().min(0).optional(),
+    ultimateGoal: z.number().min(1000).optional(),
+    originBalance: z.number().min(1).optional(),
+    dailyWins: z.number().min(0).max(10).optional(),
+    profitTarget: z.number().min(0).max(10).optional(),
+    riskPercent: z.number().min(0).max(100).optional(),
+    feedbackMode: z.enum(["buyAsYouGo", "waitTillEnd"]).optional(),
+  }).default({}),
+  dreams: z.array(z.object({
+    id: z.number().int(),
+    cost: z.number().min(0),
+    category: z.string().optional(),
+    purchased: z.boolean().optional(),
+  })).optional(),
+  pathDays: z.number().int().min(0).max(MAX_PROJECTION_DAYS).default(365),
+});
+
+const MAX_CALENDAR_SPAN_DAYS = 366 * 50;
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const calendarQuerySchema = z.object({
+  from: dateKeySchema,
+  to: dateKeySchema,
+})
+  .refine(d => d.from <= d.to, { message: "from must not be after to" })
+  .refine(d => (Date.parse(d.to) - Date.parse(d.from)) / 86400000 <= MAX_CALENDAR_SPAN_DAYS, {
+    message: "Range may span at most 50 years",
+  });
+
+// WEEKEND is implied by the date, so it cannot be configured
+const calendarOverrideSchema = z.object({
+  date: dateKeySchema,
+  dayType: z.enum(["HOLIDAY", "HALF_DAY", "REGULAR"]),
+  note: z.string().max(200).optional(),
 });
 
 export async function registerRoutes(
@@ -39,52 +190,514 @@ export async function registerRoutes(
 ): Promise<Server> {
   
   setupAuth(app);
+  app.use(requestContextMiddleware);
+
+  try {
+    await bootstrapAdminFromEnv();
+  } catch (error) {
+    console.error("Error creating admin user from environment:", error);
+  }
+
+  try {
+    await MarketCalendar.load();
+  } catch (error) {
+    console.error("Error loading market calendar overrides, using NYSE rules only:", error);
+  }
   
-  app.post('/api/login', (req, res) => {
+  app.post('/api/login', async (req, res) => {
     const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
     
-    const rateLimitResult = checkRateLimit(clientIp);
-    if (!rateLimitResult.allowed) {
-      const retryAfterSec = Math.ceil((rateLimitResult.retryAfterMs || 0) / 1000);
-      res.setHeader('Retry-After', retryAfterSec.toString());
-      return res.status(429).json({ 
-        message: `Too many login attempts. Try again in ${Math.ceil(retryAfterSec / 60)} minutes.` 
-      });
-    }
-    
     const parseResult = loginSchema.safeParse(req.body);
     if (!parseResult.success) {
       return res.status(400).json({ message: "Invalid request format" });
     }
     
-    const { username, password } = parseResult.data;
+    const { username, password, totpCode } = parseResult.data;
+    
+    try {
+      const rateLimitResult = await checkLoginRateLimit(clientIp, username);
+      if (!rateLimitResult.allowed) {
+        const retryAfterSec = Math.ceil((rateLimitResult.retryAfterMs || 0) / 1000);
+        res.setHeader('Retry-After', retryAfterSec.toString());
+        return res.status(429).json({ 
+          message: `Too many login attempts. Try again in ${Math.ceil(retryAfterSec / 60)} minutes.` 
+        });
+      }
+      
+      const user = await storage.getUserByUsername(username);
+      if (user && await verifyPassword(password, user.passwordHash)) {
+        // Second step: the client re-sends the credentials along with the code
+        if (user.totpEnabled) {
+          if (!totpCode) {
+            return res.json({ success: false, totpRequired: true });
+          }
+          if (!(await verifySecondFactor(user, totpCode))) {
+            await recordLoginAttempt(clientIp, username, false);
+            return res.status(401).json({ message: "Invalid two-factor code", totpRequired: true });
+          }
+        }
+        await recordLoginAttempt(clientIp, username, true);
+        const tokens = await createAuthTokens(user, getClientInfo(req));
+        res.json({ success: true, username: user.username, ...tokens });
+      } else {
+        await recordLoginAttempt(clientIp, username, false);
+        res.status(401).json({ message: "Invalid username or password" });
+      }
+    } catch (error) {
+      console.error("Error logging in:", error);
+      res.status(500).json({ message: "Failed to log in" });
+    }
+  });
+
+  // Needs an admin-issued invite code; the admin itself comes from
+  // APP_USERNAME/APP_PASSWORD at startup
+  app.post('/api/register', async (req, res) => {
+    const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
+    
+    const parseResult = registerSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ message: "Invalid registration", details: parseResult.error.issues });
+    }
+    
+    const { username, password, inviteCode } = parseResult.data;
+    
+    try {
+      // Invite guessing counts against the same per-IP budget as logins
+      const rateLimitResult = await checkLoginRateLimit(clientIp);
+      if (!rateLimitResult.allowed) {
+        const retryAfterSec = Math.ceil((rateLimitResult.retryAfterMs || 0) / 1000);
+        res.setHeader('Retry-After', retryAfterSec.toString());
+        return res.status(429).json({ 
+          message: `Too many attempts. Try again in ${Math.ceil(retryAfterSec / 60)} minutes.` 
+        });
+      }
+      
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+      
+      if (!inviteCode) {
+        return res.status(403).json({ message: "An invite code is required to register" });
+      }
+      
+      const user = await storage.createUser({ username, passwordHash: await hashPassword(password) }, inviteCode);
+      if (!user) {
+        await recordLoginAttempt(clientIp, undefined, false);
+        return res.status(403).json({ message: "Invite code is invalid or has expired" });
+      }
+      
+      await recordLoginAttempt(clientIp, undefined, true);
+      const tokens = await createAuthTokens(user, getClientInfo(req));
+      res.status(201).json({ success: true, username: user.username, ...tokens });
+    } catch (error) {
+      console.error("Error registering user:", error);
+      res.status(500).json({ message: "Failed to register" });
+    }
+  });
+  
+  app.post('/api/auth/refresh', async (req, res) => {
+    const parseResult = refreshTokenSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ message: "Invalid request format" });
+    }
     
-    if (username === VALID_USERNAME && password === VALID_PASSWORD) {
-      recordLoginAttempt(clientIp, true);
-      const token = createAuthToken(username);
-      res.json({ success: true, username, token });
-    } else {
-      recordLoginAttempt(clientIp, false);
-      res.status(401).json({ message: "Invalid username or password" });
+    try {
+      const tokens = await refreshAuthTokens(parseResult.data.refreshToken, getClientInfo(req));
+      if (!tokens) {
+        return res.status(401).json({ message: "Session expired" });
+      }
+      res.json(tokens);
+    } catch (error) {
+      console.error("Error refreshing token:", error);
+      res.status(500).json({ message: "Failed to refresh token" });
     }
   });
   
-  app.post('/api/logout', (req, res) => {
+  // Ends the session behind the bearer token, or behind the refresh token in
+  // the body once the access token has expired
+  app.post('/api/logout', async (req, res) => {
     const authHeader = req.headers.authorization;
+    const tokens: string[] = [];
     if (authHeader && authHeader.startsWith("Bearer ")) {
-      const token = authHeader.substring(7);
-      invalidateToken(token);
+      tokens.push(authHeader.substring(7));
+    }
+    const parseResult = refreshTokenSchema.safeParse(req.body);
+    if (parseResult.success) {
+      tokens.push(parseResult.data.refreshToken);
+    }
+    
+    try {
+      for (const token of tokens) {
+        await invalidateToken(token);
+      }
+    } catch (error) {
+      console.error("Error logging out:", error);
+      return res.status(500).json({ message: "Failed to log out" });
     }
     res.json({ success: true });
   });
   
-  app.get('/api/auth/user', isAuthenticated, (req: any, res) => {
-    res.json({ username: req.username });
+  app.get('/api/auth/user', isAuthenticatedForTotpSetup, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.userId);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      res.json({
+        username: user.username,
+        isAdmin: user.isAdmin,
+        totpEnabled: user.totpEnabled,
+        totpRequired: isTotpRequired(),
+        recoveryCodesRemaining: user.totpRecoveryCodes?.length ?? 0,
+      });
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
   });
 
-  app.get("/api/dream-items", isAuthenticated, async (req, res) => {
+  // Code checks below are limited per user rather than per IP
+  const checkTotpRateLimit = async (req: any, res: any): Promise<boolean> => {
+    const rateLimitResult = await totpRateLimiter.check(String(req.userId));
+    if (!rateLimitResult.allowed) {
+      const retryAfterSec = Math.ceil((rateLimitResult.retryAfterMs || 0) / 1000);
+      res.setHeader('Retry-After', retryAfterSec.toString());
+      res.status(429).json({ error: `Too many attempts. Try again in ${Math.ceil(retryAfterSec / 60)} minutes.` });
+      return false;
+    }
+    return true;
+  };
+
+  // Starts enrollment with a fresh secret. Two-factor isn't enforced until the
+  // user confirms a code from it via /api/auth/totp/enable.
+  app.post("/api/auth/totp/setup", isAuthenticatedForTotpSetup, async (req: any, res) => {
     try {
-      const items = await storage.getDreamItems();
+      const user = await storage.getUser(req.userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (user.totpEnabled) {
+        return res.status(409).json({ error: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.updateUser(user.id, { totpSecret: secret, totpLastStep: null });
+      const otpauthUri = getTotpUri(secret, user.username);
+      const qrCode = await QRCode.toDataURL(otpauthUri);
+      res.json({ secret, otpauthUri, qrCode });
+    } catch (error) {
+      console.error("Error starting two-factor setup:", error);
+      res.status(500).json({ error: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/totp/enable", isAuthenticatedForTotpSetup, async (req: any, res) => {
+    try {
+      const result = totpCodeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid code", details: result.error.issues });
+      }
+      if (!(await checkTotpRateLimit(req, res))) return;
+
+      const user = await storage.getUser(req.userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (user.totpEnabled) {
+        return res.status(409).json({ error: "Two-factor authentication is already enabled" });
+      }
+      if (!user.totpSecret) {
+        return res.status(400).json({ error: "Start two-factor setup first" });
+      }
+
+      const step = verifyTotp(user.totpSecret, result.data.code.trim(), null);
+      if (step === null) {
+        await totpRateLimiter.consume(String(req.userId));
+        return res.status(400).json({ error: "Code does not match. Check your authenticator's clock." });
+      }
+      await totpRateLimiter.reset(String(req.userId));
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUser(user.id, {
+        totpEnabled: true,
+        totpLastStep: step,
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error enabling two-factor:", error);
+      res.status(500).json({ error: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/totp/disable", isAuthenticated, async (req: any, res) => {
+    try {
+      if (isTotpRequired()) {
+        return res.status(403).json({ error: "Two-factor authentication is required on this server" });
+      }
+      const result = disableTotpSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid request", details: result.error.issues });
+      }
+      if (!(await checkTotpRateLimit(req, res))) return;
+
+      const user = await storage.getUser(req.userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const verified = await verifyPassword(result.data.password, user.passwordHash)
+        && await verifySecondFactor(user, result.data.code);
+      if (!verified) {
+        await totpRateLimiter.consume(String(req.userId));
+        return res.status(401).json({ error: "Invalid password or code" });
+      }
+      await totpRateLimiter.reset(String(req.userId));
+
+      await storage.updateUser(user.id, {
+        totpEnabled: false,
+        totpSecret: null,
+        totpLastStep: null,
+        totpRecoveryCodes: null,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error disabling two-factor:", error);
+      res.status(500).json({ error: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Replaces all recovery codes; the old ones stop working
+  app.post("/api/auth/totp/recovery-codes", isAuthenticated, async (req: any, res) => {
+    try {
+      const result = totpCodeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid code", details: result.error.issues });
+      }
+      if (!(await checkTotpRateLimit(req, res))) return;
+
+      const user = await storage.getUser(req.userId);
+      if (!user?.totpEnabled) {
+        return res.status(400).json({ error: "Two-factor authentication is not enabled" });
+      }
+      if (!(await verifySecondFactor(user, result.data.code))) {
+        await totpRateLimiter.consume(String(req.userId));
+        return res.status(401).json({ error: "Invalid code" });
+      }
+      await totpRateLimiter.reset(String(req.userId));
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUser(user.id, { totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ error: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.get("/api/auth/sessions", isAuthenticated, async (req: any, res) => {
+    try {
+      const sessions = await storage.getUserSessions(req.userId);
+      const active: ActiveSession[] = sessions.map(session => ({
+        id: session.sid,
+        createdAt: session.sess.createdAt,
+        lastSeenAt: session.sess.lastSeenAt,
+        ip: session.sess.ip,
+        userAgent: session.sess.userAgent,
+        current: session.sid === req.sessionId,
+      }));
+      res.json(active);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteUserSession(req.userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ error: "Failed to revoke session" });
+    }
+  });
+
+  // Revokes every session for the user, including the one making the request
+  app.post("/api/auth/logout-all", isAuthenticated, async (req: any, res) => {
+    try {
+      const revoked = await storage.deleteUserSessions(req.userId);
+      res.json({ success: true, revoked });
+    } catch (error) {
+      console.error("Error logging out all sessions:", error);
+      res.status(500).json({ error: "Failed to log out all sessions" });
+    }
+  });
+
+  app.get("/api/invites", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const invites = await storage.getInvites(req.userId);
+      res.json(invites);
+    } catch (error) {
+      console.error("Error fetching invites:", error);
+      res.status(500).json({ error: "Failed to fetch invites" });
+    }
+  });
+
+  app.post("/api/invites", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const invite = await storage.createInvite({
+        code: crypto.randomBytes(9).toString("base64url"),
+        createdBy: req.userId,
+        expiresAt: new Date(Date.now() + INVITE_EXPIRY_MS),
+      });
+      res.status(201).json(invite);
+    } catch (error) {
+      console.error("Error creating invite:", error);
+      res.status(500).json({ error: "Failed to create invite" });
+    }
+  });
+
+  app.get("/api/boards", isAuthenticated, async (req: any, res) => {
+    try {
+      const boardList = await storage.getBoards(req.userId);
+      res.json(boardList);
+    } catch (error) {
+      console.error("Error fetching boards:", error);
+      res.status(500).json({ error: "Failed to fetch boards" });
+    }
+  });
+
+  app.post("/api/boards", isAuthenticated, async (req: any, res) => {
+    try {
+      const result = insertBoardSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid board data", details: result.error.issues });
+      }
+
+      const board = await storage.createBoard(req.userId, {
+        ...result.data,
+        name: sanitizeName(result.data.name),
+        description: result.data.description ? sanitizeString(result.data.description) : undefined,
+      });
+      res.status(201).json(board);
+    } catch (error) {
+      console.error("Error creating board:", error);
+      res.status(500).json({ error: "Failed to create board" });
+    }
+  });
+
+  app.patch("/api/boards/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const result = updateBoardSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid board data", details: result.error.issues });
+      }
+
+      const updated = await storage.updateBoard(req.userId, id, {
+        ...result.data,
+        name: result.data.name ? sanitizeName(result.data.name) : undefined,
+        description: result.data.description ? sanitizeString(result.data.description) : result.data.description,
+      });
+      if (!updated) {
+        return res.status(404).json({ error: "Board not found" });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating board:", error);
+      res.status(500).json({ error: "Failed to update board" });
+    }
+  });
+
+  app.delete("/api/boards/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const boardList = await storage.getBoards(req.userId);
+      if (!boardList.some(b => b.id === id)) {
+        return res.status(404).json({ error: "Board not found" });
+      }
+      if (boardList.length === 1) {
+        return res.status(409).json({ error: "Cannot delete the only board" });
+      }
+
+      await storage.deleteBoard(req.userId, id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting board:", error);
+      res.status(500).json({ error: "Failed to delete board" });
+    }
+  });
+
+  app.get("/api/boards/:id/dream-items", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const board = await storage.getBoard(req.userId, id);
+      if (!board) {
+        return res.status(404).json({ error: "Board not found" });
+      }
+
+      const items = await storage.getDreamItems(req.userId, id);
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching board dream items:", error);
+      res.status(500).json({ error: "Failed to fetch dream items" });
+    }
+  });
+
+  app.post("/api/boards/:id/dream-items", isAuthenticated, writeRateLimit, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const result = boardDreamItemSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid dream item data", details: result.error.issues });
+      }
+      const { imageUrl, ...data } = result.data;
+
+      const board = await storage.getBoard(req.userId, id);
+      if (!board) {
+        return res.status(404).json({ error: "Board not found" });
+      }
+      if (data.imageKey && !(await uploadExists(data.imageKey))) {
+        return res.status(400).json({ error: "Image not found" });
+      }
+
+      const item = await storage.createDreamItem(req.userId, {
+        ...data,
+        boardId: id,
+        name: sanitizeName(data.name),
+        url: data.url ? sanitizeUrl(data.url) : undefined,
+        imageKey: data.imageKey || (imageUrl ? await importImageFromUrl(imageUrl) : null),
+      });
+      res.status(201).json(item);
+    } catch (error) {
+      console.error("Error creating dream item:", error);
+      res.status(500).json({ error: "Failed to create dream item" });
+    }
+  });
+
+  app.get("/api/dream-items", isAuthenticated, async (req: any, res) => {
+    try {
+      const items = await storage.getDreamItems(req.userId);
       res.json(items);
     } catch (error) {
       console.error("Error fetching dream items:", error);
@@ -92,20 +705,28 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/dream-items", isAuthenticated, async (req, res) => {
+  app.post("/api/dream-items", isAuthenticated, writeRateLimit, async (req: any, res) => {
     try {
-      const result = insertDreamItemSchema.safeParse(req.body);
+      const result = createDreamItemSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ error: "Invalid dream item data", details: result.error.issues });
       }
+      const { imageUrl, ...data } = result.data;
+      if (data.boardId != null && !(await storage.getBoard(req.userId, data.boardId))) {
+        return res.status(404).json({ error: "Board not found" });
+      }
+      if (data.imageKey && !(await uploadExists(data.imageKey))) {
+        return res.status(400).json({ error: "Image not found" });
+      }
       
       const sanitizedData = {
-        ...result.data,
-        name: sanitizeName(result.data.name),
-        url: result.data.url ? sanitizeUrl(result.data.url) : undefined,
+        ...data,
+        name: sanitizeName(data.name),
+        url: data.url ? sanitizeUrl(data.url) : undefined,
+        imageKey: data.imageKey || (imageUrl ? await importImageFromUrl(imageUrl) : null),
       };
       
-      const item = await storage.createDreamItem(sanitizedData);
+      const item = await storage.createDreamItem(req.userId, sanitizedData);
       res.status(201).json(item);
     } catch (error) {
       console.error("Error creating dream item:", error);
@@ -113,7 +734,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/dream-items/:id", isAuthenticated, async (req, res) => {
+  app.patch("/api/dream-items/:id", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -124,17 +745,32 @@ export async function registerRoutes(
       if (!result.success) {
         return res.status(400).json({ error: "Invalid update data", details: result.error.issues });
       }
+      if (result.data.boardId !== undefined && !(await storage.getBoard(req.userId, result.data.boardId))) {
+        return res.status(404).json({ error: "Board not found" });
+      }
+      if (result.data.imageKey && !(await uploadExists(result.data.imageKey))) {
+        return res.status(400).json({ error: "Image not found" });
+      }
       
       const sanitizedData = {
         ...result.data,
         name: result.data.name ? sanitizeName(result.data.name) : undefined,
-        url: result.data.url ? sanitizeUrl(result.data.url) : undefined,
+        // null or "" clears the link
+        url: result.data.url === undefined ? undefined : sanitizeUrl(result.data.url) || null,
       };
       
-      const updated = await storage.updateDreamItem(id, sanitizedData);
+      const previous = result.data.imageKey !== undefined ? await storage.getDreamItem(req.userId, id) : undefined;
+      const updated = await storage.updateDreamItem(req.userId, id, sanitizedData);
       if (!updated) {
         return res.status(404).json({ error: "Dream item not found" });
       }
+      if (previous?.imageKey && previous.imageKey !== updated.imageKey) {
+        const replacedKey = previous.imageKey;
+        // The update has landed; a stray file isn't worth failing it over
+        releaseUploadedImage(replacedKey).catch(error => {
+          console.error(`Error deleting image ${replacedKey}:`, error);
+        });
+      }
       
       res.json(updated);
     } catch (error) {
@@ -143,14 +779,31 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/dream-items/:id", isAuthenticated, async (req, res) => {
+  // Bulk show/hide. With neither ids nor category it applies to every dream.
+  app.post("/api/dream-items/visibility", isAuthenticated, async (req: any, res) => {
+    try {
+      const result = dreamVisibilitySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid visibility data", details: result.error.issues });
+      }
+
+      const { hidden, ids, category, boardId } = result.data;
+      const updated = await storage.setDreamItemsHidden(req.userId, hidden, { ids, category, boardId });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating dream visibility:", error);
+      res.status(500).json({ error: "Failed to update dream visibility" });
+    }
+  });
+
+  app.delete("/api/dream-items/:id", isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ error: "Invalid ID" });
       }
       
-      const deleted = await storage.deleteDreamItem(id);
+      const deleted = await storage.deleteDreamItem(req.userId, id);
       if (!deleted) {
         return res.status(404).json({ error: "Dream item not found" });
       }
@@ -162,24 +815,375 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/settings", isAuthenticated, async (req, res) => {
+  app.get("/api/dream-items/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const result = dreamExportQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid export query", details: result.error.issues });
+      }
+
+      const { format, boardId } = result.data;
+      if (boardId !== undefined && !(await storage.getBoard(req.userId, boardId))) {
+        return res.status(404).json({ error: "Board not found" });
+      }
+
+      const items = await storage.getDreamItems(req.userId, boardId);
+      const filename = `dreams-${formatDateKey(new Date())}.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.type(format === "csv" ? "text/csv" : "application/json");
+      res.send(serializeDreamItems(items, format));
+    } catch (error) {
+      console.error("Error exporting dream items:", error);
+      res.status(500).json({ error: "Failed to export dream items" });
+    }
+  });
+
+  // Upserts the file's dreams onto a board by name and category. Valid rows are
+  // imported even when others fail; dryRun=true reports without writing.
+  app.post("/api/dream-items/import", isAuthenticated, writeRateLimit, importBodyParser, async (req: any, res) => {
+    try {
+      const query = dreamImportQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid import query", details: query.error.issues });
+      }
+
+      const { format, boardId, dryRun } = query.data;
+      if (!(await storage.getBoard(req.userId, boardId))) {
+        return res.status(404).json({ error: "Board not found" });
+      }
+
+      const parsed = parseDreamImport(readFileBody(req), format);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const rows: DreamImportRow[] = [];
+      const valid: { row: DreamImportRow; item: Omit<InsertDreamItem, "boardId"> }[] = [];
+      for (const record of parsed.records) {
+        const prepared = prepareImportRecord(record);
+        const name = typeof record.values.name === "string" ? record.values.name : null;
+        const row: DreamImportRow = { row: record.row, name, action: "error", id: null, errors: [] };
+        if ("errors" in prepared) {
+          row.errors = prepared.errors;
+        } else {
+          row.name = prepared.item.name;
+          valid.push({ row, item: prepared.item });
+        }
+        rows.push(row);
+      }
+
+      const matches = await storage.importDreamItems(
+        req.userId,
+        boardId,
+        valid.map(({ item }) => ({ ...item, boardId })),
+        dryRun
+      );
+      matches.forEach((match, index) => {
+        valid[index].row.action = match.action;
+        valid[index].row.id = match.id;
+      });
+
+      const summary: DreamImportResult = {
+        dryRun,
+        created: rows.filter(row => row.action === "create").length,
+        updated: rows.filter(row => row.action === "update").length,
+        failed: rows.filter(row => row.action === "error").length,
+        rows,
+      };
+      res.json(summary);
+    } catch (error) {
+      console.error("Error importing dream items:", error);
+      res.status(500).json({ error: "Failed to import dream items" });
+    }
+  });
+
+  app.post("/api/dream-items/preview", isAuthenticated, previewRateLimit, async (req: any, res) => {
+    try {
+      const result = dreamPreviewSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid preview request", details: result.error.issues });
+      }
+      const url = sanitizeUrl(result.data.url);
+      if (!url) {
+        return res.status(400).json({ error: "Invalid URL" });
+      }
+
+      const fetched = await fetchUrlPreview(url);
+      if ("error" in fetched) {
+        return res.status(422).json({ error: fetched.error });
+      }
+      const preview: DreamUrlPreview = fetched.preview;
+      res.json(preview);
+    } catch (error) {
+      console.error("Error previewing dream URL:", error);
+      res.status(500).json({ error: "Failed to preview URL" });
+    }
+  });
+
+  app.get("/api/boards/:id/dream-items/price-history", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const board = await storage.getBoard(req.userId, id);
+      if (!board) {
+        return res.status(404).json({ error: "Board not found" });
+      }
+
+      const history = await storage.getDreamPriceHistory(req.userId, id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching price history:", error);
+      res.status(500).json({ error: "Failed to fetch price history" });
+    }
+  });
+
+  // Deleted dreams sit in the Trash until the daily purge removes them
+  app.get("/api/boards/:id/dream-items/trash", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+
+      const board = await storage.getBoard(req.userId, id);
+      if (!board) {
+        return res.status(404).json({ error: "Board not found" });
+      }
+
+      const items = await storage.getDeletedDreamItems(req.userId, id);
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching deleted dream items:", error);
+      res.status(500).json({ error: "Failed to fetch deleted dream items" });
+    }
+  });
+
+  app.post("/api/dream-items/:id/restore", isAuthenticated, writeRateLimit, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      
+      const restored = await storage.restoreDreamItem(req.userId, id);
+      if (!restored) {
+        return res.status(404).json({ error: "Deleted dream item not found" });
+      }
+      
+      res.json(restored);
+    } catch (error) {
+      console.error("Error restoring dream item:", error);
+      res.status(500).json({ error: "Failed to restore dream item" });
+    }
+  });
+
+  // Restores the dream to its state before the given audit event
+  app.post("/api/dream-items/:id/revert", isAuthenticated, writeRateLimit, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid ID" });
+      }
+      
+      const result = revertDreamItemSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid revert data", details: result.error.issues });
+      }
+      
+      const event = await storage.getAuditEvent(req.userId, result.data.eventId);
+      if (!event || event.entity !== "dream_item" || event.entityId !== id) {
+        return res.status(404).json({ error: "History entry not found" });
+      }
+      if (event.action !== "update" && event.action !== "revert") {
+        return res.status(400).json({ error: "Only edits can be reverted" });
+      }
+      
+      const reverted = await storage.revertDreamItem(req.userId, event);
+      if (!reverted) {
+        return res.status(404).json({ error: "Dream item not found" });
+      }
+      
+      res.json(reverted);
+    } catch (error) {
+      console.error("Error reverting dream item:", error);
+      res.status(500).json({ error: "Failed to revert dream item" });
+    }
+  });
+
+  app.get("/api/backup", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.userId);
+      const archive = await createBackupArchive(req.userId, !!user?.isAdmin);
+      res.setHeader("Content-Disposition", `attachment; filename="wolfgang-backup-${formatDateKey(new Date())}.json"`);
+      res.json(archive);
+    } catch (error) {
+      console.error("Error creating backup:", error);
+      res.status(500).json({ error: "Failed to create backup" });
+    }
+  });
+
+  // Replaces the account's data with the archive's in one transaction
+  app.post("/api/restore", isAuthenticated, writeRateLimit, restoreBodyParser, async (req: any, res) => {
+    try {
+      let body: unknown;
+      try {
+        body = JSON.parse(readFileBody(req));
+      } catch {
+        return res.status(400).json({ error: "Backup is not valid JSON" });
+      }
+      const version = (body as { version?: unknown } | null)?.version;
+      if (version !== BACKUP_ARCHIVE_VERSION) {
+        return res.status(400).json({ error: `Unsupported backup version ${JSON.stringify(version ?? null)}` });
+      }
+
+      const result = backupArchiveSchema.safeParse(body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid backup archive", details: result.error.issues });
+      }
+
+      const user = await storage.getUser(req.userId);
+      const summary = await restoreBackupArchive(req.userId, result.data, !!user?.isAdmin);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      res.status(500).json({ error: "Failed to restore backup" });
+    }
+  });
+
+  app.post("/api/uploads", isAuthenticated, writeRateLimit, async (req: any, res) => {
+    try {
+      const result = uploadRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid upload request", details: result.error.issues });
+      }
+
+      const target: UploadTarget = { method: "PUT", ...createUploadTarget(result.data.contentType, result.data.size) };
+      res.status(201).json(target);
+    } catch (error) {
+      console.error("Error creating upload URL:", error);
+      res.status(500).json({ error: "Failed to create upload URL" });
+    }
+  });
+
+  // The signature stands in for the session; each URL can be used once, for
+  // a file of exactly the size and type it was issued for
+  app.put("/api/uploads/:key", uploadRateLimit, uploadBodyParser, async (req: any, res) => {
+    try {
+      const key = uploadKeySchema.safeParse(req.params.key);
+      const expiresAt = Number(req.query.expires);
+      const contentType = typeof req.query.type === "string" ? req.query.type : "";
+      const size = Number(req.query.size);
+      const signature = typeof req.query.signature === "string" ? req.query.signature : "";
+      if (!key.success || !verifyUploadSignature({ key: key.data, expiresAt, contentType, size }, signature)) {
+        return res.status(403).json({ error: "Upload URL is invalid or has expired" });
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: "Upload is empty" });
+      }
+      if (req.body.length !== size) {
+        return res.status(400).json({ error: `Upload must be exactly ${size} bytes` });
+      }
+      const detectedType = await detectImageType(req.body);
+      if (!detectedType) {
+        return res.status(400).json({ error: "File is not a supported image" });
+      }
+      if (detectedType !== contentType) {
+        return res.status(400).json({ error: `File is ${detectedType}, not ${contentType}` });
+      }
+      if (await uploadExists(key.data)) {
+        return res.status(409).json({ error: "Upload URL has already been used" });
+      }
+
+      try {
+        await saveUploadedImage(key.data, req.body);
+      } catch {
+        return res.status(400).json({ error: "File is not a supported image" });
+      }
+      res.json({ key: key.data });
+    } catch (error) {
+      console.error("Error saving upload:", error);
+      res.status(500).json({ error: "Failed to save upload" });
+    }
+  });
+
+  // Public so <img> tags can load them; keys are random and never reused
+  app.get("/api/uploads/:key/:variant(thumbnail)?", async (req, res) => {
     try {
-      const settings = await storage.getSettings();
-      res.json(settings || { currentBalance: 0, ultimateGoal: 348000000, originBalance: 500 });
+      const key = uploadKeySchema.safeParse(req.params.key);
+      if (!key.success) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+
+      const data = await readUploadedImage(key.data, req.params.variant ? "thumbnail" : "original");
+      if (!data) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+      res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+      res.type("image/webp").send(data);
+    } catch (error) {
+      console.error("Error reading upload:", error);
+      res.status(500).json({ error: "Failed to read image" });
+    }
+  });
+
+  app.get("/api/audit", isAuthenticated, async (req: any, res) => {
+    try {
+      const result = auditQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid audit query", details: result.error.issues });
+      }
+      
+      const events = await storage.getAuditEvents(req.userId, result.data);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching audit events:", error);
+      res.status(500).json({ error: "Failed to fetch audit events" });
+    }
+  });
+
+  app.get("/api/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const settings = await storage.getSettings(req.userId);
+      res.json(settings || {
+        currentBalance: 0,
+        ultimateGoal: 348000000,
+        originBalance: 500,
+        riskPercent: RISK_PCT * 100,
+        dailyWins: 1,
+        profitTarget: 1.0,
+        dreamFeedbackMode: "waitTillEnd",
+        ...DEFAULT_PROJECTION_CONSTANTS,
+      });
     } catch (error) {
       console.error("Error fetching settings:", error);
       res.status(500).json({ error: "Failed to fetch settings" });
     }
   });
 
-  app.patch("/api/settings", isAuthenticated, async (req, res) => {
+  app.patch("/api/settings", isAuthenticated, writeRateLimit, async (req: any, res) => {
     try {
       const result = updateSettingsSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ error: "Invalid settings data", details: result.error.issues });
       }
       
-      const updated = await storage.updateSettings(result.data);
+      // The ledger owns the balance: a directly edited balance is recorded as an adjustment
+      const { currentBalance, ...updates } = result.data;
+      if (currentBalance !== undefined) {
+        const ledgerBalance = await storage.getLedgerBalance(req.userId);
+        if (currentBalance !== ledgerBalance) {
+          await storage.createBalanceEntry(req.userId, {
+            type: "adjustment",
+            amount: currentBalance - ledgerBalance,
+            note: "Balance set from settings",
+          });
+        }
+      }
+      
+      const updated = await storage.updateSettings(req.userId, updates);
       res.json(updated);
     } catch (error) {
       console.error("Error updating settings:", error);
@@ -187,6 +1191,208 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/balance-entries", isAuthenticated, async (req: any, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+        return res.status(400).json({ error: "Invalid limit" });
+      }
+      
+      const entries = await storage.getBalanceEntries(req.userId, limit);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching balance entries:", error);
+      res.status(500).json({ error: "Failed to fetch balance entries" });
+    }
+  });
+
+  app.post("/api/balance-entries", isAuthenticated, async (req: any, res) => {
+    try {
+      const result = balanceEntryRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid balance entry", details: result.error.issues });
+      }
+      
+      const { type, amount, closingBalance, note } = result.data;
+      const currentBalance = await storage.getLedgerBalance(req.userId);
+      const change = closingBalance !== undefined
+        ? closingBalance - currentBalance
+        : type === "withdrawal" ? -amount! : amount!;
+      if (currentBalance + change < 0) {
+        return res.status(400).json({ error: "Entry would make the balance negative" });
+      }
+      
+      const entry = await storage.createBalanceEntry(req.userId, {
+        type,
+        amount: change,
+        note: note ? sanitizeString(note) : undefined,
+      });
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error creating balance entry:", error);
+      res.status(500).json({ error: "Failed to create balance entry" });
+    }
+  });
+
+  app.get("/api/plan-baseline", isAuthenticated, async (req: any, res) => {
+    try {
+      const baseline = await storage.getPlanBaseline(req.userId);
+      res.json(baseline ?? null);
+    } catch (error) {
+      console.error("Error fetching plan baseline:", error);
+      res.status(500).json({ error: "Failed to fetch plan baseline" });
+    }
+  });
+
+  // Anything left out of the body is taken from today's balance and settings
+  app.post("/api/plan-baseline", isAuthenticated, async (req: any, res) => {
+    try {
+      const settings = await storage.getSettings(req.userId);
+      const result = insertPlanBaselineSchema.safeParse({
+        startDate: formatDateKey(new Date()),
+        startBalance: await storage.getLedgerBalance(req.userId),
+        dailyWins: settings?.dailyWins ?? 1,
+        profitTarget: settings?.profitTarget ?? 1.0,
+        riskPercent: settings?.riskPercent ?? RISK_PCT * 100,
+        ...req.body,
+      });
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid plan baseline", details: result.error.issues });
+      }
+      
+      const baseline = await storage.createPlanBaseline(req.userId, result.data);
+      res.status(201).json(baseline);
+    } catch (error) {
+      console.error("Error creating plan baseline:", error);
+      res.status(500).json({ error: "Failed to create plan baseline" });
+    }
+  });
+
+  app.get("/api/plan-baseline/tracking", isAuthenticated, async (req: any, res) => {
+    try {
+      const baseline = await storage.getPlanBaseline(req.userId);
+      if (!baseline) {
+        return res.status(404).json({ error: "No plan baseline saved" });
+      }
+      
+      const [year, month, day] = baseline.startDate.split("-").map(Number);
+      const entries = await storage.getBalanceEntriesSince(req.userId, new Date(year, month - 1, day));
+      const settings = await storage.getSettings(req.userId);
+      const series = getPlanTrackingSeries(baseline, entries, new Date(), resolveProjectionConstants(settings), MarketCalendar.getMarketDaySets());
+      
+      const latest = series[series.length - 1];
+      const varianceAmount = latest ? latest.actual - latest.projected : 0;
+      res.json({
+        baseline,
+        series,
+        variance: {
+          amount: varianceAmount,
+          percent: latest && latest.projected > 0 ? (varianceAmount / latest.projected) * 100 : 0,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching plan tracking:", error);
+      res.status(500).json({ error: "Failed to fetch plan tracking" });
+    }
+  });
+
+  // Omitted balances and dreams fall back to what is stored, so scripts can
+  // ask for the board's own numbers with an empty body.
+  app.post("/api/projection", isAuthenticated, async (req: any, res) => {
+    try {
+      const result = projectionRequestSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid projection request", details: result.error.issues });
+      }
+
+      const { settings: input, pathDays, boardId } = result.data;
+      const stored = await storage.getSettings(req.userId);
+      const board = boardId !== undefined ? await storage.getBoard(req.userId, boardId) : undefined;
+      if (boardId !== undefined && !board) {
+        return res.status(404).json({ error: "Board not found" });
+      }
+      const dreams = result.data.dreams ?? (await storage.getDreamItems(req.userId, boardId)).filter(d => !d.hidden).map(d => ({
+        id: d.id,
+        cost: d.cost,
+        category: d.category,
+        purchased: d.purchased,
+      }));
+
+      const projection = projectDreamBoard({
+        currentBalance: input.currentBalance ?? stored?.currentBalance ?? 500,
+        originBalance: input.originBalance ?? board?.originBalance ?? (stored?.originBalance || 500),
+        ultimateGoal: input.ultimateGoal ?? board?.ultimateGoal ?? (stored?.ultimateGoal || 50000000),
+        dailyWins: input.dailyWins ?? stored?.dailyWins ?? 1,
+        profitTarget: input.profitTarget ?? stored?.profitTarget ?? 1.0,
+        riskPct: (input.riskPercent ?? stored?.riskPercent ?? RISK_PCT * 100) / 100,
+        feedbackMode: input.feedbackMode ?? stored?.dreamFeedbackMode ?? "waitTillEnd",
+        dreams,
+        pathDays,
+        constants: resolveProjectionConstants(stored),
+        calendar: MarketCalendar.getMarketDaySets(),
+      });
+      res.json(projection);
+    } catch (error) {
+      console.error("Error running projection:", error);
+      res.status(500).json({ error: "Failed to run projection" });
+    }
+  });
+
+  app.get("/api/calendar", isAuthenticated, async (req, res) => {
+    try {
+      const result = calendarQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid calendar range", details: result.error.issues });
+      }
+      const { from, to } = result.data;
+      res.json({ from, to, days: MarketCalendar.getCalendar(from, to) });
+    } catch (error) {
+      console.error("Error fetching market calendar:", error);
+      res.status(500).json({ error: "Failed to fetch market calendar" });
+    }
+  });
+
+  app.get("/api/calendar/overrides", isAuthenticated, async (req, res) => {
+    try {
+      res.json(MarketCalendar.getOverrides());
+    } catch (error) {
+      console.error("Error fetching calendar overrides:", error);
+      res.status(500).json({ error: "Failed to fetch calendar overrides" });
+    }
+  });
+
+  app.post("/api/calendar/overrides", isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const result = calendarOverrideSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid calendar override", details: result.error.issues });
+      }
+      const { date, dayType, note } = result.data;
+      const override = await MarketCalendar.setOverride(date, dayType, note ? sanitizeString(note) : undefined);
+      res.json(override);
+    } catch (error) {
+      console.error("Error saving calendar override:", error);
+      res.status(500).json({ error: "Failed to save calendar override" });
+    }
+  });
+
+  app.delete("/api/calendar/overrides/:date", isAuthenticated, requireAdmin, async (req, res) => {
+    try {
+      const result = dateKeySchema.safeParse(req.params.date);
+      if (!result.success) {
+        return res.status(400).json({ error: "Invalid date" });
+      }
+      const deleted = await MarketCalendar.removeOverride(result.data);
+      if (!deleted) {
+        return res.status(404).json({ error: "Calendar override not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting calendar override:", error);
+      res.status(500).json({ error: "Failed to delete calendar override" });
+    }
+  });
+
   // Aurora API Routes
   app.get("/api/aurora/status", isAuthenticated, async (req, res) => {
     try {
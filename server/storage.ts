@@ -1,64 +1,1767 @@
-import { 
-  dreamItems, userSettings,
-  type DreamItem, type InsertDreamItem,
-  type UserSettings, type InsertUserSettings
+import {
+  sessions, users, userInvites, rateLimits, boards, dreamItems, dreamPriceHistory, userSettings, balanceEntries, planBaselines, auditEvents, auroraCalendarSessions, auroraPraxisParameters,
+  type Session, type InsertSession, type AuthSessionData,
+  type User, type InsertUser,
+  type UserInvite, type InsertUserInvite,
+  type RateLimit,
+  type Board, type InsertBoard,
+  type DreamItem, type InsertDreamItem, type DreamPricePoint,
+  type UserSettings, type InsertUserSettings,
+  type BalanceEntry, type InsertBalanceEntry,
+  type PlanBaseline, type InsertPlanBaseline,
+  type AuditEvent, type AuditEntity, type AuditAction,
+  type AuroraCalendarSession, type InsertAuroraCalendarSession,
+  type AuroraPraxisParameter,
+  type BackupArchive, type RestoreSummary
 } from "@shared/schema";
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { connectDatabase, getStorageDriver, type Database, type DbTransaction } from "./db";
+import { getRequestIp } from "./requestContext";
+import { sql, eq, ne, and, inArray, desc, asc, gte, gt, lte, isNull, isNotNull, count, TransactionRollbackError } from "drizzle-orm";
+
+export interface AuditEventFilter {
+  entity?: AuditEntity;
+  entityId?: number;
+  since?: Date;
+  limit?: number;
+}
+
+// Everything an account owns, as written to a backup archive
+export interface AccountData {
+  settings: UserSettings | undefined;
+  boards: Board[];
+  // Includes dreams in the Trash
+  dreamItems: DreamItem[];
+  balanceEntries: BalanceEntry[];
+  planBaselines: PlanBaseline[];
+}
+
+export interface AccountRestore {
+  summary: RestoreSummary;
+  // Images of the replaced dreams that no restored dream uses, for the caller
+  // to delete once the restore has committed
+  replacedImageKeys: string[];
+}
+
+// Keys on the replaced dreams that the archive's dreams don't carry over
+const replacedImageKeys = (replaced: DreamItem[], archive: BackupArchive): string[] => {
+  const kept = new Set(archive.dreamItems.map(item => item.imageKey));
+  return Array.from(new Set(replaced.flatMap(item => (item.imageKey && !kept.has(item.imageKey) ? [item.imageKey] : []))));
+};
+
+interface AuditChange {
+  entityId: number;
+  before: object | null;
+  after: object | null;
+}
+
+// Keeps multi-row inserts well under Postgres's bind parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+const chunk = <T>(rows: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) chunks.push(rows.slice(i, i + size));
+  return chunks;
+};
+
+export interface DreamImportMatch {
+  action: "create" | "update";
+  id: number | null;
+}
+
+// Imports upsert on name and category, ignoring case
+const dreamImportKey = (item: { name: string; category?: string | null }) =>
+  `${item.name.toLowerCase()}\n${(item.category ?? "Uncategorized").toLowerCase()}`;
+
+export interface DreamPriceCheck {
+  // The price differed from the last one recorded, so a history row was written
+  changed: boolean;
+  costUpdated: boolean;
+  // Cost would have been updated, but the price was outside the plausible band
+  costSkipped: boolean;
+}
+
+// Costs are dollars, so only these prices may overwrite one; a page that
+// doesn't say is assumed to be in dollars too
+const isCostCurrency = (currency: string | null) => currency === null || currency.toUpperCase() === "USD";
+
+// A scraped price this far from the cost is more likely a mis-parse, a sale
+// bundle or a monthly price than a real change, so it's only recorded
+const MIN_AUTO_COST_RATIO = 0.2;
+const MAX_AUTO_COST_RATIO = 5;
+const isPlausibleCost = (cost: number, price: number) =>
+  price >= cost * MIN_AUTO_COST_RATIO && price <= cost * MAX_AUTO_COST_RATIO;
+
+// Fields a dream revert restores from an audit snapshot. Not imageKey: a
+// replaced image is deleted, so an old key may point at nothing.
+const REVERTIBLE_DREAM_FIELDS = ["name", "cost", "purchased", "iconType", "url", "category", "hidden", "autoUpdateCost", "boardId"] as const;
 
 export interface IStorage {
-  getDreamItems(): Promise<DreamItem[]>;
-  createDreamItem(item: InsertDreamItem): Promise<DreamItem>;
-  updateDreamItem(id: number, updates: Partial<InsertDreamItem>): Promise<DreamItem | undefined>;
-  deleteDreamItem(id: number): Promise<boolean>;
-  
-  getSettings(): Promise<UserSettings | undefined>;
-  updateSettings(updates: Partial<InsertUserSettings>): Promise<UserSettings>;
+  createSession(session: InsertSession): Promise<Session>;
+  getSession(sid: string): Promise<Session | undefined>;
+  getUserSessions(userId: number): Promise<Session[]>;
+  updateSession(sid: string, patch: Partial<AuthSessionData>): Promise<void>;
+  rotateSession(sid: string, currentRefreshTokenHash: string, patch: Partial<AuthSessionData>, expire: Date): Promise<boolean>;
+  deleteSession(sid: string): Promise<boolean>;
+  deleteUserSession(userId: number, sid: string): Promise<boolean>;
+  deleteUserSessions(userId: number): Promise<number>;
+  deleteExpiredSessions(): Promise<number>;
+
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  countUsers(): Promise<number>;
+  createUser(user: InsertUser, inviteCode?: string): Promise<User | undefined>;
+  updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined>;
+  createFirstAdmin(user: InsertUser): Promise<User | undefined>;
+
+  getInvites(createdBy: number): Promise<UserInvite[]>;
+  createInvite(invite: InsertUserInvite): Promise<UserInvite>;
+
+  incrementRateLimit(key: string, windowMs: number, now: number): Promise<RateLimit>;
+  getRateLimit(key: string): Promise<RateLimit | undefined>;
+  deleteRateLimit(key: string): Promise<void>;
+  deleteExpiredRateLimits(now: number): Promise<number>;
+
+  getBoards(userId: number): Promise<Board[]>;
+  getBoard(userId: number, id: number): Promise<Board | undefined>;
+  createBoard(userId: number, board: InsertBoard): Promise<Board>;
+  updateBoard(userId: number, id: number, updates: Partial<InsertBoard>): Promise<Board | undefined>;
+  deleteBoard(userId: number, id: number): Promise<boolean>;
+
+  getDreamItems(userId: number, boardId?: number): Promise<DreamItem[]>;
+  getDreamItem(userId: number, id: number): Promise<DreamItem | undefined>;
+  createDreamItem(userId: number, item: InsertDreamItem): Promise<DreamItem>;
+  updateDreamItem(userId: number, id: number, updates: Partial<InsertDreamItem>): Promise<DreamItem | undefined>;
+  deleteDreamItem(userId: number, id: number): Promise<boolean>;
+  getDeletedDreamItems(userId: number, boardId?: number): Promise<DreamItem[]>;
+  restoreDreamItem(userId: number, id: number): Promise<DreamItem | undefined>;
+  purgeDeletedDreamItems(deletedBefore: Date): Promise<DreamItem[]>;
+  isImageInUse(imageKey: string): Promise<boolean>;
+  importDreamItems(userId: number, boardId: number, items: InsertDreamItem[], dryRun: boolean): Promise<DreamImportMatch[]>;
+  setDreamItemsHidden(userId: number, hidden: boolean, scope?: { ids?: number[]; category?: string; boardId?: number }): Promise<DreamItem[]>;
+  getPriceTrackedDreamItems(): Promise<DreamItem[]>;
+  recordDreamPrice(dreamItemId: number, price: number, currency: string | null): Promise<DreamPriceCheck>;
+  getDreamPriceHistory(userId: number, boardId: number): Promise<DreamPricePoint[]>;
+
+  getSettings(userId: number): Promise<UserSettings | undefined>;
+  updateSettings(userId: number, updates: Partial<InsertUserSettings>): Promise<UserSettings>;
+
+  getBalanceEntries(userId: number, limit?: number): Promise<BalanceEntry[]>;
+  getLedgerBalance(userId: number): Promise<number>;
+  createBalanceEntry(userId: number, entry: InsertBalanceEntry): Promise<BalanceEntry>;
+  getBalanceEntriesSince(userId: number, since: Date): Promise<BalanceEntry[]>;
+
+  getPlanBaseline(userId: number): Promise<PlanBaseline | undefined>;
+  createPlanBaseline(userId: number, baseline: InsertPlanBaseline): Promise<PlanBaseline>;
+
+  getAccountData(userId: number): Promise<AccountData>;
+  restoreAccount(userId: number, archive: BackupArchive, includeAurora: boolean): Promise<AccountRestore>;
+  getPraxisParameters(): Promise<AuroraPraxisParameter[]>;
+  getAuditEvents(userId: number, filter?: AuditEventFilter): Promise<AuditEvent[]>;
+  getAuditEvent(userId: number, id: number): Promise<AuditEvent | undefined>;
+  revertDreamItem(userId: number, event: AuditEvent): Promise<DreamItem | undefined>;
+
+  getCalendarSessions(): Promise<AuroraCalendarSession[]>;
+  upsertCalendarSession(session: InsertAuroraCalendarSession): Promise<AuroraCalendarSession>;
+  deleteCalendarSession(date: string): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
-  async getDreamItems(): Promise<DreamItem[]> {
-    return db.select().from(dreamItems).orderBy(dreamItems.id);
+  constructor(private db: Database) {}
+
+  async createSession(session: InsertSession): Promise<Session> {
+    const [created] = await this.db.insert(sessions).values(session).returning();
+    return created;
   }
 
-  async createDreamItem(item: InsertDreamItem): Promise<DreamItem> {
-    const [newItem] = await db.insert(dreamItems).values(item).returning();
-    return newItem;
+  // Expired rows are treated as missing even before the sweep removes them
+  async getSession(sid: string): Promise<Session | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.sid, sid), gt(sessions.expire, new Date())));
+    return session || undefined;
   }
 
-  async updateDreamItem(id: number, updates: Partial<InsertDreamItem>): Promise<DreamItem | undefined> {
-    const [updated] = await db
-      .update(dreamItems)
-      .set(updates)
-      .where(eq(dreamItems.id, id))
+  async getUserSessions(userId: number): Promise<Session[]> {
+    return this.db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), gt(sessions.expire, new Date())))
+      .orderBy(desc(sessions.expire));
+  }
+
+  // Merged into the stored JSON so concurrent patches don't overwrite each other's fields
+  async updateSession(sid: string, patch: Partial<AuthSessionData>): Promise<void> {
+    await this.db
+      .update(sessions)
+      .set({ sess: sql`${sessions.sess} || ${JSON.stringify(patch)}::jsonb` })
+      .where(eq(sessions.sid, sid));
+  }
+
+  // Only applies while the refresh token is still the one the caller presented
+  async rotateSession(sid: string, currentRefreshTokenHash: string, patch: Partial<AuthSessionData>, expire: Date): Promise<boolean> {
+    const result = await this.db
+      .update(sessions)
+      .set({ sess: sql`${sessions.sess} || ${JSON.stringify(patch)}::jsonb`, expire })
+      .where(and(
+        eq(sessions.sid, sid),
+        sql`${sessions.sess}->>'refreshTokenHash' = ${currentRefreshTokenHash}`
+      ))
       .returning();
-    return updated || undefined;
+    return result.length > 0;
   }
 
-  async deleteDreamItem(id: number): Promise<boolean> {
-    const result = await db.delete(dreamItems).where(eq(dreamItems.id, id)).returning();
+  async deleteSession(sid: string): Promise<boolean> {
+    const result = await this.db.delete(sessions).where(eq(sessions.sid, sid)).returning();
     return result.length > 0;
   }
 
-  async getSettings(): Promise<UserSettings | undefined> {
-    const [settings] = await db.select().from(userSettings).limit(1);
-    return settings || undefined;
+  async deleteUserSession(userId: number, sid: string): Promise<boolean> {
+    const result = await this.db
+      .delete(sessions)
+      .where(and(eq(sessions.sid, sid), eq(sessions.userId, userId)))
+      .returning();
+    return result.length > 0;
   }
 
-  async updateSettings(updates: Partial<InsertUserSettings>): Promise<UserSettings> {
-    const existing = await this.getSettings();
-    if (existing) {
-      const [updated] = await db
-        .update(userSettings)
-        .set({ ...updates, updatedAt: new Date() })
-        .where(eq(userSettings.id, existing.id))
+  async deleteUserSessions(userId: number): Promise<number> {
+    const result = await this.db.delete(sessions).where(eq(sessions.userId, userId)).returning();
+    return result.length;
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const result = await this.db.delete(sessions).where(lte(sessions.expire, new Date())).returning();
+    return result.length;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async countUsers(): Promise<number> {
+    const [result] = await this.db.select({ value: count() }).from(users);
+    return result.value;
+  }
+
+  // With an invite code the invite is redeemed in the same transaction; returns
+  // undefined if the code is unknown, already used or expired.
+  async createUser(user: InsertUser, inviteCode?: string): Promise<User | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(users).values(user).returning();
+      if (inviteCode !== undefined) {
+        const [redeemed] = await tx
+          .update(userInvites)
+          .set({ usedBy: created.id, usedAt: new Date() })
+          .where(and(
+            eq(userInvites.code, inviteCode),
+            isNull(userInvites.usedAt),
+            gt(userInvites.expiresAt, new Date()),
+          ))
+          .returning();
+        if (!redeemed) {
+          tx.rollback();
+        }
+      }
+      await this.ensureDefaultBoard(tx, created.id);
+      return created;
+    }).catch((error) => {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    });
+  }
+
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const [updated] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return updated || undefined;
+  }
+
+  // Creates an admin only if there are no users yet (undefined otherwise) and
+  // hands it the rows written before accounts existed. The lock makes the
+  // check and the insert one step, so racing instances can't both succeed.
+  async createFirstAdmin(user: InsertUser): Promise<User | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('dream-machine:first-admin'))`);
+      const [existing] = await tx.select({ value: count() }).from(users);
+      if (existing.value > 0) return undefined;
+
+      const [created] = await tx.insert(users).values({ ...user, isAdmin: true }).returning();
+      const userId = created.id;
+      await tx.update(boards).set({ userId }).where(isNull(boards.userId));
+      await tx.update(dreamItems).set({ userId }).where(isNull(dreamItems.userId));
+      await tx.update(userSettings).set({ userId }).where(isNull(userSettings.userId));
+      await tx.update(balanceEntries).set({ userId }).where(isNull(balanceEntries.userId));
+      await tx.update(planBaselines).set({ userId }).where(isNull(planBaselines.userId));
+      await this.ensureDefaultBoard(tx, userId);
+      return created;
+    });
+  }
+
+  async getInvites(createdBy: number): Promise<UserInvite[]> {
+    return this.db
+      .select()
+      .from(userInvites)
+      .where(eq(userInvites.createdBy, createdBy))
+      .orderBy(desc(userInvites.createdAt));
+  }
+
+  async createInvite(invite: InsertUserInvite): Promise<UserInvite> {
+    const [created] = await this.db.insert(userInvites).values(invite).returning();
+    return created;
+  }
+
+  // Every user gets a board when they are created; GET /api/boards never writes.
+  // Dreams without a board (from before boards existed) join the first one.
+  private async ensureDefaultBoard(tx: DbTransaction, userId: number): Promise<Board> {
+    let [board] = await tx
+      .select()
+      .from(boards)
+      .where(eq(boards.userId, userId))
+      .orderBy(asc(boards.id))
+      .limit(1);
+    if (!board) {
+      [board] = await tx.insert(boards).values({ userId, name: "Dream Board" }).returning();
+    }
+    await tx
+      .update(dreamItems)
+      .set({ boardId: board.id })
+      .where(and(eq(dreamItems.userId, userId), isNull(dreamItems.boardId)));
+    return board;
+  }
+
+  // Starts a new window at count 1 if the key is new or its window has lapsed;
+  // a single upsert so concurrent requests can't both see the old count
+  async incrementRateLimit(key: string, windowMs: number, now: number): Promise<RateLimit> {
+    const lapsed = sql`${rateLimits.expiresAt} <= ${now}`;
+    const [row] = await this.db
+      .insert(rateLimits)
+      .values({ key, count: 1, windowStart: now, expiresAt: now + windowMs })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`CASE WHEN ${lapsed} THEN 1 ELSE ${rateLimits.count} + 1 END`,
+          windowStart: sql`CASE WHEN ${lapsed} THEN ${now} ELSE ${rateLimits.windowStart} END`,
+          expiresAt: sql`CASE WHEN ${lapsed} THEN ${now + windowMs} ELSE ${rateLimits.expiresAt} END`,
+        },
+      })
+      .returning();
+    return row;
+  }
+
+  async getRateLimit(key: string): Promise<RateLimit | undefined> {
+    const [row] = await this.db.select().from(rateLimits).where(eq(rateLimits.key, key));
+    return row || undefined;
+  }
+
+  async deleteRateLimit(key: string): Promise<void> {
+    await this.db.delete(rateLimits).where(eq(rateLimits.key, key));
+  }
+
+  async deleteExpiredRateLimits(now: number): Promise<number> {
+    const result = await this.db.delete(rateLimits).where(lte(rateLimits.expiresAt, now)).returning();
+    return result.length;
+  }
+
+  async getBoards(userId: number): Promise<Board[]> {
+    return this.db.select().from(boards).where(eq(boards.userId, userId)).orderBy(asc(boards.id));
+  }
+
+  async getBoard(userId: number, id: number): Promise<Board | undefined> {
+    const [board] = await this.db.select().from(boards).where(and(eq(boards.id, id), eq(boards.userId, userId)));
+    return board || undefined;
+  }
+
+  async createBoard(userId: number, board: InsertBoard): Promise<Board> {
+    return this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(boards).values({ ...board, userId }).returning();
+      await this.recordAudit(tx, userId, "board", "create", created.id, null, created);
+      return created;
+    });
+  }
+
+  async updateBoard(userId: number, id: number, updates: Partial<InsertBoard>): Promise<Board | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [before] = await tx.select().from(boards).where(and(eq(boards.id, id), eq(boards.userId, userId)));
+      if (!before) return undefined;
+      const [updated] = await tx.update(boards).set(updates).where(eq(boards.id, id)).returning();
+      await this.recordAudit(tx, userId, "board", "update", id, before, updated);
+      return updated;
+    });
+  }
+
+  // The board's dreams move to the Trash of the user's first other board
+  // rather than cascading away, so they stay restorable until the purge
+  async deleteBoard(userId: number, id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [board] = await tx.select().from(boards).where(and(eq(boards.id, id), eq(boards.userId, userId)));
+      if (!board) return false;
+      const [fallback] = await tx
+        .select()
+        .from(boards)
+        .where(and(eq(boards.userId, userId), ne(boards.id, id)))
+        .orderBy(asc(boards.id))
+        .limit(1);
+      if (!fallback) throw new Error("Cannot delete a user's only board");
+
+      const items = await tx.select().from(dreamItems).where(eq(dreamItems.boardId, id)).orderBy(dreamItems.id);
+      for (const before of items) {
+        const [after] = await tx
+          .update(dreamItems)
+          .set({ boardId: fallback.id, deletedAt: before.deletedAt ?? new Date() })
+          .where(eq(dreamItems.id, before.id))
+          .returning();
+        // Dreams already in the Trash only change board
+        await this.recordAudit(tx, userId, "dream_item", before.deletedAt ? "update" : "delete", before.id, before, after);
+      }
+
+      await tx.delete(boards).where(eq(boards.id, id));
+      await this.recordAudit(tx, userId, "board", "delete", id, board, null);
+      return true;
+    });
+  }
+
+  // Dreams in the Trash are left out; see getDeletedDreamItems
+  async getDreamItems(userId: number, boardId?: number): Promise<DreamItem[]> {
+    const conditions = [eq(dreamItems.userId, userId), isNull(dreamItems.deletedAt)];
+    if (boardId !== undefined) conditions.push(eq(dreamItems.boardId, boardId));
+    return this.db.select().from(dreamItems).where(and(...conditions)).orderBy(dreamItems.id);
+  }
+
+  async getDreamItem(userId: number, id: number): Promise<DreamItem | undefined> {
+    const [item] = await this.db
+      .select()
+      .from(dreamItems)
+      .where(and(eq(dreamItems.id, id), eq(dreamItems.userId, userId), isNull(dreamItems.deletedAt)));
+    return item || undefined;
+  }
+
+  async createDreamItem(userId: number, item: InsertDreamItem): Promise<DreamItem> {
+    return this.db.transaction(async (tx) => {
+      const boardId = item.boardId ?? (await this.ensureDefaultBoard(tx, userId)).id;
+      const [newItem] = await tx.insert(dreamItems).values({ ...item, userId, boardId }).returning();
+      await this.recordAudit(tx, userId, "dream_item", "create", newItem.id, null, newItem);
+      return newItem;
+    });
+  }
+
+  async updateDreamItem(userId: number, id: number, updates: Partial<InsertDreamItem>): Promise<DreamItem | undefined> {
+    return this.updateDreamItemAudited(userId, id, updates, "update");
+  }
+
+  private async updateDreamItemAudited(userId: number, id: number, updates: Partial<InsertDreamItem>, action: AuditAction): Promise<DreamItem | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(dreamItems)
+        .where(and(eq(dreamItems.id, id), eq(dreamItems.userId, userId), isNull(dreamItems.deletedAt)));
+      if (!before) return undefined;
+      const [updated] = await tx.update(dreamItems).set(updates).where(eq(dreamItems.id, id)).returning();
+      await this.recordAudit(tx, userId, "dream_item", action, id, before, updated);
+      return updated;
+    });
+  }
+
+  // Moves the dream to the Trash; purgeDeletedDreamItems removes it for good later
+  async deleteDreamItem(userId: number, id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(dreamItems)
+        .where(and(eq(dreamItems.id, id), eq(dreamItems.userId, userId), isNull(dreamItems.deletedAt)));
+      if (!before) return false;
+      const [deleted] = await tx
+        .update(dreamItems)
+        .set({ deletedAt: new Date() })
+        .where(eq(dreamItems.id, id))
+        .returning();
+      await this.recordAudit(tx, userId, "dream_item", "delete", id, before, deleted);
+      return true;
+    });
+  }
+
+  // Later items win over earlier ones with the same key. A dry run only works
+  // out what would happen.
+  async importDreamItems(userId: number, boardId: number, items: InsertDreamItem[], dryRun: boolean): Promise<DreamImportMatch[]> {
+    return this.db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(dreamItems)
+        .where(and(eq(dreamItems.userId, userId), eq(dreamItems.boardId, boardId), isNull(dreamItems.deletedAt)));
+      // null marks a key a dry run would have created
+      const byKey = new Map<string, DreamItem | null>(existing.map(item => [dreamImportKey(item), item]));
+      const matches: DreamImportMatch[] = [];
+
+      for (const item of items) {
+        const key = dreamImportKey(item);
+        if (!byKey.has(key)) {
+          let created: DreamItem | null = null;
+          if (!dryRun) {
+            [created] = await tx.insert(dreamItems).values({ ...item, userId, boardId }).returning();
+            await this.recordAudit(tx, userId, "dream_item", "create", created.id, null, created);
+          }
+          byKey.set(key, created);
+          matches.push({ action: "create", id: created?.id ?? null });
+          continue;
+        }
+
+        const before = byKey.get(key) ?? null;
+        if (!dryRun && before) {
+          const [updated] = await tx
+            .update(dreamItems)
+            .set({ ...item, boardId })
+            .where(eq(dreamItems.id, before.id))
+            .returning();
+          await this.recordAudit(tx, userId, "dream_item", "update", before.id, before, updated);
+          byKey.set(key, updated);
+        }
+        matches.push({ action: "update", id: before?.id ?? null });
+      }
+      return matches;
+    });
+  }
+
+  async getDeletedDreamItems(userId: number, boardId?: number): Promise<DreamItem[]> {
+    const conditions = [eq(dreamItems.userId, userId), isNotNull(dreamItems.deletedAt)];
+    if (boardId !== undefined) conditions.push(eq(dreamItems.boardId, boardId));
+    return this.db.select().from(dreamItems).where(and(...conditions)).orderBy(desc(dreamItems.deletedAt));
+  }
+
+  async restoreDreamItem(userId: number, id: number): Promise<DreamItem | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(dreamItems)
+        .where(and(eq(dreamItems.id, id), eq(dreamItems.userId, userId), isNotNull(dreamItems.deletedAt)));
+      if (!before) return undefined;
+      const [restored] = await tx
+        .update(dreamItems)
+        .set({ deletedAt: null })
+        .where(eq(dreamItems.id, id))
+        .returning();
+      await this.recordAudit(tx, userId, "dream_item", "restore", id, before, restored);
+      return restored;
+    });
+  }
+
+  // Their audit history stays behind, so what was purged is still on record
+  async purgeDeletedDreamItems(deletedBefore: Date): Promise<DreamItem[]> {
+    return this.db
+      .delete(dreamItems)
+      .where(lte(dreamItems.deletedAt, deletedBefore))
+      .returning();
+  }
+
+  // Counts dreams in the Trash too, since they can still be restored
+  async isImageInUse(imageKey: string): Promise<boolean> {
+    const [item] = await this.db.select({ id: dreamItems.id }).from(dreamItems).where(eq(dreamItems.imageKey, imageKey)).limit(1);
+    return !!item;
+  }
+
+  async setDreamItemsHidden(userId: number, hidden: boolean, scope: { ids?: number[]; category?: string; boardId?: number } = {}): Promise<DreamItem[]> {
+    const conditions = [eq(dreamItems.userId, userId), isNull(dreamItems.deletedAt)];
+    if (scope.ids) conditions.push(inArray(dreamItems.id, scope.ids));
+    if (scope.category) conditions.push(eq(dreamItems.category, scope.category));
+    if (scope.boardId !== undefined) conditions.push(eq(dreamItems.boardId, scope.boardId));
+    return this.db.transaction(async (tx) => {
+      const before = await tx.select().from(dreamItems).where(and(...conditions));
+      const updated = await tx
+        .update(dreamItems)
+        .set({ hidden })
+        .where(and(...conditions))
         .returning();
+      // Only dreams whose visibility actually flipped get an audit row
+      const beforeById = new Map(before.map(item => [item.id, item]));
+      for (const item of updated) {
+        const previous = beforeById.get(item.id);
+        if (previous && previous.hidden !== hidden) {
+          await this.recordAudit(tx, userId, "dream_item", "update", item.id, previous, item);
+        }
+      }
       return updated;
-    } else {
-      const [created] = await db.insert(userSettings).values(updates).returning();
+    });
+  }
+
+  // Every owner's dreams with a link that are still wanted
+  async getPriceTrackedDreamItems(): Promise<DreamItem[]> {
+    return this.db
+      .select()
+      .from(dreamItems)
+      .where(and(
+        isNotNull(dreamItems.url),
+        isNotNull(dreamItems.userId),
+        eq(dreamItems.purchased, false),
+        isNull(dreamItems.deletedAt),
+      ))
+      .orderBy(asc(dreamItems.id));
+  }
+
+  async recordDreamPrice(dreamItemId: number, price: number, currency: string | null): Promise<DreamPriceCheck> {
+    return this.db.transaction(async (tx) => {
+      const [item] = await tx
+        .select()
+        .from(dreamItems)
+        .where(and(eq(dreamItems.id, dreamItemId), isNull(dreamItems.deletedAt)));
+      if (!item) return { changed: false, costUpdated: false, costSkipped: false };
+
+      const [last] = await tx
+        .select()
+        .from(dreamPriceHistory)
+        .where(eq(dreamPriceHistory.dreamItemId, dreamItemId))
+        .orderBy(desc(dreamPriceHistory.recordedAt), desc(dreamPriceHistory.id))
+        .limit(1);
+      const changed = !last || last.price !== price || last.currency !== currency;
+      if (changed) {
+        await tx.insert(dreamPriceHistory).values({ dreamItemId, price, currency });
+      }
+
+      const wantsUpdate = item.autoUpdateCost && item.userId !== null && isCostCurrency(currency) && item.cost !== price;
+      const costUpdated = wantsUpdate && isPlausibleCost(item.cost, price);
+      if (costUpdated) {
+        const [updated] = await tx.update(dreamItems).set({ cost: price }).where(eq(dreamItems.id, dreamItemId)).returning();
+        await this.recordAudit(tx, item.userId!, "dream_item", "update", dreamItemId, item, updated);
+      }
+      return { changed, costUpdated, costSkipped: wantsUpdate && !costUpdated };
+    });
+  }
+
+  async getDreamPriceHistory(userId: number, boardId: number): Promise<DreamPricePoint[]> {
+    const rows = await this.db
+      .select({ point: dreamPriceHistory })
+      .from(dreamPriceHistory)
+      .innerJoin(dreamItems, eq(dreamItems.id, dreamPriceHistory.dreamItemId))
+      .where(and(eq(dreamItems.userId, userId), eq(dreamItems.boardId, boardId), isNull(dreamItems.deletedAt)))
+      .orderBy(asc(dreamPriceHistory.recordedAt), asc(dreamPriceHistory.id));
+    return rows.map(row => row.point);
+  }
+
+  async getSettings(userId: number): Promise<UserSettings | undefined> {
+    const [settings] = await this.db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return settings || undefined;
+  }
+
+  async updateSettings(userId: number, updates: Partial<InsertUserSettings>): Promise<UserSettings> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(userSettings).where(eq(userSettings.userId, userId));
+      if (existing) {
+        const [updated] = await tx
+          .update(userSettings)
+          .set({ ...updates, updatedAt: new Date() })
+          .where(eq(userSettings.id, existing.id))
+          .returning();
+        await this.recordAudit(tx, userId, "user_settings", "update", updated.id, existing, updated);
+        return updated;
+      } else {
+        const [created] = await tx.insert(userSettings).values({ ...updates, userId }).returning();
+        await this.recordAudit(tx, userId, "user_settings", "create", created.id, null, created);
+        return created;
+      }
+    });
+  }
+
+  async getBalanceEntries(userId: number, limit?: number): Promise<BalanceEntry[]> {
+    const query = this.db
+      .select()
+      .from(balanceEntries)
+      .where(eq(balanceEntries.userId, userId))
+      .orderBy(desc(balanceEntries.timestamp), desc(balanceEntries.id));
+    return limit ? query.limit(limit) : query;
+  }
+
+  // Latest running balance in the ledger, falling back to the settings snapshot
+  // from before the ledger existed.
+  async getLedgerBalance(userId: number): Promise<number> {
+    const [latest] = await this.getBalanceEntries(userId, 1);
+    if (latest) return latest.balanceAfter;
+    const settings = await this.getSettings(userId);
+    return settings?.currentBalance ?? 0;
+  }
+
+  async createBalanceEntry(userId: number, entry: InsertBalanceEntry): Promise<BalanceEntry> {
+    return this.db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select()
+        .from(balanceEntries)
+        .where(eq(balanceEntries.userId, userId))
+        .orderBy(desc(balanceEntries.timestamp), desc(balanceEntries.id))
+        .limit(1);
+      const [settings] = await tx.select().from(userSettings).where(eq(userSettings.userId, userId));
+      const previousBalance = latest ? latest.balanceAfter : (settings?.currentBalance ?? 0);
+
+      const [created] = await tx
+        .insert(balanceEntries)
+        .values({ ...entry, userId, balanceAfter: previousBalance + entry.amount })
+        .returning();
+
+      await this.recordAudit(tx, userId, "balance_entry", "create", created.id, null, created);
+
+      if (settings) {
+        const [updated] = await tx
+          .update(userSettings)
+          .set({ currentBalance: created.balanceAfter, updatedAt: new Date() })
+          .where(eq(userSettings.id, settings.id))
+          .returning();
+        await this.recordAudit(tx, userId, "user_settings", "update", updated.id, settings, updated);
+      } else {
+        const [inserted] = await tx.insert(userSettings).values({ userId, currentBalance: created.balanceAfter }).returning();
+        await this.recordAudit(tx, userId, "user_settings", "create", inserted.id, null, inserted);
+      }
+      return created;
+    });
+  }
+
+  async getBalanceEntriesSince(userId: number, since: Date): Promise<BalanceEntry[]> {
+    return this.db
+      .select()
+      .from(balanceEntries)
+      .where(and(eq(balanceEntries.userId, userId), gte(balanceEntries.timestamp, since)))
+      .orderBy(asc(balanceEntries.timestamp), asc(balanceEntries.id));
+  }
+
+  async getPlanBaseline(userId: number): Promise<PlanBaseline | undefined> {
+    const [baseline] = await this.db
+      .select()
+      .from(planBaselines)
+      .where(eq(planBaselines.userId, userId))
+      .orderBy(desc(planBaselines.id))
+      .limit(1);
+    return baseline || undefined;
+  }
+
+  async createPlanBaseline(userId: number, baseline: InsertPlanBaseline): Promise<PlanBaseline> {
+    return this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(planBaselines).values({ ...baseline, userId }).returning();
+      await this.recordAudit(tx, userId, "plan_baseline", "create", created.id, null, created);
       return created;
+    });
+  }
+
+  // Written in the caller's transaction so a change and its audit row commit together
+  private async recordAudit(
+    tx: DbTransaction,
+    actorId: number,
+    entity: AuditEntity,
+    action: AuditAction,
+    entityId: number,
+    before: object | null,
+    after: object | null
+  ): Promise<void> {
+    await tx.insert(auditEvents).values({
+      actorId,
+      entity,
+      entityId,
+      action,
+      before: before as Record<string, unknown> | null,
+      after: after as Record<string, unknown> | null,
+      ip: getRequestIp(),
+    });
+  }
+
+  // Batched for bulk writes such as a restore
+  private async recordAuditMany(
+    tx: DbTransaction,
+    actorId: number,
+    entity: AuditEntity,
+    action: AuditAction,
+    changes: AuditChange[]
+  ): Promise<void> {
+    const ip = getRequestIp();
+    for (const batch of chunk(changes, INSERT_BATCH_SIZE)) {
+      await tx.insert(auditEvents).values(batch.map(change => ({
+        actorId,
+        entity,
+        entityId: change.entityId,
+        action,
+        before: change.before as Record<string, unknown> | null,
+        after: change.after as Record<string, unknown> | null,
+        ip,
+      })));
     }
   }
+
+  async getAccountData(userId: number): Promise<AccountData> {
+    return this.readAccountData(this.db, userId);
+  }
+
+  /**
+   * Replaces the account's boards, dreams, ledger and baselines with the
+   * archive's and overwrites its settings, all or nothing. Aurora parameters
+   * are global and matched by name.
+   */
+  async restoreAccount(userId: number, archive: BackupArchive, includeAurora: boolean): Promise<AccountRestore> {
+    return this.db.transaction(async (tx) => {
+      const current = await this.readAccountData(tx, userId);
+      const toDeleted = (rows: { id: number }[]): AuditChange[] =>
+        rows.map(row => ({ entityId: row.id, before: row, after: null }));
+      const toCreated = (rows: { id: number }[]): AuditChange[] =>
+        rows.map(row => ({ entityId: row.id, before: null, after: row }));
+
+      await tx.delete(dreamItems).where(eq(dreamItems.userId, userId));
+      await tx.delete(boards).where(eq(boards.userId, userId));
+      await tx.delete(balanceEntries).where(eq(balanceEntries.userId, userId));
+      await tx.delete(planBaselines).where(eq(planBaselines.userId, userId));
+      await this.recordAuditMany(tx, userId, "dream_item", "delete", toDeleted(current.dreamItems));
+      await this.recordAuditMany(tx, userId, "board", "delete", toDeleted(current.boards));
+      await this.recordAuditMany(tx, userId, "balance_entry", "delete", toDeleted(current.balanceEntries));
+      await this.recordAuditMany(tx, userId, "plan_baseline", "delete", toDeleted(current.planBaselines));
+
+      // One at a time so each archive board id maps to the row that replaced it
+      const boardIds = new Map<number, number>();
+      const createdBoards: Board[] = [];
+      for (const { id, createdAt, ...board } of archive.boards) {
+        const [created] = await tx.insert(boards).values({ ...board, userId, createdAt: createdAt ?? undefined }).returning();
+        boardIds.set(id, created.id);
+        createdBoards.push(created);
+      }
+      await this.recordAuditMany(tx, userId, "board", "create", toCreated(createdBoards));
+
+      const createdItems: DreamItem[] = [];
+      for (const batch of chunk(archive.dreamItems, INSERT_BATCH_SIZE)) {
+        createdItems.push(...await tx.insert(dreamItems).values(batch.map(item => ({
+          ...item,
+          userId,
+          boardId: boardIds.get(item.boardId!)!,
+          createdAt: item.createdAt ?? undefined,
+        }))).returning());
+      }
+      await this.recordAuditMany(tx, userId, "dream_item", "create", toCreated(createdItems));
+
+      const createdEntries: BalanceEntry[] = [];
+      for (const batch of chunk(archive.balanceEntries, INSERT_BATCH_SIZE)) {
+        createdEntries.push(...await tx.insert(balanceEntries).values(batch.map(entry => ({ ...entry, userId }))).returning());
+      }
+      await this.recordAuditMany(tx, userId, "balance_entry", "create", toCreated(createdEntries));
+
+      const createdBaselines: PlanBaseline[] = [];
+      for (const batch of chunk(archive.planBaselines, INSERT_BATCH_SIZE)) {
+        createdBaselines.push(...await tx.insert(planBaselines).values(batch.map(baseline => ({
+          ...baseline,
+          userId,
+          createdAt: baseline.createdAt ?? undefined,
+        }))).returning());
+      }
+      await this.recordAuditMany(tx, userId, "plan_baseline", "create", toCreated(createdBaselines));
+
+      if (archive.settings) {
+        if (current.settings) {
+          const [updated] = await tx
+            .update(userSettings)
+            .set({ ...archive.settings, updatedAt: new Date() })
+            .where(eq(userSettings.id, current.settings.id))
+            .returning();
+          await this.recordAudit(tx, userId, "user_settings", "update", updated.id, current.settings, updated);
+        } else {
+          const [created] = await tx.insert(userSettings).values({ ...archive.settings, userId }).returning();
+          await this.recordAudit(tx, userId, "user_settings", "create", created.id, null, created);
+        }
+      }
+
+      // An archive without boards would otherwise leave the account with none
+      await this.ensureDefaultBoard(tx, userId);
+
+      let auroraParameters = 0;
+      if (includeAurora && archive.auroraParameters) {
+        for (const parameter of archive.auroraParameters) {
+          const [existing] = await tx
+            .select()
+            .from(auroraPraxisParameters)
+            .where(eq(auroraPraxisParameters.name, parameter.name))
+            .limit(1);
+          if (existing) {
+            await tx
+              .update(auroraPraxisParameters)
+              .set({ ...parameter, lastUpdated: new Date() })
+              .where(eq(auroraPraxisParameters.id, existing.id));
+          } else {
+            await tx.insert(auroraPraxisParameters).values(parameter);
+          }
+          auroraParameters++;
+        }
+      }
+
+      return {
+        summary: {
+          boards: createdBoards.length,
+          dreamItems: createdItems.length,
+          balanceEntries: createdEntries.length,
+          planBaselines: createdBaselines.length,
+          auroraParameters,
+        },
+        replacedImageKeys: replacedImageKeys(current.dreamItems, archive),
+      };
+    });
+  }
+
+  private async readAccountData(executor: Database | DbTransaction, userId: number): Promise<AccountData> {
+    const [settings] = await executor.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return {
+      settings,
+      boards: await executor.select().from(boards).where(eq(boards.userId, userId)).orderBy(asc(boards.id)),
+      dreamItems: await executor.select().from(dreamItems).where(eq(dreamItems.userId, userId)).orderBy(asc(dreamItems.id)),
+      balanceEntries: await executor
+        .select()
+        .from(balanceEntries)
+        .where(eq(balanceEntries.userId, userId))
+        .orderBy(asc(balanceEntries.timestamp), asc(balanceEntries.id)),
+      planBaselines: await executor.select().from(planBaselines).where(eq(planBaselines.userId, userId)).orderBy(asc(planBaselines.id)),
+    };
+  }
+
+  async getPraxisParameters(): Promise<AuroraPraxisParameter[]> {
+    return this.db.select().from(auroraPraxisParameters).orderBy(asc(auroraPraxisParameters.name));
+  }
+
+  async getAuditEvents(userId: number, filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+    const conditions = [eq(auditEvents.actorId, userId)];
+    if (filter.entity) conditions.push(eq(auditEvents.entity, filter.entity));
+    if (filter.entityId !== undefined) conditions.push(eq(auditEvents.entityId, filter.entityId));
+    if (filter.since) conditions.push(gte(auditEvents.createdAt, filter.since));
+    return this.db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(filter.limit ?? 100);
+  }
+
+  async getAuditEvent(userId: number, id: number): Promise<AuditEvent | undefined> {
+    const [event] = await this.db
+      .select()
+      .from(auditEvents)
+      .where(and(eq(auditEvents.id, id), eq(auditEvents.actorId, userId)));
+    return event || undefined;
+  }
+
+  // Puts the dream back to how it was before the given change. A board that no
+  // longer exists is left as is rather than restored.
+  async revertDreamItem(userId: number, event: AuditEvent): Promise<DreamItem | undefined> {
+    if (!event.before) return undefined;
+    const restored: Record<string, unknown> = {};
+    for (const field of REVERTIBLE_DREAM_FIELDS) {
+      if (field in event.before) restored[field] = event.before[field];
+    }
+    if (typeof restored.boardId === "number" && !(await this.getBoard(userId, restored.boardId))) {
+      delete restored.boardId;
+    }
+    return this.updateDreamItemAudited(userId, event.entityId, restored as Partial<InsertDreamItem>, "revert");
+  }
+
+  async getCalendarSessions(): Promise<AuroraCalendarSession[]> {
+    return this.db.select().from(auroraCalendarSessions).orderBy(asc(auroraCalendarSessions.date));
+  }
+
+  async upsertCalendarSession(session: InsertAuroraCalendarSession): Promise<AuroraCalendarSession> {
+    const [saved] = await this.db
+      .insert(auroraCalendarSessions)
+      .values(session)
+      .onConflictDoUpdate({
+        target: auroraCalendarSessions.date,
+        set: { dayType: session.dayType, note: session.note ?? null },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteCalendarSession(date: string): Promise<boolean> {
+    const result = await this.db.delete(auroraCalendarSessions).where(eq(auroraCalendarSessions.date, date)).returning();
+    return result.length > 0;
+  }
 }
 
-export const storage = new DatabaseStorage();
+// Drizzle skips undefined values in inserts and updates; match that
+const definedValues = <T extends object>(values: T): Partial<T> =>
+  Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+// Audit snapshots are stored as jsonb, so dates come back as strings
+const toSnapshot = (row: object | null): Record<string, unknown> | null =>
+  row ? JSON.parse(JSON.stringify(row)) : null;
+
+const byIdAsc = (a: { id: number }, b: { id: number }) => a.id - b.id;
+
+const newestEntryFirst = (a: BalanceEntry, b: BalanceEntry) =>
+  b.timestamp.getTime() - a.timestamp.getTime() || b.id - a.id;
+
+/**
+ * Keeps everything in process memory, for offline development and tests.
+ * Mirrors DatabaseStorage's behaviour, including audit rows and cascades;
+ * nothing survives a restart.
+ */
+export class MemStorage implements IStorage {
+  private sessions = new Map<string, Session>();
+  private users: User[] = [];
+  private invites: UserInvite[] = [];
+  private rateLimits = new Map<string, RateLimit>();
+  private boards: Board[] = [];
+  private dreamItems: DreamItem[] = [];
+  private priceHistory: DreamPricePoint[] = [];
+  private settings: UserSettings[] = [];
+  private balanceEntries: BalanceEntry[] = [];
+  private planBaselines: PlanBaseline[] = [];
+  private auditEvents: AuditEvent[] = [];
+  private calendarSessions = new Map<string, AuroraCalendarSession>();
+  private praxisParameters: AuroraPraxisParameter[] = [];
+  private lastIds = new Map<string, number>();
+
+  private nextId(table: string): number {
+    const id = (this.lastIds.get(table) ?? 0) + 1;
+    this.lastIds.set(table, id);
+    return id;
+  }
+
+  private isLive(session: Session): boolean {
+    return session.expire > new Date();
+  }
+
+  async createSession(session: InsertSession): Promise<Session> {
+    const created: Session = { userId: null, ...definedValues(session), sid: session.sid, sess: session.sess, expire: session.expire };
+    this.sessions.set(created.sid, created);
+    return { ...created };
+  }
+
+  async getSession(sid: string): Promise<Session | undefined> {
+    const session = this.sessions.get(sid);
+    return session && this.isLive(session) ? { ...session } : undefined;
+  }
+
+  async getUserSessions(userId: number): Promise<Session[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId && this.isLive(session))
+      .sort((a, b) => b.expire.getTime() - a.expire.getTime())
+      .map(session => ({ ...session }));
+  }
+
+  async updateSession(sid: string, patch: Partial<AuthSessionData>): Promise<void> {
+    const session = this.sessions.get(sid);
+    if (session) session.sess = { ...session.sess, ...patch };
+  }
+
+  async rotateSession(sid: string, currentRefreshTokenHash: string, patch: Partial<AuthSessionData>, expire: Date): Promise<boolean> {
+    const session = this.sessions.get(sid);
+    if (!session || session.sess.refreshTokenHash !== currentRefreshTokenHash) return false;
+    session.sess = { ...session.sess, ...patch };
+    session.expire = expire;
+    return true;
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    return this.sessions.delete(sid);
+  }
+
+  async deleteUserSession(userId: number, sid: string): Promise<boolean> {
+    if (this.sessions.get(sid)?.userId !== userId) return false;
+    return this.sessions.delete(sid);
+  }
+
+  async deleteUserSessions(userId: number): Promise<number> {
+    return this.deleteSessionsWhere(session => session.userId === userId);
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    return this.deleteSessionsWhere(session => !this.isLive(session));
+  }
+
+  private deleteSessionsWhere(predicate: (session: Session) => boolean): number {
+    let deleted = 0;
+    this.sessions.forEach((session, sid) => {
+      if (predicate(session)) {
+        this.sessions.delete(sid);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const user = this.users.find(user => user.id === id);
+    return user ? { ...user } : undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const user = this.users.find(user => user.username === username);
+    return user ? { ...user } : undefined;
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.length;
+  }
+
+  async createUser(user: InsertUser, inviteCode?: string): Promise<User | undefined> {
+    let invite: UserInvite | undefined;
+    if (inviteCode !== undefined) {
+      invite = this.invites.find(invite => invite.code === inviteCode && !invite.usedAt && invite.expiresAt > new Date());
+      if (!invite) return undefined;
+    }
+
+    const created = this.insertUser(user);
+    if (invite) {
+      invite.usedBy = created.id;
+      invite.usedAt = new Date();
+    }
+    this.ensureDefaultBoard(created.id);
+    return { ...created };
+  }
+
+  private insertUser(user: InsertUser): User {
+    if (this.users.some(existing => existing.username === user.username)) {
+      throw new Error(`duplicate key value violates unique constraint "users_username_unique"`);
+    }
+    const created: User = {
+      isAdmin: false,
+      totpSecret: null,
+      totpEnabled: false,
+      totpLastStep: null,
+      totpRecoveryCodes: null,
+      createdAt: new Date(),
+      ...definedValues(user),
+      id: this.nextId("users"),
+      username: user.username,
+      passwordHash: user.passwordHash,
+    };
+    this.users.push(created);
+    return created;
+  }
+
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.find(user => user.id === id);
+    if (!user) return undefined;
+    Object.assign(user, definedValues(updates), { id });
+    return { ...user };
+  }
+
+  async createFirstAdmin(user: InsertUser): Promise<User | undefined> {
+    if (this.users.length > 0) return undefined;
+    const created = this.insertUser({ ...user, isAdmin: true });
+    for (const rows of [this.boards, this.dreamItems, this.settings, this.balanceEntries, this.planBaselines]) {
+      for (const row of rows) {
+        if (row.userId === null) row.userId = created.id;
+      }
+    }
+    this.ensureDefaultBoard(created.id);
+    return { ...created };
+  }
+
+  async getInvites(createdBy: number): Promise<UserInvite[]> {
+    return this.invites
+      .filter(invite => invite.createdBy === createdBy)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) || b.id - a.id)
+      .map(invite => ({ ...invite }));
+  }
+
+  async createInvite(invite: InsertUserInvite): Promise<UserInvite> {
+    const created: UserInvite = {
+      usedBy: null,
+      usedAt: null,
+      createdAt: new Date(),
+      ...definedValues(invite),
+      id: this.nextId("user_invites"),
+      code: invite.code,
+      createdBy: invite.createdBy,
+      expiresAt: invite.expiresAt,
+    };
+    this.invites.push(created);
+    return { ...created };
+  }
+
+  // Mirrors DatabaseStorage: boards are made on writes, never on reads
+  private ensureDefaultBoard(userId: number): Board {
+    let board = this.boards.filter(board => board.userId === userId).sort(byIdAsc)[0];
+    if (!board) board = this.insertBoard(userId, { name: "Dream Board" });
+    for (const item of this.dreamItems) {
+      if (item.userId === userId && item.boardId === null) item.boardId = board.id;
+    }
+    return board;
+  }
+
+  async incrementRateLimit(key: string, windowMs: number, now: number): Promise<RateLimit> {
+    const existing = this.rateLimits.get(key);
+    if (existing && existing.expiresAt > now) {
+      existing.count++;
+      return { ...existing };
+    }
+    const row: RateLimit = { key, count: 1, windowStart: now, expiresAt: now + windowMs };
+    this.rateLimits.set(key, row);
+    return { ...row };
+  }
+
+  async getRateLimit(key: string): Promise<RateLimit | undefined> {
+    const row = this.rateLimits.get(key);
+    return row ? { ...row } : undefined;
+  }
+
+  async deleteRateLimit(key: string): Promise<void> {
+    this.rateLimits.delete(key);
+  }
+
+  async deleteExpiredRateLimits(now: number): Promise<number> {
+    let deleted = 0;
+    this.rateLimits.forEach((row, key) => {
+      if (row.expiresAt <= now) {
+        this.rateLimits.delete(key);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  private insertBoard(userId: number, board: Partial<InsertBoard> & { name: string; createdAt?: Date }): Board {
+    const created: Board = {
+      description: null,
+      ultimateGoal: null,
+      originBalance: null,
+      createdAt: new Date(),
+      ...definedValues(board),
+      id: this.nextId("boards"),
+      userId,
+      name: board.name,
+    };
+    this.boards.push(created);
+    return created;
+  }
+
+  private findBoard(userId: number, id: number): Board | undefined {
+    return this.boards.find(board => board.id === id && board.userId === userId);
+  }
+
+  async getBoards(userId: number): Promise<Board[]> {
+    return this.boards.filter(board => board.userId === userId).sort(byIdAsc).map(board => ({ ...board }));
+  }
+
+  async getBoard(userId: number, id: number): Promise<Board | undefined> {
+    const board = this.findBoard(userId, id);
+    return board ? { ...board } : undefined;
+  }
+
+  async createBoard(userId: number, board: InsertBoard): Promise<Board> {
+    const created = this.insertBoard(userId, board);
+    this.recordAudit(userId, "board", "create", created.id, null, created);
+    return { ...created };
+  }
+
+  async updateBoard(userId: number, id: number, updates: Partial<InsertBoard>): Promise<Board | undefined> {
+    const board = this.findBoard(userId, id);
+    if (!board) return undefined;
+    const before = { ...board };
+    Object.assign(board, definedValues(updates));
+    this.recordAudit(userId, "board", "update", id, before, board);
+    return { ...board };
+  }
+
+  async deleteBoard(userId: number, id: number): Promise<boolean> {
+    const board = this.findBoard(userId, id);
+    if (!board) return false;
+    const fallback = this.boards.filter(other => other.userId === userId && other.id !== id).sort(byIdAsc)[0];
+    if (!fallback) throw new Error("Cannot delete a user's only board");
+
+    for (const item of this.dreamItems.filter(item => item.boardId === id).sort(byIdAsc)) {
+      const before = { ...item };
+      item.boardId = fallback.id;
+      item.deletedAt = before.deletedAt ?? new Date();
+      this.recordAudit(userId, "dream_item", before.deletedAt ? "update" : "delete", item.id, before, item);
+    }
+    this.boards = this.boards.filter(other => other !== board);
+    this.recordAudit(userId, "board", "delete", id, board, null);
+    return true;
+  }
+
+  private insertDreamItem(userId: number, item: InsertDreamItem & { createdAt?: Date | null; deletedAt?: Date | null }): DreamItem {
+    const created: DreamItem = {
+      boardId: null,
+      purchased: false,
+      iconType: "target",
+      url: null,
+      category: "Uncategorized",
+      hidden: false,
+      imageKey: null,
+      autoUpdateCost: false,
+      createdAt: new Date(),
+      deletedAt: null,
+      ...definedValues(item),
+      id: this.nextId("dream_items"),
+      userId,
+      name: item.name,
+      cost: item.cost,
+    };
+    this.dreamItems.push(created);
+    return created;
+  }
+
+  private findDreamItem(userId: number, id: number, deleted: boolean): DreamItem | undefined {
+    return this.dreamItems.find(item => item.id === id && item.userId === userId && (item.deletedAt !== null) === deleted);
+  }
+
+  async getDreamItems(userId: number, boardId?: number): Promise<DreamItem[]> {
+    return this.dreamItems
+      .filter(item => item.userId === userId && item.deletedAt === null && (boardId === undefined || item.boardId === boardId))
+      .sort(byIdAsc)
+      .map(item => ({ ...item }));
+  }
+
+  async getDreamItem(userId: number, id: number): Promise<DreamItem | undefined> {
+    const item = this.findDreamItem(userId, id, false);
+    return item ? { ...item } : undefined;
+  }
+
+  async createDreamItem(userId: number, item: InsertDreamItem): Promise<DreamItem> {
+    const boardId = item.boardId ?? this.ensureDefaultBoard(userId).id;
+    const created = this.insertDreamItem(userId, { ...item, boardId });
+    this.recordAudit(userId, "dream_item", "create", created.id, null, created);
+    return { ...created };
+  }
+
+  async updateDreamItem(userId: number, id: number, updates: Partial<InsertDreamItem>): Promise<DreamItem | undefined> {
+    return this.updateDreamItemAudited(userId, id, updates, "update");
+  }
+
+  private updateDreamItemAudited(userId: number, id: number, updates: Partial<InsertDreamItem>, action: AuditAction): DreamItem | undefined {
+    const item = this.findDreamItem(userId, id, false);
+    if (!item) return undefined;
+    const before = { ...item };
+    Object.assign(item, definedValues(updates));
+    this.recordAudit(userId, "dream_item", action, id, before, item);
+    return { ...item };
+  }
+
+  async deleteDreamItem(userId: number, id: number): Promise<boolean> {
+    const item = this.findDreamItem(userId, id, false);
+    if (!item) return false;
+    const before = { ...item };
+    item.deletedAt = new Date();
+    this.recordAudit(userId, "dream_item", "delete", id, before, item);
+    return true;
+  }
+
+  async getDeletedDreamItems(userId: number, boardId?: number): Promise<DreamItem[]> {
+    return this.dreamItems
+      .filter(item => item.userId === userId && item.deletedAt !== null && (boardId === undefined || item.boardId === boardId))
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime())
+      .map(item => ({ ...item }));
+  }
+
+  async restoreDreamItem(userId: number, id: number): Promise<DreamItem | undefined> {
+    const item = this.findDreamItem(userId, id, true);
+    if (!item) return undefined;
+    const before = { ...item };
+    item.deletedAt = null;
+    this.recordAudit(userId, "dream_item", "restore", id, before, item);
+    return { ...item };
+  }
+
+  async purgeDeletedDreamItems(deletedBefore: Date): Promise<DreamItem[]> {
+    const isExpired = (item: DreamItem) => item.deletedAt !== null && item.deletedAt <= deletedBefore;
+    const purged = this.dreamItems.filter(isExpired);
+    this.dreamItems = this.dreamItems.filter(item => !isExpired(item));
+    this.dropOrphanedPriceHistory();
+    return purged;
+  }
+
+  async isImageInUse(imageKey: string): Promise<boolean> {
+    return this.dreamItems.some(item => item.imageKey === imageKey);
+  }
+
+  async importDreamItems(userId: number, boardId: number, items: InsertDreamItem[], dryRun: boolean): Promise<DreamImportMatch[]> {
+    const byKey = new Map<string, DreamItem | null>(
+      this.dreamItems
+        .filter(item => item.userId === userId && item.boardId === boardId && item.deletedAt === null)
+        .map(item => [dreamImportKey(item), item])
+    );
+    const matches: DreamImportMatch[] = [];
+
+    for (const item of items) {
+      const key = dreamImportKey(item);
+      if (!byKey.has(key)) {
+        let created: DreamItem | null = null;
+        if (!dryRun) {
+          created = this.insertDreamItem(userId, { ...item, boardId });
+          this.recordAudit(userId, "dream_item", "create", created.id, null, created);
+        }
+        byKey.set(key, created);
+        matches.push({ action: "create", id: created?.id ?? null });
+        continue;
+      }
+
+      const existing = byKey.get(key) ?? null;
+      if (!dryRun && existing) {
+        const before = { ...existing };
+        Object.assign(existing, definedValues({ ...item, boardId }));
+        this.recordAudit(userId, "dream_item", "update", existing.id, before, existing);
+      }
+      matches.push({ action: "update", id: existing?.id ?? null });
+    }
+    return matches;
+  }
+
+  async setDreamItemsHidden(userId: number, hidden: boolean, scope: { ids?: number[]; category?: string; boardId?: number } = {}): Promise<DreamItem[]> {
+    const matching = this.dreamItems.filter(item =>
+      item.userId === userId &&
+      item.deletedAt === null &&
+      (!scope.ids || scope.ids.includes(item.id)) &&
+      (!scope.category || item.category === scope.category) &&
+      (scope.boardId === undefined || item.boardId === scope.boardId)
+    );
+    for (const item of matching) {
+      if (item.hidden !== hidden) {
+        const before = { ...item };
+        item.hidden = hidden;
+        this.recordAudit(userId, "dream_item", "update", item.id, before, item);
+      }
+    }
+    return matching.map(item => ({ ...item }));
+  }
+
+  private insertSettings(userId: number, values: Partial<InsertUserSettings>): UserSettings {
+    const created: UserSettings = {
+      currentBalance: 0,
+      ultimateGoal: 348000000,
+      originBalance: 500,
+      taxRate: 0.6,
+      growthRate: 1.2,
+      riskPercent: 20,
+      maxRisk: 1000000,
+      housesMultiplier: 2,
+      defaultMultiplier: 3,
+      maxBuffer: 500000,
+      halfDayWeight: 1,
+      dailyWins: 1,
+      profitTarget: 1,
+      dreamFeedbackMode: "waitTillEnd",
+      updatedAt: new Date(),
+      ...definedValues(values),
+      id: this.nextId("user_settings"),
+      userId,
+    };
+    this.settings.push(created);
+    return created;
+  }
+
+  async getPriceTrackedDreamItems(): Promise<DreamItem[]> {
+    return this.dreamItems
+      .filter(item => item.url !== null && item.userId !== null && !item.purchased && item.deletedAt === null)
+      .sort(byIdAsc)
+      .map(item => ({ ...item }));
+  }
+
+  async recordDreamPrice(dreamItemId: number, price: number, currency: string | null): Promise<DreamPriceCheck> {
+    const item = this.dreamItems.find(item => item.id === dreamItemId && item.deletedAt === null);
+    if (!item) return { changed: false, costUpdated: false, costSkipped: false };
+
+    const last = this.priceHistory.filter(point => point.dreamItemId === dreamItemId).pop();
+    const changed = !last || last.price !== price || last.currency !== currency;
+    if (changed) {
+      this.priceHistory.push({ id: this.nextId("dream_price_history"), dreamItemId, price, currency, recordedAt: new Date() });
+    }
+
+    const wantsUpdate = item.autoUpdateCost && item.userId !== null && isCostCurrency(currency) && item.cost !== price;
+    const costUpdated = wantsUpdate && isPlausibleCost(item.cost, price);
+    if (costUpdated) {
+      const before = { ...item };
+      item.cost = price;
+      this.recordAudit(item.userId!, "dream_item", "update", dreamItemId, before, item);
+    }
+    return { changed, costUpdated, costSkipped: wantsUpdate && !costUpdated };
+  }
+
+  async getDreamPriceHistory(userId: number, boardId: number): Promise<DreamPricePoint[]> {
+    const itemIds = new Set(this.dreamItems
+      .filter(item => item.userId === userId && item.boardId === boardId && item.deletedAt === null)
+      .map(item => item.id));
+    return this.priceHistory.filter(point => itemIds.has(point.dreamItemId)).map(point => ({ ...point }));
+  }
+
+  // Stands in for the cascade from dream_items
+  private dropOrphanedPriceHistory(): void {
+    const itemIds = new Set(this.dreamItems.map(item => item.id));
+    this.priceHistory = this.priceHistory.filter(point => itemIds.has(point.dreamItemId));
+  }
+
+  async getSettings(userId: number): Promise<UserSettings | undefined> {
+    const settings = this.settings.find(settings => settings.userId === userId);
+    return settings ? { ...settings } : undefined;
+  }
+
+  async updateSettings(userId: number, updates: Partial<InsertUserSettings>): Promise<UserSettings> {
+    const existing = this.settings.find(settings => settings.userId === userId);
+    if (existing) {
+      const before = { ...existing };
+      Object.assign(existing, definedValues(updates), { updatedAt: new Date() });
+      this.recordAudit(userId, "user_settings", "update", existing.id, before, existing);
+      return { ...existing };
+    }
+    const created = this.insertSettings(userId, updates);
+    this.recordAudit(userId, "user_settings", "create", created.id, null, created);
+    return { ...created };
+  }
+
+  async getBalanceEntries(userId: number, limit?: number): Promise<BalanceEntry[]> {
+    const entries = this.balanceEntries
+      .filter(entry => entry.userId === userId)
+      .sort(newestEntryFirst)
+      .map(entry => ({ ...entry }));
+    return limit ? entries.slice(0, limit) : entries;
+  }
+
+  async getLedgerBalance(userId: number): Promise<number> {
+    const [latest] = await this.getBalanceEntries(userId, 1);
+    if (latest) return latest.balanceAfter;
+    const settings = await this.getSettings(userId);
+    return settings?.currentBalance ?? 0;
+  }
+
+  private insertBalanceEntry(userId: number, entry: InsertBalanceEntry & { balanceAfter: number; timestamp?: Date }): BalanceEntry {
+    const created: BalanceEntry = {
+      note: null,
+      timestamp: new Date(),
+      ...definedValues(entry),
+      id: this.nextId("balance_entries"),
+      userId,
+      type: entry.type,
+      amount: entry.amount,
+      balanceAfter: entry.balanceAfter,
+    };
+    this.balanceEntries.push(created);
+    return created;
+  }
+
+  async createBalanceEntry(userId: number, entry: InsertBalanceEntry): Promise<BalanceEntry> {
+    const [latest] = await this.getBalanceEntries(userId, 1);
+    const settings = this.settings.find(settings => settings.userId === userId);
+    const previousBalance = latest ? latest.balanceAfter : (settings?.currentBalance ?? 0);
+
+    const created = this.insertBalanceEntry(userId, { ...entry, balanceAfter: previousBalance + entry.amount });
+    this.recordAudit(userId, "balance_entry", "create", created.id, null, created);
+
+    if (settings) {
+      const before = { ...settings };
+      Object.assign(settings, { currentBalance: created.balanceAfter, updatedAt: new Date() });
+      this.recordAudit(userId, "user_settings", "update", settings.id, before, settings);
+    } else {
+      const inserted = this.insertSettings(userId, { currentBalance: created.balanceAfter });
+      this.recordAudit(userId, "user_settings", "create", inserted.id, null, inserted);
+    }
+    return { ...created };
+  }
+
+  async getBalanceEntriesSince(userId: number, since: Date): Promise<BalanceEntry[]> {
+    return this.balanceEntries
+      .filter(entry => entry.userId === userId && entry.timestamp >= since)
+      .sort((a, b) => newestEntryFirst(b, a))
+      .map(entry => ({ ...entry }));
+  }
+
+  private insertPlanBaseline(userId: number, baseline: InsertPlanBaseline & { createdAt?: Date | null }): PlanBaseline {
+    const created: PlanBaseline = {
+      createdAt: new Date(),
+      ...definedValues(baseline),
+      id: this.nextId("plan_baselines"),
+      userId,
+      startDate: baseline.startDate,
+      startBalance: baseline.startBalance,
+      dailyWins: baseline.dailyWins,
+      profitTarget: baseline.profitTarget,
+      riskPercent: baseline.riskPercent,
+    };
+    this.planBaselines.push(created);
+    return created;
+  }
+
+  async getPlanBaseline(userId: number): Promise<PlanBaseline | undefined> {
+    const [baseline] = this.planBaselines.filter(baseline => baseline.userId === userId).sort((a, b) => b.id - a.id);
+    return baseline ? { ...baseline } : undefined;
+  }
+
+  async createPlanBaseline(userId: number, baseline: InsertPlanBaseline): Promise<PlanBaseline> {
+    const created = this.insertPlanBaseline(userId, baseline);
+    this.recordAudit(userId, "plan_baseline", "create", created.id, null, created);
+    return { ...created };
+  }
+
+  private recordAudit(
+    actorId: number,
+    entity: AuditEntity,
+    action: AuditAction,
+    entityId: number,
+    before: object | null,
+    after: object | null
+  ): void {
+    this.auditEvents.push({
+      id: this.nextId("audit_events"),
+      actorId,
+      entity,
+      entityId,
+      action,
+      before: toSnapshot(before),
+      after: toSnapshot(after),
+      ip: getRequestIp(),
+      createdAt: new Date(),
+    });
+  }
+
+  async getAccountData(userId: number): Promise<AccountData> {
+    const owned = <T extends { userId: number | null; id: number }>(rows: T[]) =>
+      rows.filter(row => row.userId === userId).sort(byIdAsc).map(row => ({ ...row }));
+    return {
+      settings: await this.getSettings(userId),
+      boards: owned(this.boards),
+      dreamItems: owned(this.dreamItems),
+      balanceEntries: owned(this.balanceEntries).sort((a, b) => newestEntryFirst(b, a)),
+      planBaselines: owned(this.planBaselines),
+    };
+  }
+
+  async restoreAccount(userId: number, archive: BackupArchive, includeAurora: boolean): Promise<AccountRestore> {
+    const current = await this.getAccountData(userId);
+    this.dreamItems = this.dreamItems.filter(item => item.userId !== userId);
+    this.dropOrphanedPriceHistory();
+    this.boards = this.boards.filter(board => board.userId !== userId);
+    this.balanceEntries = this.balanceEntries.filter(entry => entry.userId !== userId);
+    this.planBaselines = this.planBaselines.filter(baseline => baseline.userId !== userId);
+    current.dreamItems.forEach(item => this.recordAudit(userId, "dream_item", "delete", item.id, item, null));
+    current.boards.forEach(board => this.recordAudit(userId, "board", "delete", board.id, board, null));
+    current.balanceEntries.forEach(entry => this.recordAudit(userId, "balance_entry", "delete", entry.id, entry, null));
+    current.planBaselines.forEach(baseline => this.recordAudit(userId, "plan_baseline", "delete", baseline.id, baseline, null));
+
+    const boardIds = new Map<number, number>();
+    for (const { id, createdAt, ...board } of archive.boards) {
+      const created = this.insertBoard(userId, { ...board, createdAt: createdAt ?? undefined });
+      boardIds.set(id, created.id);
+      this.recordAudit(userId, "board", "create", created.id, null, created);
+    }
+    for (const item of archive.dreamItems) {
+      const created = this.insertDreamItem(userId, {
+        ...item,
+        boardId: boardIds.get(item.boardId!)!,
+        createdAt: item.createdAt ?? undefined,
+      });
+      this.recordAudit(userId, "dream_item", "create", created.id, null, created);
+    }
+    for (const entry of archive.balanceEntries) {
+      const created = this.insertBalanceEntry(userId, entry);
+      this.recordAudit(userId, "balance_entry", "create", created.id, null, created);
+    }
+    for (const baseline of archive.planBaselines) {
+      const created = this.insertPlanBaseline(userId, { ...baseline, createdAt: baseline.createdAt ?? undefined });
+      this.recordAudit(userId, "plan_baseline", "create", created.id, null, created);
+    }
+
+    if (archive.settings) {
+      const existing = this.settings.find(settings => settings.userId === userId);
+      if (existing) {
+        const before = { ...existing };
+        Object.assign(existing, definedValues(archive.settings), { updatedAt: new Date() });
+        this.recordAudit(userId, "user_settings", "update", existing.id, before, existing);
+      } else {
+        const created = this.insertSettings(userId, archive.settings);
+        this.recordAudit(userId, "user_settings", "create", created.id, null, created);
+      }
+    }
+
+    this.ensureDefaultBoard(userId);
+
+    let auroraParameters = 0;
+    if (includeAurora && archive.auroraParameters) {
+      for (const parameter of archive.auroraParameters) {
+        const existing = this.praxisParameters.find(other => other.name === parameter.name);
+        if (existing) {
+          Object.assign(existing, definedValues(parameter), { lastUpdated: new Date() });
+        } else {
+          this.praxisParameters.push({
+            winRate: 0,
+            isActive: true,
+            lastUpdated: new Date(),
+            ...definedValues(parameter),
+            id: this.nextId("aurora_praxis_parameters"),
+            name: parameter.name,
+            config: parameter.config,
+          });
+        }
+        auroraParameters++;
+      }
+    }
+
+    return {
+      summary: {
+        boards: archive.boards.length,
+        dreamItems: archive.dreamItems.length,
+        balanceEntries: archive.balanceEntries.length,
+        planBaselines: archive.planBaselines.length,
+        auroraParameters,
+      },
+      replacedImageKeys: replacedImageKeys(current.dreamItems, archive),
+    };
+  }
+
+  async getPraxisParameters(): Promise<AuroraPraxisParameter[]> {
+    return [...this.praxisParameters].sort((a, b) => a.name.localeCompare(b.name)).map(parameter => ({ ...parameter }));
+  }
+
+  async getAuditEvents(userId: number, filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+    return this.auditEvents
+      .filter(event =>
+        event.actorId === userId &&
+        (!filter.entity || event.entity === filter.entity) &&
+        (filter.entityId === undefined || event.entityId === filter.entityId) &&
+        (!filter.since || event.createdAt >= filter.since)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, filter.limit ?? 100)
+      .map(event => ({ ...event }));
+  }
+
+  async getAuditEvent(userId: number, id: number): Promise<AuditEvent | undefined> {
+    const event = this.auditEvents.find(event => event.id === id && event.actorId === userId);
+    return event ? { ...event } : undefined;
+  }
+
+  async revertDreamItem(userId: number, event: AuditEvent): Promise<DreamItem | undefined> {
+    if (!event.before) return undefined;
+    const restored: Record<string, unknown> = {};
+    for (const field of REVERTIBLE_DREAM_FIELDS) {
+      if (field in event.before) restored[field] = event.before[field];
+    }
+    if (typeof restored.boardId === "number" && !this.findBoard(userId, restored.boardId)) {
+      delete restored.boardId;
+    }
+    return this.updateDreamItemAudited(userId, event.entityId, restored as Partial<InsertDreamItem>, "revert");
+  }
+
+  async getCalendarSessions(): Promise<AuroraCalendarSession[]> {
+    return Array.from(this.calendarSessions.values())
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(session => ({ ...session }));
+  }
+
+  async upsertCalendarSession(session: InsertAuroraCalendarSession): Promise<AuroraCalendarSession> {
+    const existing = this.calendarSessions.get(session.date);
+    const saved: AuroraCalendarSession = {
+      id: existing?.id ?? this.nextId("aurora_calendar_sessions"),
+      date: session.date,
+      dayType: session.dayType,
+      note: session.note ?? null,
+    };
+    this.calendarSessions.set(saved.date, saved);
+    return { ...saved };
+  }
+
+  async deleteCalendarSession(date: string): Promise<boolean> {
+    return this.calendarSessions.delete(date);
+  }
+}
+
+function createStorage(): { storage: IStorage; db: Database | null } {
+  const driver = getStorageDriver();
+  if (driver === "memory") {
+    return { storage: new MemStorage(), db: null };
+  }
+  const db = connectDatabase(driver);
+  return { storage: new DatabaseStorage(db), db };
+}
+
+const selected = createStorage();
+
+export const storage: IStorage = selected.storage;
+
+// The database behind storage, for startup migrations; null for the memory driver
+export const database: Database | null = selected.db;
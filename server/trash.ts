@@ -0,0 +1,36 @@
+import cron from "node-cron";
+import { TRASH_RETENTION_DAYS } from "@shared/schema";
+import { storage } from "./storage";
+import { releaseUploadedImage } from "./uploads";
+import { log } from "./log";
+
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// Permanently removes dreams that have sat in the Trash past the retention
+// period, along with their images
+export async function purgeExpiredTrash(): Promise<number> {
+  const purged = await storage.purgeDeletedDreamItems(new Date(Date.now() - RETENTION_MS));
+  for (const { imageKey } of purged) {
+    if (!imageKey) continue;
+    // The dreams are already gone, so a file that won't delete shouldn't stop the rest
+    await releaseUploadedImage(imageKey).catch(error => {
+      console.error(`Error deleting image ${imageKey}:`, error);
+    });
+  }
+  if (purged.length > 0) {
+    log(`Purged ${purged.length} dream item(s) deleted over ${TRASH_RETENTION_DAYS} days ago`, "trash");
+  }
+  return purged.length;
+}
+
+const runPurge = () => {
+  purgeExpiredTrash().catch(error => {
+    console.error("Error purging trash:", error);
+  });
+};
+
+// Once at startup to catch up on missed runs, then daily at 04:00 server time
+export function startTrashPurge(): void {
+  runPurge();
+  cron.schedule("0 4 * * *", runPurge);
+}
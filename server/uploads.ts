@@ -0,0 +1,184 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { Storage as GcsStorage } from "@google-cloud/storage";
+import type { UploadImageType } from "@shared/schema";
+import { storage } from "./storage";
+
+// Dream pictures. The browser asks POST /api/uploads for a short-lived signed
+// URL and PUTs the file there; the server re-encodes it as WebP (dropping EXIF
+// such as GPS) alongside a thumbnail. Files live in an UploadStore picked by
+// UPLOAD_STORE: local disk under UPLOADS_DIR (the default) or a Google Cloud
+// Storage bucket named by UPLOADS_BUCKET. Files are deleted once no dream
+// uses them any more.
+
+export interface UploadStore {
+  put(name: string, data: Buffer): Promise<void>;
+  get(name: string): Promise<Buffer | null>;
+  exists(name: string): Promise<boolean>;
+  delete(name: string): Promise<void>;
+}
+
+export class LocalUploadStore implements UploadStore {
+  constructor(private dir: string) {}
+
+  async put(name: string, data: Buffer): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(path.join(this.dir, name), data);
+  }
+
+  async get(name: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(path.join(this.dir, name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async exists(name: string): Promise<boolean> {
+    return fs.access(path.join(this.dir, name)).then(() => true, () => false);
+  }
+
+  async delete(name: string): Promise<void> {
+    await fs.rm(path.join(this.dir, name), { force: true });
+  }
+}
+
+export class GcsUploadStore implements UploadStore {
+  private bucket;
+
+  constructor(bucketName: string) {
+    this.bucket = new GcsStorage().bucket(bucketName);
+  }
+
+  async put(name: string, data: Buffer): Promise<void> {
+    await this.bucket.file(name).save(data, { contentType: "image/webp", resumable: false });
+  }
+
+  async get(name: string): Promise<Buffer | null> {
+    try {
+      const [data] = await this.bucket.file(name).download();
+      return data;
+    } catch (error) {
+      if ((error as { code?: number }).code === 404) return null;
+      throw error;
+    }
+  }
+
+  async exists(name: string): Promise<boolean> {
+    const [exists] = await this.bucket.file(name).exists();
+    return exists;
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.bucket.file(name).delete({ ignoreNotFound: true });
+  }
+}
+
+function createUploadStore(): UploadStore {
+  const kind = process.env.UPLOAD_STORE ?? "local";
+  if (kind === "gcs") {
+    if (!process.env.UPLOADS_BUCKET) {
+      throw new Error("UPLOADS_BUCKET must be set when UPLOAD_STORE is gcs");
+    }
+    return new GcsUploadStore(process.env.UPLOADS_BUCKET);
+  }
+  if (kind !== "local") {
+    console.warn(`[uploads] Unknown UPLOAD_STORE "${kind}", using local`);
+  }
+  return new LocalUploadStore(path.resolve(process.env.UPLOADS_DIR ?? "uploads"));
+}
+
+export const uploadStore = createUploadStore();
+
+export type UploadVariant = "original" | "thumbnail";
+
+const IMAGE_MAX_SIZE = 2048;
+const THUMBNAIL_SIZE = 320;
+const UPLOAD_URL_TTL_MS = 10 * 60 * 1000;
+
+// Without UPLOAD_SIGNING_SECRET, URLs only verify on the instance that signed them
+const signingSecret = process.env.UPLOAD_SIGNING_SECRET ?? crypto.randomBytes(32).toString("hex");
+
+const fileName = (key: string, variant: UploadVariant) =>
+  variant === "thumbnail" ? `${key}.thumb.webp` : `${key}.webp`;
+
+// What POST /api/uploads agreed to accept; all of it is covered by the signature
+export interface SignedUpload {
+  key: string;
+  expiresAt: number;
+  contentType: string;
+  size: number;
+}
+
+const sign = ({ key, expiresAt, contentType, size }: SignedUpload) =>
+  crypto.createHmac("sha256", signingSecret).update(`${key}:${expiresAt}:${contentType}:${size}`).digest("hex");
+
+export function createUploadTarget(contentType: UploadImageType, size: number): { key: string; url: string; expiresAt: number } {
+  const upload = { key: crypto.randomUUID(), expiresAt: Date.now() + UPLOAD_URL_TTL_MS, contentType, size };
+  const query = new URLSearchParams({
+    expires: String(upload.expiresAt),
+    type: contentType,
+    size: String(size),
+    signature: sign(upload),
+  });
+  return { key: upload.key, expiresAt: upload.expiresAt, url: `/api/uploads/${upload.key}?${query}` };
+}
+
+export function verifyUploadSignature(upload: SignedUpload, signature: string): boolean {
+  if (!Number.isFinite(upload.expiresAt) || upload.expiresAt < Date.now()) return false;
+  const expected = Buffer.from(sign(upload), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+const IMAGE_TYPES_BY_FORMAT: Record<string, UploadImageType> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  heif: "image/avif",
+};
+
+// The type the data really is, whatever the request claimed. Null if it isn't
+// an image sharp can read.
+export async function detectImageType(data: Buffer): Promise<UploadImageType | null> {
+  try {
+    const { format } = await sharp(data).metadata();
+    return (format && IMAGE_TYPES_BY_FORMAT[format]) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decodes the upload and stores it with its thumbnail. Throws if the data
+ * isn't an image sharp can read. Animated images keep only their first frame.
+ */
+export async function saveUploadedImage(key: string, data: Buffer): Promise<void> {
+  // rotate() applies the EXIF orientation before the metadata is dropped
+  const image = sharp(data, { limitInputPixels: 50_000_000 }).rotate();
+  const [original, thumbnail] = await Promise.all([
+    image.clone().resize(IMAGE_MAX_SIZE, IMAGE_MAX_SIZE, { fit: "inside", withoutEnlargement: true }).webp({ quality: 85 }).toBuffer(),
+    image.clone().resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" }).webp({ quality: 80 }).toBuffer(),
+  ]);
+  await uploadStore.put(fileName(key, "original"), original);
+  await uploadStore.put(fileName(key, "thumbnail"), thumbnail);
+}
+
+export async function readUploadedImage(key: string, variant: UploadVariant): Promise<Buffer | null> {
+  return uploadStore.get(fileName(key, variant));
+}
+
+export async function uploadExists(key: string): Promise<boolean> {
+  return uploadStore.exists(fileName(key, "thumbnail"));
+}
+
+// Deletes the image and its thumbnail unless a dream, live or in the Trash, still uses it
+export async function releaseUploadedImage(key: string): Promise<void> {
+  if (await storage.isImageInUse(key)) return;
+  await uploadStore.delete(fileName(key, "original"));
+  await uploadStore.delete(fileName(key, "thumbnail"));
+}
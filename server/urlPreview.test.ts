@@ -0,0 +1,159 @@
+import http from "http";
+import net from "net";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { fetchUrlPreview, isBlockedAddress, parsePrice } from "./urlPreview";
+
+const FIXTURE_HOST = "127.0.0.1";
+
+// Pages the fixture server answers with, by path
+const pages: Record<string, (res: http.ServerResponse) => void> = {
+  "/opengraph": res => html(res, `
+    <html><head>
+      <title>Fallback title</title>
+      <meta property="og:title" content="Espresso &amp; Milk Machine">
+      <meta property="product:price:amount" content="1.299,00">
+      <meta property="product:price:currency" content="EUR">
+      <meta property="og:image" content="/images/machine.jpg">
+    </head></html>`),
+  "/json-ld": res => html(res, `
+    <html><head>
+      <meta property="og:title" content="Page title">
+      <script type="application/ld+json">
+        {"@context": "https://schema.org", "@graph": [
+          {"@type": "BreadcrumbList", "name": "Home"},
+          {"@type": ["Product", "Thing"], "name": "Road Bike",
+           "image": ["https://cdn.example.com/bike.jpg"],
+           "offers": {"@type": "Offer", "price": "2499.95", "priceCurrency": "USD"}}
+        ]}
+      </script>
+    </head></html>`),
+  // The title that would win sits past the 2 MB the preview reads
+  "/large": res => html(res, `<meta property="og:title" content="Early title">${" ".repeat(3 * 1024 * 1024)}`
+    + `<script type="application/ld+json">{"@type": "Product", "name": "Late title"}</script>`),
+  "/slow": () => {},
+  "/to-private": res => {
+    res.writeHead(302, { Location: "http://169.254.169.254/latest/meta-data/" });
+    res.end();
+  },
+};
+
+function html(res: http.ServerResponse, body: string) {
+  res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(body);
+}
+
+const server = http.createServer((req, res) => {
+  const page = pages[req.url ?? ""];
+  if (page) page(res);
+  else {
+    res.writeHead(404);
+    res.end();
+  }
+});
+let baseUrl = "";
+
+describe("fetchUrlPreview", () => {
+  beforeAll(async () => {
+    // Let the fixture server through the private address guard, and nothing else
+    const check = net.BlockList.prototype.check;
+    vi.spyOn(net.BlockList.prototype, "check").mockImplementation(function (this: net.BlockList, address: any, type?: any) {
+      return address === FIXTURE_HOST ? false : check.call(this, address, type);
+    });
+    await new Promise<void>(resolve => server.listen(0, FIXTURE_HOST, resolve));
+    baseUrl = `http://${FIXTURE_HOST}:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("reads OpenGraph and product meta tags", async () => {
+    expect(await fetchUrlPreview(`${baseUrl}/opengraph`)).toEqual({
+      preview: {
+        url: `${baseUrl}/opengraph`,
+        title: "Espresso & Milk Machine",
+        price: 1299,
+        currency: "EUR",
+        imageUrl: `${baseUrl}/images/machine.jpg`,
+      },
+    });
+  });
+
+  it("prefers a JSON-LD Product, including one inside @graph", async () => {
+    expect(await fetchUrlPreview(`${baseUrl}/json-ld`)).toEqual({
+      preview: {
+        url: `${baseUrl}/json-ld`,
+        title: "Road Bike",
+        price: 2499.95,
+        currency: "USD",
+        imageUrl: "https://cdn.example.com/bike.jpg",
+      },
+    });
+  });
+
+  it("reads only the first 2 MB of a large page", async () => {
+    const result = await fetchUrlPreview(`${baseUrl}/large`);
+    expect(result).toMatchObject({ preview: { title: "Early title" } });
+  });
+
+  it("gives up on a page that doesn't answer in time", async () => {
+    expect(await fetchUrlPreview(`${baseUrl}/slow`)).toEqual({ error: "The page took too long to respond" });
+  });
+
+  it("refuses a redirect to a private address", async () => {
+    expect(await fetchUrlPreview(`${baseUrl}/to-private`)).toEqual({
+      error: "Couldn't read the page: 169.254.169.254 is a private address",
+    });
+  });
+
+  it("refuses a private address outright", async () => {
+    expect(await fetchUrlPreview("http://10.0.0.1/")).toEqual({
+      error: "Couldn't read the page: 10.0.0.1 is a private address",
+    });
+  });
+});
+
+describe("isBlockedAddress", () => {
+  it("blocks private, loopback and tunnelled addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "192.168.0.1", "::1", "::ffff:10.0.0.1", "fd00::1", "2002:a00:1::1"]) {
+      expect(isBlockedAddress(address), address).toBe(true);
+    }
+  });
+
+  it("allows public addresses", () => {
+    for (const address of ["93.184.216.34", "2606:2800:220:1::1"]) {
+      expect(isBlockedAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe("parsePrice", () => {
+  it("reads comma and dot thousands separators", () => {
+    expect(parsePrice("$1,299.99")).toBe(1299.99);
+    expect(parsePrice("1.299,99 €")).toBe(1299.99);
+    expect(parsePrice("€1.299")).toBe(1299);
+    expect(parsePrice("1.299.000")).toBe(1299000);
+  });
+
+  it("reads spaces between digit groups as thousands separators", () => {
+    expect(parsePrice("1 299,99")).toBe(1299.99);
+    expect(parsePrice("1\u00a0299,99\u00a0€")).toBe(1299.99);
+    expect(parsePrice("1\u202f299 000 kr")).toBe(1299000);
+    expect(parsePrice("$ 1 299.99")).toBe(1299.99);
+  });
+
+  it("keeps a plain decimal point", () => {
+    expect(parsePrice("1299.99")).toBe(1299.99);
+    expect(parsePrice("12.5")).toBe(12.5);
+    expect(parsePrice(49)).toBe(49);
+  });
+
+  it("is null for anything that isn't a positive price", () => {
+    expect(parsePrice("Free")).toBeNull();
+    expect(parsePrice("0")).toBeNull();
+    expect(parsePrice(null)).toBeNull();
+  });
+});
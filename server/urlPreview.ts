@@ -0,0 +1,307 @@
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import zlib from "zlib";
+import { MAX_UPLOAD_BYTES, type DreamUrlPreview } from "@shared/schema";
+import { saveUploadedImage } from "./uploads";
+import { log } from "./log";
+
+// Fills in a dream from its product page: title, price and picture from
+// OpenGraph tags and JSON-LD Product data. Pages are fetched server-side, so
+// every connection is checked against private and reserved addresses,
+// including after redirects and at connect time (no DNS rebinding).
+
+const FETCH_TIMEOUT_MS = 8000;
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const USER_AGENT = "Mozilla/5.0 (compatible; DreamMachinePreview/1.0)";
+
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], ["64:ff9b::", 96], ["2002::", 16], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return blockedAddresses.check(mapped[1], "ipv4");
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Resolves like the default lookup, but fails if any address is off limits
+const guardedLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new Error(`${hostname} resolves to a private address`));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as net.LookupFunction;
+
+interface FetchedResource {
+  url: string;
+  contentType: string;
+  body: Buffer;
+}
+
+interface GuardedFetchOptions {
+  accept: string;
+  maxBytes: number;
+  // Keep the first maxBytes instead of failing when the body is larger
+  truncate: boolean;
+  signal: AbortSignal;
+}
+
+function requestOnce(url: URL, options: GuardedFetchOptions): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.get(url, {
+      lookup: guardedLookup,
+      signal: options.signal,
+      headers: { "User-Agent": USER_AGENT, Accept: options.accept, "Accept-Encoding": "gzip, deflate, br" },
+    }, resolve);
+    req.on("error", reject);
+  });
+}
+
+function readBody(res: http.IncomingMessage, options: GuardedFetchOptions): Promise<Buffer> {
+  const encoding = res.headers["content-encoding"];
+  const decoder = encoding === "gzip" ? zlib.createGunzip()
+    : encoding === "deflate" ? zlib.createInflate()
+    : encoding === "br" ? zlib.createBrotliDecompress()
+    : null;
+  const stream = decoder ? res.pipe(decoder) : res;
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const finish = () => resolve(Buffer.concat(chunks).subarray(0, options.maxBytes));
+    stream.on("data", (chunk: Buffer) => {
+      chunks.push(chunk);
+      size += chunk.length;
+      // Counted after decompression, so a small compressed bomb still stops here
+      if (size > options.maxBytes) {
+        res.destroy();
+        if (options.truncate) finish();
+        else reject(new Error("Response is too large"));
+      }
+    });
+    stream.on("end", finish);
+    stream.on("error", reject);
+    res.on("error", reject);
+  });
+}
+
+async function guardedFetch(input: string, options: GuardedFetchOptions): Promise<FetchedResource> {
+  let url = new URL(input);
+  for (let redirects = 0; ; redirects++) {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error("Only http and https links can be previewed");
+    }
+    // Literal IPs skip the lookup, so check them here
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    if (net.isIP(host) && isBlockedAddress(host)) {
+      throw new Error(`${host} is a private address`);
+    }
+
+    const res = await requestOnce(url, options);
+    const status = res.statusCode ?? 0;
+    if (status >= 300 && status < 400 && res.headers.location) {
+      res.resume();
+      if (redirects >= MAX_REDIRECTS) throw new Error("Too many redirects");
+      url = new URL(res.headers.location, url);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      res.resume();
+      throw new Error(`The page answered with status ${status}`);
+    }
+    const declaredLength = Number(res.headers["content-length"]);
+    if (!options.truncate && declaredLength > options.maxBytes) {
+      res.resume();
+      throw new Error("Response is too large");
+    }
+    return {
+      url: url.toString(),
+      contentType: res.headers["content-type"] ?? "",
+      body: await readBody(res, options),
+    };
+  }
+}
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+
+const cleanText = (text: string): string =>
+  decodeEntities(text).replace(/<[^>]*>/g, "").replace(/\s+/g, " ").trim().slice(0, 200);
+
+// First value per property/name/itemprop, lowercased
+function readMetaTags(html: string): Map<string, string> {
+  const tags = new Map<string, string>();
+  for (const [tag] of Array.from(html.matchAll(/<meta\b[^>]*>/gi))) {
+    const attributes = new Map<string, string>();
+    for (const match of Array.from(tag.matchAll(/([a-z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi))) {
+      attributes.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4]);
+    }
+    const name = attributes.get("property") ?? attributes.get("name") ?? attributes.get("itemprop");
+    const content = attributes.get("content");
+    if (name && content && !tags.has(name.toLowerCase())) tags.set(name.toLowerCase(), decodeEntities(content));
+  }
+  return tags;
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+function readJsonLd(html: string): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) value.forEach(collect);
+    else if (value && typeof value === "object") {
+      nodes.push(value as JsonLdNode);
+      collect((value as JsonLdNode)["@graph"]);
+    }
+  };
+  for (const [, json] of Array.from(html.matchAll(/<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi))) {
+    try {
+      collect(JSON.parse(json.trim()));
+    } catch {
+      // Broken JSON-LD is common; the meta tags may still do
+    }
+  }
+  return nodes;
+}
+
+const hasType = (node: JsonLdNode, type: string): boolean => {
+  const types = node["@type"];
+  return Array.isArray(types) ? types.includes(type) : types === type;
+};
+
+export function parsePrice(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) && value > 0 ? value : null;
+  if (typeof value !== "string") return null;
+  // "1,299.99" and "1299.99"; a lone comma before two digits is a decimal
+  // comma, and dots before groups of exactly three digits are thousands ("1.299").
+  // Spaces between digit groups ("1 299,99", often NBSP) are thousands too.
+  const trimmed = value.trim().replace(/(\d)[\s\u00a0\u202f]+(?=\d)/g, "$1");
+  const normalized = /^\D*(\d{1,3}(\.\d{3})*|\d+),\d{2}\D*$/.test(trimmed)
+    ? trimmed.replace(/\./g, "").replace(",", ".")
+    : /^\D*\d{1,3}(\.\d{3})+\D*$/.test(trimmed)
+      ? trimmed.replace(/\./g, "")
+      : trimmed.replace(/,/g, "");
+  const price = parseFloat(normalized.replace(/[^\d.]/g, ""));
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+function readOffer(offers: unknown): { price: number | null; currency: string | null } {
+  const list = Array.isArray(offers) ? offers : [offers];
+  for (const offer of list) {
+    if (!offer || typeof offer !== "object") continue;
+    const node = offer as JsonLdNode;
+    const specification = node.priceSpecification as JsonLdNode | undefined;
+    const price = parsePrice(node.price ?? node.lowPrice ?? specification?.price);
+    if (price !== null) {
+      const currency = node.priceCurrency ?? specification?.priceCurrency;
+      return { price, currency: typeof currency === "string" ? currency : null };
+    }
+  }
+  return { price: null, currency: null };
+}
+
+const firstString = (value: unknown): string | null => {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return firstString(value[0]);
+  if (value && typeof value === "object") return firstString((value as JsonLdNode).url);
+  return null;
+};
+
+const absoluteUrl = (value: string | null, base: string): string | null => {
+  if (!value) return null;
+  try {
+    const url = new URL(value, base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+export function extractPreview(html: string, pageUrl: string): DreamUrlPreview {
+  const meta = readMetaTags(html);
+  const product = readJsonLd(html).find(node => hasType(node, "Product"));
+  const offer = product ? readOffer(product.offers) : { price: null, currency: null };
+
+  const title = firstString(product?.name) ?? meta.get("og:title") ?? meta.get("twitter:title")
+    ?? html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? null;
+  const price = offer.price ?? parsePrice(meta.get("product:price:amount") ?? meta.get("og:price:amount"));
+  const currency = offer.price !== null
+    ? offer.currency
+    : meta.get("product:price:currency") ?? meta.get("og:price:currency") ?? null;
+  const image = firstString(product?.image) ?? meta.get("og:image:secure_url") ?? meta.get("og:image") ?? meta.get("twitter:image") ?? null;
+
+  return {
+    url: pageUrl,
+    title: title ? cleanText(title) || null : null,
+    price,
+    currency: price !== null ? currency : null,
+    imageUrl: absoluteUrl(image, pageUrl),
+  };
+}
+
+export async function fetchUrlPreview(url: string): Promise<{ preview: DreamUrlPreview } | { error: string }> {
+  try {
+    const page = await guardedFetch(url, {
+      accept: "text/html,application/xhtml+xml",
+      maxBytes: MAX_PAGE_BYTES,
+      truncate: true,
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!/html/i.test(page.contentType)) {
+      return { error: "Link is not a web page" };
+    }
+    return { preview: extractPreview(page.body.toString("utf8"), page.url) };
+  } catch (error) {
+    if ((error as Error).name === "TimeoutError" || (error as Error).name === "AbortError") {
+      return { error: "The page took too long to respond" };
+    }
+    return { error: `Couldn't read the page: ${(error as Error).message}` };
+  }
+}
+
+// Copies a product picture into uploads so cards don't hotlink it. Null if it
+// can't be fetched or isn't an image.
+export async function importImageFromUrl(url: string): Promise<string | null> {
+  try {
+    const image = await guardedFetch(url, {
+      accept: "image/*",
+      maxBytes: MAX_UPLOAD_BYTES,
+      truncate: false,
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    const key = crypto.randomUUID();
+    await saveUploadedImage(key, image.body);
+    return key;
+  } catch (error) {
+    log(`Couldn't import image ${url}: ${(error as Error).message}`, "preview");
+    return null;
+  }
+}
@@ -0,0 +1,208 @@
+// ============================================
+// NYSE TRADING CALENDAR - Dynamic Holiday Calculator
+// ============================================
+
+const getNthWeekdayOfMonth = (year: number, month: number, weekday: number, n: number): Date => {
+  const firstOfMonth = new Date(year, month, 1);
+  const firstWeekday = firstOfMonth.getDay();
+  let dayOffset = weekday - firstWeekday;
+  if (dayOffset < 0) dayOffset += 7;
+  const firstOccurrence = 1 + dayOffset;
+  const targetDay = firstOccurrence + (n - 1) * 7;
+  return new Date(year, month, targetDay);
+};
+
+const getLastWeekdayOfMonth = (year: number, month: number, weekday: number): Date => {
+  const lastOfMonth = new Date(year, month + 1, 0);
+  const lastDay = lastOfMonth.getDate();
+  const lastDayOfWeek = lastOfMonth.getDay();
+  let dayOffset = lastDayOfWeek - weekday;
+  if (dayOffset < 0) dayOffset += 7;
+  return new Date(year, month, lastDay - dayOffset);
+};
+
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1;
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month, day);
+};
+
+const getGoodFriday = (year: number): Date => {
+  const easter = getEasterSunday(year);
+  const goodFriday = new Date(easter);
+  goodFriday.setDate(easter.getDate() - 2);
+  return goodFriday;
+};
+
+const getObservedDate = (date: Date): Date => {
+  const dayOfWeek = date.getDay();
+  if (dayOfWeek === 0) {
+    const observed = new Date(date);
+    observed.setDate(date.getDate() + 1);
+    return observed;
+  } else if (dayOfWeek === 6) {
+    const observed = new Date(date);
+    observed.setDate(date.getDate() - 1);
+    return observed;
+  }
+  return date;
+};
+
+export const formatDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const getNYSEHolidaysForYear = (year: number): string[] => {
+  const holidays: string[] = [];
+  // NYSE does not close on Dec 31 when New Year's Day falls on a Saturday
+  const newYearsDay = new Date(year, 0, 1);
+  if (newYearsDay.getDay() !== 6) {
+    holidays.push(formatDateKey(getObservedDate(newYearsDay)));
+  }
+  const mlkDay = getNthWeekdayOfMonth(year, 0, 1, 3);
+  holidays.push(formatDateKey(mlkDay));
+  const presidentsDay = getNthWeekdayOfMonth(year, 1, 1, 3);
+  holidays.push(formatDateKey(presidentsDay));
+  const goodFriday = getGoodFriday(year);
+  holidays.push(formatDateKey(goodFriday));
+  const memorialDay = getLastWeekdayOfMonth(year, 4, 1);
+  holidays.push(formatDateKey(memorialDay));
+  const juneteenth = getObservedDate(new Date(year, 5, 19));
+  holidays.push(formatDateKey(juneteenth));
+  const july4th = getObservedDate(new Date(year, 6, 4));
+  holidays.push(formatDateKey(july4th));
+  const laborDay = getNthWeekdayOfMonth(year, 8, 1, 1);
+  holidays.push(formatDateKey(laborDay));
+  const thanksgiving = getNthWeekdayOfMonth(year, 10, 4, 4);
+  holidays.push(formatDateKey(thanksgiving));
+  const christmas = getObservedDate(new Date(year, 11, 25));
+  holidays.push(formatDateKey(christmas));
+  return holidays;
+};
+
+// NYSE closes at 1:00 PM ET the day before Independence Day, the day after
+// Thanksgiving and on Christmas Eve, unless that day is itself a weekend or holiday.
+export const getNYSEHalfDaysForYear = (year: number): string[] => {
+  const halfDays: string[] = [];
+  const july3 = new Date(year, 6, 3);
+  const july4Weekday = new Date(year, 6, 4).getDay();
+  if (july4Weekday >= 2 && july4Weekday <= 5) {
+    halfDays.push(formatDateKey(july3));
+  }
+  const thanksgiving = getNthWeekdayOfMonth(year, 10, 4, 4);
+  const dayAfterThanksgiving = new Date(thanksgiving);
+  dayAfterThanksgiving.setDate(thanksgiving.getDate() + 1);
+  halfDays.push(formatDateKey(dayAfterThanksgiving));
+  const christmasEve = new Date(year, 11, 24);
+  const christmasEveWeekday = christmasEve.getDay();
+  if (christmasEveWeekday >= 1 && christmasEveWeekday <= 4) {
+    halfDays.push(formatDateKey(christmasEve));
+  }
+  return halfDays;
+};
+
+/**
+ * Anything that can answer whether a YYYY-MM-DD date belongs to it: a plain
+ * Set, or a lookup that generates each year's dates the first time it is asked.
+ */
+export interface DateKeyLookup {
+  has(dateKey: string): boolean;
+}
+
+const memoizeByYear = (getForYear: (year: number) => string[]): DateKeyLookup => {
+  const byYear = new Map<number, Set<string>>();
+  return {
+    has: (dateKey: string) => {
+      const year = Number(dateKey.slice(0, 4));
+      let dates = byYear.get(year);
+      if (!dates) {
+        dates = new Set(getForYear(year));
+        byYear.set(year, dates);
+      }
+      return dates.has(dateKey);
+    },
+  };
+};
+
+const NYSE_HOLIDAYS = memoizeByYear(getNYSEHolidaysForYear);
+const NYSE_HALF_DAYS = memoizeByYear(getNYSEHalfDaysForYear);
+
+export const getRuleBasedMarketDaySets = (): MarketDaySets => ({ holidays: NYSE_HOLIDAYS, halfDays: NYSE_HALF_DAYS });
+
+// ============================================
+// DAY TYPES
+// ============================================
+
+export const MARKET_DAY_TYPES = ['REGULAR', 'HALF_DAY', 'HOLIDAY', 'WEEKEND'] as const;
+export type MarketDayType = typeof MARKET_DAY_TYPES[number];
+
+export interface CalendarDay {
+  date: string;
+  dayType: MarketDayType;
+}
+
+export interface MarketDaySets {
+  holidays: DateKeyLookup;
+  halfDays: DateKeyLookup;
+}
+
+export const parseDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const getRuleBasedDayType = (date: Date): MarketDayType => {
+  const dayOfWeek = date.getDay();
+  if (dayOfWeek === 0 || dayOfWeek === 6) return 'WEEKEND';
+  const dateKey = formatDateKey(date);
+  if (NYSE_HOLIDAYS.has(dateKey)) return 'HOLIDAY';
+  if (NYSE_HALF_DAYS.has(dateKey)) return 'HALF_DAY';
+  return 'REGULAR';
+};
+
+/**
+ * Holiday and half-day sets from a list of non-regular days, as served by
+ * GET /api/calendar.
+ */
+export const toMarketDaySets = (days: CalendarDay[]): { holidays: Set<string>; halfDays: Set<string> } => {
+  const holidays = new Set<string>();
+  const halfDays = new Set<string>();
+  for (const day of days) {
+    if (day.dayType === 'HOLIDAY') holidays.add(day.date);
+    else if (day.dayType === 'HALF_DAY') halfDays.add(day.date);
+  }
+  return { holidays, halfDays };
+};
+
+export const isNYSETradingDay = (date: Date, holidays: DateKeyLookup = NYSE_HOLIDAYS): boolean => {
+  const dayOfWeek = date.getDay();
+  if (dayOfWeek === 0 || dayOfWeek === 6) return false;
+  const dateKey = formatDateKey(date);
+  if (holidays.has(dateKey)) return false;
+  return true;
+};
+
+export const addTradingDays = (startDate: Date, tradingDays: number, holidays: DateKeyLookup = NYSE_HOLIDAYS): Date => {
+  const result = new Date(startDate);
+  let daysAdded = 0;
+  while (daysAdded < tradingDays) {
+    result.setDate(result.getDate() + 1);
+    if (isNYSETradingDay(result, holidays)) daysAdded++;
+  }
+  return result;
+};
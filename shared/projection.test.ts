@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_PROJECTION_DAYS,
+  getBalanceAfterDays,
+  getDaysToGoal,
+  getDaysToGoalWithPurchases,
+  getDreamAffordabilityDays,
+  projectDreamBoard,
+  type ProjectionInput,
+} from './projection';
+
+// With a small balance there is no liquidity friction and no risk cap, so one
+// win a day at 20% risk grows the balance by exactly 1.2x per trading day.
+// 1000 reaches 2000 on day 4 (1.2^4 = 2.07).
+
+describe('getDaysToGoal', () => {
+  it('counts trading days until the balance reaches the goal', () => {
+    expect(getDaysToGoal(1000, 2000, 1)).toBe(4);
+    expect(getBalanceAfterDays(1000, 3, 1)).toBeLessThan(2000);
+    expect(getBalanceAfterDays(1000, 4, 1)).toBeGreaterThanOrEqual(2000);
+  });
+
+  it('is 0 when the goal is already reached', () => {
+    expect(getDaysToGoal(2000, 2000, 1)).toBe(0);
+    expect(getDaysToGoal(5000, 2000, 1)).toBe(0);
+  });
+
+  it('is 0 with zero or negative daily wins', () => {
+    expect(getDaysToGoal(1000, 2000, 0)).toBe(0);
+    expect(getDaysToGoal(1000, 2000, -1)).toBe(0);
+  });
+
+  it('stops at MAX_PROJECTION_DAYS when the goal is out of reach', () => {
+    expect(getDaysToGoal(1000, 1e12, 1e-9)).toBe(MAX_PROJECTION_DAYS);
+  });
+});
+
+describe('getDaysToGoalWithPurchases', () => {
+  it('is 0 when the goal is already reached or there is no income', () => {
+    expect(getDaysToGoalWithPurchases(2000, 1000, 2000, 1, [], 0)).toBe(0);
+    expect(getDaysToGoalWithPurchases(1000, 1000, 2000, 0, [{ id: 1, cost: 100 }], 0)).toBe(0);
+    expect(getDaysToGoalWithPurchases(1000, 1000, 2000, -1, [{ id: 1, cost: 100 }], 0)).toBe(0);
+  });
+
+  it('matches getDaysToGoal with nothing to buy', () => {
+    expect(getDaysToGoalWithPurchases(1000, 1000, 2000, 1, [], 0)).toBe(getDaysToGoal(1000, 2000, 1));
+  });
+
+  it('takes purchases out of the balance as they become affordable', () => {
+    // The $100 item (needs $300 net) is bought on day 1, leaving 1100, which
+    // takes four more days to reach 2000
+    expect(getDaysToGoalWithPurchases(1000, 1000, 2000, 1, [{ id: 1, cost: 100 }], 0)).toBe(5);
+  });
+
+  it('counts already purchased cost against net liquid', () => {
+    // Nothing can be afforded once earlier purchases exceed the balance
+    expect(getDaysToGoalWithPurchases(1000, 1000, 2000, 1, [{ id: 1, cost: 100 }], 1e9)).toBe(4);
+  });
+});
+
+describe('getDreamAffordabilityDays', () => {
+  const items = [{ id: 1, cost: 100 }, { id: 2, cost: 1000 }];
+
+  it('waits for each item on its own without buying the others', () => {
+    // The $1000 item needs $3000 net, or $6000 gross after 60% tax on gains: day 10.
+    // The $100 item is affordable today, so it gets no day.
+    const days = getDreamAffordabilityDays(1000, 1000, 100, 1, items, 0, 'waitTillEnd');
+    expect(Array.from(days.entries())).toEqual([[10, [2]]]);
+  });
+
+  it('buys as it goes, which pushes later items back', () => {
+    const days = getDreamAffordabilityDays(1000, 1000, 100, 1, items, 0, 'buyAsYouGo');
+    expect(Array.from(days.entries())).toEqual([[1, [1]], [11, [2]]]);
+  });
+
+  it('counts already purchased cost in both modes', () => {
+    const waiting = getDreamAffordabilityDays(1000, 1000, 100, 1, [items[1]], 1000, 'waitTillEnd');
+    const buying = getDreamAffordabilityDays(1000, 1000, 100, 1, [items[1]], 1000, 'buyAsYouGo');
+    // $3000 net plus the $1000 already spent needs $8500 gross: day 12
+    expect(Array.from(waiting.keys())).toEqual([12]);
+    expect(Array.from(buying.keys())).toEqual([12]);
+  });
+
+  it('leaves out items past maxDays', () => {
+    expect(getDreamAffordabilityDays(1000, 1000, 9, 1, items, 0, 'waitTillEnd').size).toBe(0);
+  });
+
+  it('finds nothing new with zero or negative daily wins', () => {
+    expect(getDreamAffordabilityDays(1000, 1000, 100, 0, items, 0, 'waitTillEnd').size).toBe(0);
+    const buying = getDreamAffordabilityDays(1000, 1000, 100, -1, [items[1]], 0, 'buyAsYouGo');
+    expect(buying.size).toBe(0);
+  });
+});
+
+describe('projectDreamBoard', () => {
+  // Monday; MLK day (Jan 20) is the only holiday in the window
+  const startDate = new Date(2025, 0, 6);
+  const input: ProjectionInput = {
+    currentBalance: 1000,
+    originBalance: 1000,
+    ultimateGoal: 10000,
+    dailyWins: 1,
+    profitTarget: 1,
+    riskPct: 0.2,
+    feedbackMode: 'waitTillEnd',
+    dreams: [
+      { id: 1, cost: 100 },
+      { id: 2, cost: 1000 },
+      { id: 3, cost: 50, purchased: true },
+    ],
+    pathDays: 2,
+    startDate,
+  };
+
+  it('projects the goal, balance path and each unpurchased dream', () => {
+    const result = projectDreamBoard(input);
+    expect(result.daysToGoal).toBe(13);
+    expect(result.goalDate).toBe('2025-01-24');
+    expect(result.balancePath).toHaveLength(3);
+    expect(result.balancePath[0]).toBe(1000);
+    expect(result.balancePath[2]).toBeCloseTo(1440);
+    expect(result.dreams).toEqual([
+      { id: 1, requiredNet: 300, tradingDay: null, date: null },
+      { id: 2, requiredNet: 3000, tradingDay: 10, date: '2025-01-21' },
+    ]);
+  });
+
+  it('leaves purchased dreams out but counts their cost', () => {
+    const result = projectDreamBoard({ ...input, dreams: [{ id: 2, cost: 1000 }, { id: 3, cost: 1000, purchased: true }] });
+    expect(result.dreams.map(d => d.id)).toEqual([2]);
+    expect(result.dreams[0].tradingDay).toBe(12);
+  });
+
+  it('takes longer to reach the goal when buying as it goes', () => {
+    const buying = projectDreamBoard({ ...input, feedbackMode: 'buyAsYouGo' });
+    expect(buying.daysToGoal).toBeGreaterThan(13);
+    expect(buying.dreams.find(d => d.id === 1)?.tradingDay).toBe(1);
+  });
+
+  it('stays at the start date when the goal is already reached', () => {
+    const result = projectDreamBoard({ ...input, currentBalance: 20000 });
+    expect(result.daysToGoal).toBe(0);
+    expect(result.goalDate).toBe('2025-01-06');
+    expect(result.balancePath).toEqual([20000]);
+  });
+
+  it('projects nothing with zero daily wins', () => {
+    const result = projectDreamBoard({ ...input, dailyWins: 0 });
+    expect(result.daysToGoal).toBe(0);
+    expect(result.dreams.every(d => d.tradingDay === null)).toBe(true);
+  });
+});
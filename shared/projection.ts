@@ -0,0 +1,473 @@
+import { addTradingDays, formatDateKey, isNYSETradingDay, getRuleBasedMarketDaySets, type MarketDaySets } from './calendar';
+
+// ============================================
+// COMPOUNDING PROJECTION ENGINE
+// Shared by the Dream Machine board and POST /api/projection
+// ============================================
+
+export const RISK_PCT = 0.20;
+export const MAX_PROJECTION_DAYS = 9999;
+
+/**
+ * Per-user assumptions behind every projection, tax-reserve and net-liquid
+ * figure. Stored as columns on user_settings.
+ */
+export interface ProjectionConstants {
+  taxRate: number;
+  growthRate: number;
+  maxRisk: number;
+  housesMultiplier: number;
+  defaultMultiplier: number;
+  maxBuffer: number;
+  // Share of a normal day's wins counted on an early-close (half) day
+  halfDayWeight: number;
+}
+
+export const DEFAULT_PROJECTION_CONSTANTS: ProjectionConstants = {
+  taxRate: 0.60,
+  growthRate: 1.20,
+  maxRisk: 1000000,
+  housesMultiplier: 2,
+  defaultMultiplier: 3,
+  maxBuffer: 500_000,
+  halfDayWeight: 1,
+};
+
+export const resolveProjectionConstants = (
+  settings?: { [K in keyof ProjectionConstants]?: number | null } | null
+): ProjectionConstants => {
+  const resolved = { ...DEFAULT_PROJECTION_CONSTANTS };
+  if (!settings) return resolved;
+  for (const key of Object.keys(resolved) as (keyof ProjectionConstants)[]) {
+    const value = settings[key];
+    if (typeof value === 'number') resolved[key] = value;
+  }
+  return resolved;
+};
+
+// ============================================
+// TRADING SCHEDULE
+// Maps trading day numbers (1 = first trading day after the start date) to
+// how much of a normal day's wins they count for.
+// ============================================
+
+export interface TradingSchedule {
+  getDayWeight: (day: number) => number;
+}
+
+export const FULL_DAY_SCHEDULE: TradingSchedule = { getDayWeight: () => 1 };
+
+export const createTradingSchedule = (
+  startDate: Date,
+  calendar: MarketDaySets,
+  halfDayWeight: number
+): TradingSchedule => {
+  if (halfDayWeight === 1) return FULL_DAY_SCHEDULE;
+
+  // Walked lazily and memoized, since most projections stop well short of MAX_PROJECTION_DAYS
+  const weights: number[] = [1];
+  const cursor = new Date(startDate);
+  return {
+    getDayWeight: (day: number) => {
+      while (weights.length <= day) {
+        cursor.setDate(cursor.getDate() + 1);
+        if (!isNYSETradingDay(cursor, calendar.holidays)) continue;
+        weights.push(calendar.halfDays.has(formatDateKey(cursor)) ? halfDayWeight : 1);
+      }
+      return weights[day];
+    },
+  };
+};
+
+/**
+ * The same schedule seen from `offset` trading days later, for projections
+ * that start from a future day such as the IMAGINE slider.
+ */
+export const shiftTradingSchedule = (schedule: TradingSchedule, offset: number): TradingSchedule =>
+  offset === 0 || schedule === FULL_DAY_SCHEDULE
+    ? schedule
+    : { getDayWeight: (day: number) => schedule.getDayWeight(day + offset) };
+
+export type DreamFeedbackMode = 'buyAsYouGo' | 'waitTillEnd';
+
+export interface ProjectionDreamItem {
+  id: number;
+  cost: number;
+  category?: string;
+}
+
+export const getAffordabilityMultiplier = (category: string, constants: ProjectionConstants = DEFAULT_PROJECTION_CONSTANTS): number => {
+  if (category === 'HOUSES') return constants.housesMultiplier;
+  return constants.defaultMultiplier;
+};
+
+export const getRequiredNetForItem = (cost: number, category?: string, constants: ProjectionConstants = DEFAULT_PROJECTION_CONSTANTS): number => {
+  const multiplier = getAffordabilityMultiplier(category || '', constants);
+  const multiplierBased = cost * multiplier;
+  const capBased = cost + constants.maxBuffer;
+  return Math.min(multiplierBased, capBased);
+};
+
+export const getLiquidityEfficiency = (balance: number): { efficiency: number; tier: { label: string } } => {
+  if (balance < 10000) return { efficiency: 1.0, tier: { label: 'Under $10K' } };
+  if (balance < 100000) return { efficiency: 0.85, tier: { label: '$10K-$100K' } };
+  if (balance < 1000000) return { efficiency: 0.70, tier: { label: '$100K-$1M' } };
+  if (balance < 10000000) return { efficiency: 0.50, tier: { label: '$1M-$10M' } };
+  if (balance < 100000000) return { efficiency: 0.30, tier: { label: '$10M-$100M' } };
+  return { efficiency: 0.15, tier: { label: '$100M+' } };
+};
+
+export const getDailyMultiplier = (dailyWins: number, balance: number = 0, profitTarget: number = 1.0, riskPct: number = RISK_PCT, constants: ProjectionConstants = DEFAULT_PROJECTION_CONSTANTS): number => {
+  const effectiveRiskPct = balance > 0 ? Math.min(riskPct, constants.maxRisk / balance) : riskPct;
+  return 1 + (effectiveRiskPct * profitTarget * dailyWins);
+};
+
+const stepBalance = (
+  balance: number,
+  dailyWins: number,
+  profitTarget: number,
+  riskPct: number,
+  constants: ProjectionConstants,
+  applyFriction: boolean = true
+): number => {
+  const { efficiency } = applyFriction ? getLiquidityEfficiency(balance) : { efficiency: 1 };
+  const dailyMultiplier = getDailyMultiplier(dailyWins, balance, profitTarget, riskPct, constants);
+  const dailyGain = (dailyMultiplier - 1) * efficiency;
+  return balance * (1 + dailyGain);
+};
+
+export const getBalanceAfterDays = (
+  startBalance: number,
+  days: number,
+  dailyWins: number,
+  applyFriction: boolean = true,
+  profitTarget: number = 1.0,
+  riskPct: number = RISK_PCT,
+  constants: ProjectionConstants = DEFAULT_PROJECTION_CONSTANTS,
+  schedule: TradingSchedule = FULL_DAY_SCHEDULE
+): number => {
+  if (days <= 0) return startBalance;
+  let balance = startBalance;
+  for (let d = 0; d < days; d++) {
+    balance = stepBalance(balance, dailyWins * schedule.getDayWeight(d + 1), profitTarget, riskPct, constants, applyFriction);
+  }
+  return balance;
+};
+
+/**
+ * Balance at the close of each trading day, index 0 being the start balance.
+ */
+export const getBalancePath = (
+  startBalance: number,
+  days: number,
+  dailyWins: number,
+  profitTarget: number = 1.0,
+  riskPct: number = RISK_PCT,
+  constants: ProjectionConstants = DEFAULT_PROJECTION_CONSTANTS,
+  schedule: TradingSchedule = FULL_DAY_SCHEDULE
+): number[] => {
+  const path = [startBalance];
+  let balance = startBalance;
+  for (let d = 0; d < days; d++) {
+    balance = stepBalance(balance, dailyWins * schedule.getDayWeight(d + 1), profitTarget, riskPct, constants);
+    path.push(balance);
+  }
+  return path;
+};
+
+export const getDaysToGoal = (
+  currentBalance: number,
+  goalBalance: number,
+  dailyWins: number,
+  profitTarget: number = 1.0,
+  riskPct: number = RISK_PCT,
+  constants: ProjectionConstants = DEFAULT_PROJECTION_CONSTANTS,
+  schedule: TradingSchedule = FULL_DAY_SCHEDULE
+): number => {
+  if (currentBalance >= goalBalance || dailyWins <= 0) return 0;
+  let balance = currentBalance;
+  let days = 0;
+  while (balance < goalBalance && days < MAX_PROJECTION_DAYS) {
+    days++;
+    balance = stepBalance(balance, dailyWins * schedule.getDayWeight(days), profitTarget, riskPct, constants);
+  }
+  return days;
+};
+
+export const getDaysToGoalWithPurchases = (
+  currentBalance: number,
+  originBalance: number,
+  goalBalance: number,
+  dailyWins: number,
+  unpurchasedItems: ProjectionDreamItem[],
+  alreadyPurchasedCost: number,
+  profitTarget: number = 1.0,
+  riskPct: number = RISK_PCT,
+  constants: ProjectionConstants = DEFAULT_PROJECTION_CONSTANTS,
+  schedule: TradingSchedule = FULL_DAY_SCHEDULE
+): number => {
+  if (currentBalance >= goalBalance || dailyWins <= 0) return 0;
+
+  let balance = currentBalance;
+  let days = 0;
+  let runningPurchaseCost = 0;
+  const purchasedIds = new Set<number>();
+
+  const sortedItems = [...unpurchasedItems].sort((a, b) => {
+    const reqA = getRequiredNetForItem(a.cost, a.category, constants);
+    const reqB = getRequiredNetForItem(b.cost, b.category, constants);
+    return reqA - reqB;
+  });
+
+  while (balance < goalBalance && days < MAX_PROJECTION_DAYS) {
+    days++;
+    balance = stepBalance(balance, dailyWins * schedule.getDayWeight(days), profitTarget, riskPct, constants);
+
+    const gain = Math.max(0, balance - originBalance);
+    const tax = gain * constants.taxRate;
+    const netLiquid = balance - tax - alreadyPurchasedCost - runningPurchaseCost;
+
+    for (const item of sortedItems) {
+      if (purchasedIds.has(item.id)) continue;
+      const requiredNet = getRequiredNetForItem(item.cost, item.category, constants);
+      if (requiredNet <= netLiquid) {
+        purchasedIds.add(item.id);
+        runningPurchaseCost += item.cost;
+        balance -= item.cost;
+        if (balance < 0) balance = 0;
+      }
+    }
+  }
+
+  return days;
+};
+
+/**
+ * Gross balance needed before an item clears its net-liquid requirement,
+ * after tax on gains above origin and what has already been bought.
+ */
+export const getRequiredGrossForItem = (
+  cost: number,
+  category: string | undefined,
+  originBalance: number,
+  alreadyPurchasedCost: number,
+  constants: ProjectionConstants = DEFAULT_PROJECTION_CONSTANTS
+): number => {
+  const requiredNet = getRequiredNetForItem(cost, category, constants);
+  return (requiredNet + alreadyPurchasedCost - constants.taxRate * originBalance) / (1 - constants.taxRate);
+};
+
+export const getDaysToAffordItem = (
+  currentBalance: number,
+  originBalance: number,
+  alreadyPurchasedCost: number,
+  item: ProjectionDreamItem,
+  dailyWins: number,
+  profitTarget: number = 1.0,
+  riskPct: number = RISK_PCT,
+  constants: ProjectionConstants = DEFAULT_PROJECTION_CONSTANTS,
+  schedule: TradingSchedule = FULL_DAY_SCHEDULE
+): number => {
+  const neededGross = getRequiredGrossForItem(item.cost, item.category, originBalance, alreadyPurchasedCost, constants);
+  return getDaysToGoal(currentBalance, neededGross, dailyWins, profitTarget, riskPct, constants, schedule);
+};
+
+/**
+ * Maps each trading day on which one or more dreams become affordable to the
+ * ids unlocked that day. Items are checked in the order given.
+ */
+export const getDreamAffordabilityDays = (
+  currentBalance: number,
+  originBalance: number,
+  maxDays: number,
+  dailyWins: number,
+  unpurchasedItems: ProjectionDreamItem[],
+  alreadyPurchasedCost: number,
+  feedbackMode: DreamFeedbackMode,
+  profitTarget: number = 1.0,
+  riskPct: number = RISK_PCT,
+  constants: ProjectionConstants = DEFAULT_PROJECTION_CONSTANTS,
+  schedule: TradingSchedule = FULL_DAY_SCHEDULE
+): Map<number, number[]> => {
+  const affordabilityDays = new Map<number, number[]>();
+  const addToDay = (day: number, id: number) => {
+    if (!affordabilityDays.has(day)) affordabilityDays.set(day, []);
+    affordabilityDays.get(day)!.push(id);
+  };
+
+  if (feedbackMode === 'buyAsYouGo') {
+    let runningPurchaseCost = 0;
+    const purchasedIds = new Set<number>();
+    let dayBalance = currentBalance;
+
+    for (let day = 1; day <= maxDays; day++) {
+      dayBalance = stepBalance(dayBalance, dailyWins * schedule.getDayWeight(day), profitTarget, riskPct, constants);
+      const dayGain = Math.max(0, dayBalance - originBalance);
+      const dayTax = dayGain * constants.taxRate;
+      const availableNetLiquid = dayBalance - dayTax - alreadyPurchasedCost - runningPurchaseCost;
+
+      for (const item of unpurchasedItems) {
+        if (purchasedIds.has(item.id)) continue;
+        const requiredNet = getRequiredNetForItem(item.cost, item.category, constants);
+        if (requiredNet <= availableNetLiquid) {
+          addToDay(day, item.id);
+          purchasedIds.add(item.id);
+          runningPurchaseCost += item.cost;
+        }
+      }
+    }
+  } else {
+    for (const item of unpurchasedItems) {
+      const daysToAffordItem = getDaysToAffordItem(
+        currentBalance, originBalance, alreadyPurchasedCost, item, dailyWins, profitTarget, riskPct, constants, schedule
+      );
+      if (daysToAffordItem > 0 && daysToAffordItem <= maxDays) {
+        addToDay(daysToAffordItem, item.id);
+      }
+    }
+  }
+
+  return affordabilityDays;
+};
+
+// ============================================
+// FULL BOARD PROJECTION
+// ============================================
+
+export interface ProjectionInput {
+  currentBalance: number;
+  originBalance: number;
+  ultimateGoal: number;
+  dailyWins: number;
+  profitTarget: number;
+  riskPct: number;
+  feedbackMode: DreamFeedbackMode;
+  dreams: (ProjectionDreamItem & { purchased?: boolean })[];
+  pathDays: number;
+  constants?: ProjectionConstants;
+  startDate?: Date;
+  // Market holidays and half-days used to date and weight trading days; defaults to the NYSE rules
+  calendar?: MarketDaySets;
+}
+
+export interface DreamProjection {
+  id: number;
+  requiredNet: number;
+  tradingDay: number | null;
+  date: string | null;
+}
+
+export interface ProjectionResult {
+  daysToGoal: number;
+  goalDate: string;
+  balancePath: number[];
+  dreams: DreamProjection[];
+}
+
+/**
+ * Runs the same projection the Dream Board renders: days to the ultimate goal
+ * for the chosen purchase mode, the daily balance path and the trading day on
+ * which each unpurchased dream becomes affordable.
+ */
+export const projectDreamBoard = (input: ProjectionInput): ProjectionResult => {
+  const startDate = input.startDate ?? new Date();
+  const constants = input.constants ?? DEFAULT_PROJECTION_CONSTANTS;
+  const calendar = input.calendar ?? getRuleBasedMarketDaySets();
+  const holidays = calendar.holidays;
+  const schedule = createTradingSchedule(startDate, calendar, constants.halfDayWeight);
+  const unpurchased = input.dreams.filter(d => !d.purchased).sort((a, b) => a.cost - b.cost);
+  const purchasedCosts = input.dreams.filter(d => d.purchased).reduce((sum, d) => sum + d.cost, 0);
+
+  const daysToGoal = input.feedbackMode === 'buyAsYouGo'
+    ? getDaysToGoalWithPurchases(
+        input.currentBalance, input.originBalance, input.ultimateGoal, input.dailyWins,
+        unpurchased, purchasedCosts, input.profitTarget, input.riskPct, constants, schedule
+      )
+    : getDaysToGoal(input.currentBalance, input.ultimateGoal, input.dailyWins, input.profitTarget, input.riskPct, constants, schedule);
+
+  const affordabilityDays = getDreamAffordabilityDays(
+    input.currentBalance, input.originBalance, daysToGoal, input.dailyWins,
+    unpurchased, purchasedCosts, input.feedbackMode, input.profitTarget, input.riskPct, constants, schedule
+  );
+  const dayByDreamId = new Map<number, number>();
+  affordabilityDays.forEach((ids, day) => ids.forEach(id => dayByDreamId.set(id, day)));
+
+  return {
+    daysToGoal,
+    goalDate: formatDateKey(addTradingDays(startDate, daysToGoal, holidays)),
+    balancePath: getBalancePath(
+      input.currentBalance, Math.min(daysToGoal, input.pathDays), input.dailyWins, input.profitTarget, input.riskPct, constants, schedule
+    ),
+    dreams: unpurchased.map(item => {
+      const tradingDay = dayByDreamId.get(item.id) ?? null;
+      return {
+        id: item.id,
+        requiredNet: getRequiredNetForItem(item.cost, item.category, constants),
+        tradingDay,
+        date: tradingDay !== null ? formatDateKey(addTradingDays(startDate, tradingDay, holidays)) : null,
+      };
+    }),
+  };
+};
+
+// ============================================
+// PLAN TRACKING (ACTUAL VS PROJECTED)
+// ============================================
+
+export interface PlanBaselineParams {
+  startDate: string;
+  startBalance: number;
+  dailyWins: number;
+  profitTarget: number;
+  riskPercent: number;
+}
+
+export interface PlanTrackingPoint {
+  day: number;
+  date: string;
+  projected: number;
+  actual: number;
+}
+
+/**
+ * Walks trading days from the baseline's start date to endDate, pairing the
+ * balance the baseline projected for each day with the latest recorded balance
+ * as of that day. Day 0 is the start date itself.
+ */
+export const getPlanTrackingSeries = (
+  baseline: PlanBaselineParams,
+  recordedBalances: { timestamp: Date | string; balanceAfter: number }[],
+  endDate: Date,
+  constants: ProjectionConstants = DEFAULT_PROJECTION_CONSTANTS,
+  calendar: MarketDaySets = getRuleBasedMarketDaySets()
+): PlanTrackingPoint[] => {
+  const [year, month, day] = baseline.startDate.split('-').map(Number);
+  const cursor = new Date(year, month - 1, day);
+  const endKey = formatDateKey(endDate);
+  const riskPct = baseline.riskPercent / 100;
+
+  // Entries arrive oldest first, so the last one written per date is that day's close
+  const closeByDate = new Map<string, number>();
+  for (const entry of recordedBalances) {
+    closeByDate.set(formatDateKey(new Date(entry.timestamp)), entry.balanceAfter);
+  }
+
+  const points: PlanTrackingPoint[] = [];
+  let tradingDay = 0;
+  let projected = baseline.startBalance;
+  let actual = baseline.startBalance;
+
+  for (let key = formatDateKey(cursor); key <= endKey; cursor.setDate(cursor.getDate() + 1), key = formatDateKey(cursor)) {
+    const recorded = closeByDate.get(key);
+    if (recorded !== undefined) actual = recorded;
+    if (points.length > 0 && !isNYSETradingDay(cursor, calendar.holidays)) continue;
+    if (points.length > 0) {
+      tradingDay++;
+      const dayWeight = calendar.halfDays.has(key) ? constants.halfDayWeight : 1;
+      projected = stepBalance(projected, baseline.dailyWins * dayWeight, baseline.profitTarget, riskPct, constants);
+    }
+    points.push({ day: tradingDay, date: key, projected, actual });
+  }
+
+  return points;
+};
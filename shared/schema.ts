@@ -1,54 +1,347 @@
-import { pgTable, text, varchar, integer, boolean, real, timestamp, serial, index, jsonb, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, boolean, real, timestamp, serial, index, jsonb, numeric } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// One row per login. The sid is a random id; the access and refresh tokens
+// are stored only as SHA-256 hashes, so a leaked table can't be replayed.
+export interface AuthSessionData {
+  username: string;
+  accessTokenHash: string;
+  accessExpiresAt: number;
+  refreshTokenHash: string;
+  createdAt: number;
+  lastSeenAt: number;
+  ip: string | null;
+  userAgent: string | null;
+  // Issued while two-factor is required but the user hasn't enrolled yet;
+  // such a session can only reach the enrollment endpoints
+  totpSetupRequired?: boolean;
+}
+
 export const sessions = pgTable(
   "sessions",
   {
     sid: varchar("sid").primaryKey(),
-    sess: jsonb("sess").notNull(),
+    userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+    sess: jsonb("sess").$type<AuthSessionData>().notNull(),
     expire: timestamp("expire").notNull(),
   },
-  (table) => [index("IDX_session_expire").on(table.expire)],
+  (table) => [
+    index("IDX_session_expire").on(table.expire),
+    index("IDX_session_user").on(table.userId),
+  ],
 );
 
+export type InsertSession = typeof sessions.$inferInsert;
+export type Session = typeof sessions.$inferSelect;
+
+// A session as listed to its owner by GET /api/auth/sessions
+export interface ActiveSession {
+  id: string;
+  createdAt: number;
+  lastSeenAt: number;
+  ip: string | null;
+  userAgent: string | null;
+  current: boolean;
+}
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  // scrypt, stored as "salt:hash" in hex
+  passwordHash: text("password_hash").notNull(),
+  isAdmin: boolean("is_admin").notNull().default(false),
+  // Base32 TOTP secret. Written when enrollment starts, only enforced once
+  // totpEnabled is set by a confirmed code.
+  totpSecret: text("totp_secret"),
+  totpEnabled: boolean("totp_enabled").notNull().default(false),
+  // Last accepted 30-second step, so a code can't be used twice
+  totpLastStep: integer("totp_last_step"),
+  // SHA-256 hashes of the unused recovery codes
+  totpRecoveryCodes: jsonb("totp_recovery_codes").$type<string[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type InsertUser = typeof users.$inferInsert;
+export type User = typeof users.$inferSelect;
+
+// Single-use codes an admin hands out so a teammate can register
+export const userInvites = pgTable("user_invites", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  createdBy: integer("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  usedBy: integer("used_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type InsertUserInvite = typeof userInvites.$inferInsert;
+export type UserInvite = typeof userInvites.$inferSelect;
+
+// Fixed-window counters for the Postgres rate-limit store. Times are epoch
+// milliseconds so window math never depends on the database's time zone.
+export const rateLimits = pgTable(
+  "rate_limits",
+  {
+    key: text("key").primaryKey(),
+    count: integer("count").notNull(),
+    windowStart: bigint("window_start", { mode: "number" }).notNull(),
+    expiresAt: bigint("expires_at", { mode: "number" }).notNull(),
+  },
+  (table) => [index("IDX_rate_limits_expires").on(table.expiresAt)],
+);
+
+export type RateLimit = typeof rateLimits.$inferSelect;
+
+// A single row holding how many migrations the database has had applied.
+// Startup refuses to run against a database newer than the build.
+export const schemaVersion = pgTable("schema_version", {
+  id: integer("id").primaryKey(),
+  version: integer("version").notNull(),
+  migratedAt: timestamp("migrated_at").defaultNow().notNull(),
+});
+
+// A named collection of dreams with its own projection. A null goal or origin
+// falls back to the value in user_settings.
+export const boards = pgTable("boards", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  ultimateGoal: real("ultimate_goal"),
+  originBalance: real("origin_balance"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertBoardSchema = createInsertSchema(boards, {
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  ultimateGoal: z.number().min(1000).nullable().optional(),
+  originBalance: z.number().min(1).nullable().optional(),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export type InsertBoard = z.infer<typeof insertBoardSchema>;
+export type Board = typeof boards.$inferSelect;
+
 export const dreamItems = pgTable("dream_items", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  boardId: integer("board_id").references(() => boards.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   cost: real("cost").notNull(),
   purchased: boolean("purchased").notNull().default(false),
   iconType: text("icon_type").notNull().default("target"),
   url: text("url"),
   category: text("category").notNull().default("Uncategorized"),
+  hidden: boolean("hidden").notNull().default(false),
+  // Key of an uploaded picture, served from /api/uploads/:key
+  imageKey: text("image_key"),
+  // Let the daily price check overwrite cost when the linked page's price moves
+  autoUpdateCost: boolean("auto_update_cost").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
+  // Set when the dream is moved to the Trash; purged TRASH_RETENTION_DAYS later
+  deletedAt: timestamp("deleted_at"),
 });
 
+export const TRASH_RETENTION_DAYS = 30;
+
 export const insertDreamItemSchema = createInsertSchema(dreamItems, {
   cost: z.number().positive().max(1000000000),
+  imageKey: z.string().uuid().nullable().optional(),
 }).omit({
   id: true,
+  userId: true,
   createdAt: true,
+  deletedAt: true,
 });
 
 export type InsertDreamItem = z.infer<typeof insertDreamItemSchema>;
 export type DreamItem = typeof dreamItems.$inferSelect;
 
+// Prices the daily check read from each dream's link. A row is only written
+// when the price differs from the dream's previous one.
+export const dreamPriceHistory = pgTable(
+  "dream_price_history",
+  {
+    id: serial("id").primaryKey(),
+    dreamItemId: integer("dream_item_id").notNull().references(() => dreamItems.id, { onDelete: "cascade" }),
+    price: real("price").notNull(),
+    currency: text("currency"),
+    recordedAt: timestamp("recorded_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [index("IDX_dream_price_history_item").on(table.dreamItemId, table.recordedAt)],
+);
+
+export type DreamPricePoint = typeof dreamPriceHistory.$inferSelect;
+
+export const UPLOAD_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif"] as const;
+export type UploadImageType = typeof UPLOAD_IMAGE_TYPES[number];
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Answer to POST /api/dream-items/preview, read from the product page. price
+// is in currency when the page says which. Send imageUrl with the new dream to
+// have the page's picture copied into uploads.
+export interface DreamUrlPreview {
+  url: string;
+  title: string | null;
+  price: number | null;
+  currency: string | null;
+  imageUrl: string | null;
+}
+
+// Answer to POST /api/uploads: PUT the file to url before expiresAt, then
+// save key on the dream
+export interface UploadTarget {
+  method: "PUT";
+  url: string;
+  key: string;
+  expiresAt: number;
+}
+
+export const DREAM_TRANSFER_FORMATS = ["csv", "json"] as const;
+export type DreamTransferFormat = typeof DREAM_TRANSFER_FORMATS[number];
+
+// One row of a POST /api/dream-items/import report. row counts the CSV header
+// as row 1 so it lines up with the spreadsheet; for JSON it's the 1-based index.
+export interface DreamImportRow {
+  row: number;
+  name: string | null;
+  action: "create" | "update" | "error";
+  // The dream written or matched; null for errors and for creates in a dry run
+  id: number | null;
+  errors: string[];
+}
+
+export interface DreamImportResult {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  failed: number;
+  rows: DreamImportRow[];
+}
+
 export const userSettings = pgTable("user_settings", {
   id: serial("id").primaryKey(),
+  userId: integer("user_id").unique().references(() => users.id, { onDelete: "cascade" }),
   currentBalance: real("current_balance").default(0),
   ultimateGoal: real("ultimate_goal").default(348000000),
   originBalance: real("origin_balance").default(500),
+  taxRate: real("tax_rate").default(0.6),
+  growthRate: real("growth_rate").default(1.2),
+  riskPercent: real("risk_percent").default(20),
+  maxRisk: real("max_risk").default(1000000),
+  housesMultiplier: real("houses_multiplier").default(2),
+  defaultMultiplier: real("default_multiplier").default(3),
+  maxBuffer: real("max_buffer").default(500000),
+  halfDayWeight: real("half_day_weight").default(1),
+  dailyWins: real("daily_wins").default(1),
+  profitTarget: real("profit_target").default(1),
+  dreamFeedbackMode: text("dream_feedback_mode", { enum: ["buyAsYouGo", "waitTillEnd"] }).default("waitTillEnd"),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
   id: true,
+  userId: true,
   updatedAt: true,
 });
 
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 export type UserSettings = typeof userSettings.$inferSelect;
 
+export const BALANCE_ENTRY_TYPES = ["deposit", "withdrawal", "pnl_close", "adjustment"] as const;
+export type BalanceEntryType = typeof BALANCE_ENTRY_TYPES[number];
+
+// Ledger behind userSettings.currentBalance. amount is the signed change to the
+// balance; balanceAfter is the running balance once the entry is applied.
+export const balanceEntries = pgTable(
+  "balance_entries",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+    timestamp: timestamp("timestamp", { withTimezone: true }).defaultNow().notNull(),
+    type: text("type", { enum: BALANCE_ENTRY_TYPES }).notNull(),
+    amount: real("amount").notNull(),
+    balanceAfter: real("balance_after").notNull(),
+    note: text("note"),
+  },
+  (table) => [index("IDX_balance_entries_user_timestamp").on(table.userId, table.timestamp)],
+);
+
+export const insertBalanceEntrySchema = createInsertSchema(balanceEntries).omit({
+  id: true,
+  userId: true,
+  timestamp: true,
+  balanceAfter: true,
+});
+
+export type InsertBalanceEntry = z.infer<typeof insertBalanceEntrySchema>;
+export type BalanceEntry = typeof balanceEntries.$inferSelect;
+
+// Snapshot of the plan a projection started from, so the board can compare what
+// was projected with what the ledger actually recorded. The latest row is active.
+export const planBaselines = pgTable("plan_baselines", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  startDate: text("start_date").notNull(),
+  startBalance: real("start_balance").notNull(),
+  dailyWins: real("daily_wins").notNull(),
+  profitTarget: real("profit_target").notNull(),
+  riskPercent: real("risk_percent").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertPlanBaselineSchema = createInsertSchema(planBaselines, {
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  startBalance: z.number().positive(),
+  dailyWins: z.number().min(0.5).max(3),
+  profitTarget: z.number().min(0.25).max(2),
+  riskPercent: z.number().gt(0).max(100),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export type InsertPlanBaseline = z.infer<typeof insertPlanBaselineSchema>;
+export type PlanBaseline = typeof planBaselines.$inferSelect;
+
+export const AUDIT_ENTITIES = ["dream_item", "board", "user_settings", "balance_entry", "plan_baseline"] as const;
+export type AuditEntity = typeof AUDIT_ENTITIES[number];
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "restore", "revert"] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// One row per change to user data, written by the storage layer in the same
+// transaction as the change. before/after are full row snapshots (null for
+// creates and deletes respectively).
+export const auditEvents = pgTable(
+  "audit_events",
+  {
+    id: serial("id").primaryKey(),
+    actorId: integer("actor_id").references(() => users.id, { onDelete: "cascade" }),
+    entity: text("entity", { enum: AUDIT_ENTITIES }).notNull(),
+    entityId: integer("entity_id").notNull(),
+    action: text("action", { enum: AUDIT_ACTIONS }).notNull(),
+    before: jsonb("before").$type<Record<string, unknown>>(),
+    after: jsonb("after").$type<Record<string, unknown>>(),
+    ip: text("ip"),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_audit_events_actor_created").on(table.actorId, table.createdAt),
+    index("IDX_audit_events_entity").on(table.entity, table.entityId),
+  ],
+);
+
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
 // ==============================================================================
 // AURORA AUCTION INTELLIGENCE (AAI) SCHEMA
 // ==============================================================================
@@ -243,6 +536,7 @@ export const auroraCalendarSessions = pgTable("aurora_calendar_sessions", {
   id: serial("id").primaryKey(),
   date: text("date").notNull().unique(),
   dayType: text("day_type").notNull(),
+  note: text("note"),
 });
 
 // ==============================================================================
@@ -264,3 +558,67 @@ export type AuroraPraxisParameter = typeof auroraPraxisParameters.$inferSelect;
 export type AuroraPraxisDelta = typeof auroraPraxisDeltas.$inferSelect;
 export type AuroraBacktestResult = typeof auroraBacktestResults.$inferSelect;
 export type AuroraCalendarSession = typeof auroraCalendarSessions.$inferSelect;
+export type InsertAuroraCalendarSession = typeof auroraCalendarSessions.$inferInsert;
+
+export const insertAuroraPraxisParameterSchema = createInsertSchema(auroraPraxisParameters, {
+  name: z.string().min(1),
+  config: z.record(z.unknown()),
+}).omit({
+  id: true,
+  lastUpdated: true,
+});
+
+// ==============================================================================
+// ACCOUNT BACKUP ARCHIVE
+// ==============================================================================
+
+// Bump when the archive shape changes; restore rejects versions it doesn't know
+export const BACKUP_ARCHIVE_VERSION = 1;
+
+const archiveDate = z.coerce.date();
+// drizzle-zod caps real columns at 8388607, below the default ultimate goal
+const archiveAmount = z.number().finite();
+
+export const backupArchiveSchema = z.object({
+  version: z.literal(BACKUP_ARCHIVE_VERSION),
+  exportedAt: archiveDate,
+  settings: insertUserSettingsSchema.extend({
+    currentBalance: archiveAmount.nullable().optional(),
+    ultimateGoal: archiveAmount.nullable().optional(),
+    originBalance: archiveAmount.nullable().optional(),
+    maxRisk: archiveAmount.nullable().optional(),
+    maxBuffer: archiveAmount.nullable().optional(),
+  }).nullable(),
+  // Board ids only link dreams to their board within the archive; restore assigns new ones
+  boards: z.array(insertBoardSchema.extend({ id: z.number().int(), createdAt: archiveDate.nullable() })),
+  // Dreams saved before the cost check tightened may be free
+  dreamItems: z.array(insertDreamItemSchema.extend({
+    cost: z.number().min(0).max(1000000000),
+    createdAt: archiveDate.nullable(),
+    deletedAt: archiveDate.nullable(),
+  })),
+  balanceEntries: z.array(insertBalanceEntrySchema.extend({ timestamp: archiveDate, amount: archiveAmount, balanceAfter: archiveAmount })),
+  planBaselines: z.array(insertPlanBaselineSchema.extend({ createdAt: archiveDate.nullable() })),
+  // Shared by every account, so only included and restored for admins
+  auroraParameters: z.array(insertAuroraPraxisParameterSchema).optional(),
+}).superRefine((archive, ctx) => {
+  const boardIds = new Set(archive.boards.map(board => board.id));
+  if (boardIds.size !== archive.boards.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["boards"], message: "Board ids must be unique" });
+  }
+  archive.dreamItems.forEach((item, index) => {
+    if (item.boardId == null || !boardIds.has(item.boardId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["dreamItems", index, "boardId"], message: "Dream must belong to a board in the archive" });
+    }
+  });
+});
+
+export type BackupArchive = z.infer<typeof backupArchiveSchema>;
+
+export interface RestoreSummary {
+  boards: number;
+  dreamItems: number;
+  balanceEntries: number;
+  planBaselines: number;
+  auroraParameters: number;
+}
@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["shared/**/*.test.ts", "server/**/*.test.ts"],
+    environment: "node",
+    // Modules that import storage connect on load; keep that off any real database
+    env: { STORAGE_DRIVER: "memory" },
+    // PGlite takes a few seconds to start and migrate
+    testTimeout: 30_000,
+    hookTimeout: 30_000,
+  },
+});